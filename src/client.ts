@@ -1,6 +1,13 @@
 // Client-side exports only - Safe for browser bundles
 export { SocketIOLikeClient } from './client/ws-adapter.js';
+export { Manager } from './client/manager.js';
 export { Emitter } from './Emitter.js';
+export {
+  JsonParser,
+  MessagePackParser,
+  defaultParser,
+} from './parser/index.js';
+export type { Parser, PacketDecoder, Packet, Frame } from './parser/index.js';
 
 // Client-only types (safe for browser)
 export type {
@@ -0,0 +1,356 @@
+// manager.ts
+// Conexión compartida por los sockets de varios namespaces (multiplexación)
+
+import { createClientLogger, type ClientLogger } from './ClientLogger.js';
+import {
+  ENGINE_IO_PROTOCOL,
+  SocketIOCodec,
+  type ProtocolMessage,
+} from '../parser/socketio.js';
+import {
+  SocketIOLikeClient,
+  calculateReconnectionDelay,
+  getDisconnectReason,
+  shouldReconnectOnClose,
+  type SocketIOLikeOptions,
+} from './ws-adapter.js';
+
+type ManagerListener = (...args: any[]) => void;
+
+// Path por defecto de Engine.IO
+const DEFAULT_SOCKET_IO_PATH = '/socket.io/';
+
+// Prefijo de los callbackId (solo se usa para decodificar)
+const MANAGER_ACK_PREFIX = 'cb_';
+
+/**
+ * Una sola conexión (protocolo socket.io sobre WebSocket) para todos los
+ * namespaces de un servidor.
+ *
+ * manager.socket('/chat') devuelve un SocketIOLikeClient con sus propios
+ * handlers, auth y ciclo connect/disconnect; los paquetes de cada namespace
+ * viajan por la misma conexión. La reconexión es del Manager: al reabrir la
+ * conexión cada socket activo vuelve a enviar su CONNECT. Emite 'open',
+ * 'close', 'error', 'ping', 'reconnect_attempt', 'reconnect',
+ * 'reconnect_error' y 'reconnect_failed'.
+ */
+export class Manager {
+  private ws: WebSocket | null = null;
+  private uri: string;
+  private options: SocketIOLikeOptions;
+  private codec: SocketIOCodec = new SocketIOCodec(MANAGER_ACK_PREFIX);
+  private listeners: Map<string, ManagerListener[]> = new Map();
+  // Sockets creados por namespace y los que usan la conexión ahora
+  private nsps: Map<string, SocketIOLikeClient> = new Map();
+  private activeSockets: Set<SocketIOLikeClient> = new Set();
+  private readyState: 'closed' | 'opening' | 'open' = 'closed';
+  private openData: any = null;
+  private reconnectAttempts: number = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private connectionTimeout: ReturnType<typeof setTimeout> | null = null;
+  // close() explícito o sin sockets: no reconectar
+  private skipReconnect: boolean = false;
+  private log: boolean;
+  private logger: ClientLogger;
+
+  constructor(uri: string, options: SocketIOLikeOptions = {}, log = true) {
+    this.uri = uri;
+    this.options = {
+      reconnection: true,
+      reconnectionAttempts: 5,
+      reconnectionDelay: 1000,
+      reconnectionDelayMax: 5000,
+      randomizationFactor: 0.5,
+      timeout: 20000,
+      ...options,
+      protocol: 'socket.io',
+    };
+    this.log = log;
+    this.logger = createClientLogger({
+      prefix: 'ws-manager',
+      level: log ? 0 : 1,
+    });
+  }
+
+  // Socket del namespace indicado (se crea la primera vez)
+  socket(
+    nsp: string = '/',
+    options: SocketIOLikeOptions = {}
+  ): SocketIOLikeClient {
+    let socket = this.nsps.get(nsp);
+    if (!socket) {
+      const url = new URL(this.uri.replace(/^http/, 'ws'));
+      url.pathname = nsp;
+      url.search = '';
+      socket = new SocketIOLikeClient(
+        url.toString(),
+        { ...this.options, ...options, protocol: 'socket.io' },
+        this.log,
+        this
+      );
+      this.nsps.set(nsp, socket);
+    }
+    return socket;
+  }
+
+  hasSocket(nsp: string): boolean {
+    return this.nsps.has(nsp);
+  }
+
+  // Abrir la conexión (los sockets la abren al conectar)
+  open(): this {
+    if (this.readyState !== 'closed') return this;
+    this.clearTimers();
+    this.skipReconnect = false;
+    this.readyState = 'opening';
+
+    const url = new URL(this.uri.replace(/^http/, 'ws'));
+    url.pathname = this.options.path ?? DEFAULT_SOCKET_IO_PATH;
+    url.search = '';
+    Object.entries(this.options.query || {}).forEach(([key, value]) => {
+      url.searchParams.append(key, value);
+    });
+    url.searchParams.append('EIO', String(ENGINE_IO_PROTOCOL));
+    url.searchParams.append('transport', 'websocket');
+
+    this.codec.reset();
+    const ws = new WebSocket(url.toString());
+    ws.binaryType = 'arraybuffer';
+    this.ws = ws;
+
+    ws.onmessage = event => {
+      try {
+        const message = this.codec.decode(event.data);
+        if (message) {
+          this.handleMessage(message);
+        }
+      } catch (error) {
+        this.emit('error', error);
+      }
+    };
+    ws.onclose = event => this.handleClose(event.code, event.reason);
+    ws.onerror = () => {
+      const error = new Error('WebSocket connection error');
+      (error as any).code = 'WEBSOCKET_ERROR';
+      (error as any).type = 'TransportError';
+      (error as any).url = this.uri;
+      this.handleError(error);
+    };
+
+    const timeout = this.options.timeout || 20000;
+    this.connectionTimeout = setTimeout(() => {
+      if (this.readyState !== 'opening') return;
+      const error = new Error('Connection timeout');
+      (error as any).code = 'CONNECTION_TIMEOUT';
+      (error as any).type = 'TransportError';
+      (error as any).description = `Connection timeout after ${timeout}ms`;
+      this.handleError(error);
+      ws.close(1000, 'Connection timeout');
+      // El cierre por timeout no es un cierre normal: se reintenta
+      this.handleClose(1006, 'Connection timeout');
+    }, timeout);
+    return this;
+  }
+
+  // Cerrar la conexión de todos los namespaces, sin reconexión
+  close(): this {
+    this.skipReconnect = true;
+    this.clearTimers();
+    if (this.ws) {
+      this.ws.close(1000, 'Client disconnect');
+      this.handleClose(1000, 'Client disconnect');
+    }
+    return this;
+  }
+
+  // Un socket empieza a usar la conexión (socket.connect())
+  attachSocket(socket: SocketIOLikeClient): void {
+    this.activeSockets.add(socket);
+    if (this.readyState === 'open' && this.ws) {
+      socket.handleManagerOpen(this.ws, this.openData);
+    } else {
+      this.skipReconnect = false;
+      if (!this.reconnectTimer) {
+        this.open();
+      }
+    }
+  }
+
+  // Un socket deja la conexión; sin sockets activos se cierra
+  detachSocket(socket: SocketIOLikeClient): void {
+    this.activeSockets.delete(socket);
+    if (this.activeSockets.size === 0) {
+      this.close();
+    }
+  }
+
+  on(event: string, listener: ManagerListener): this {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, []);
+    }
+    this.listeners.get(event)!.push(listener);
+    return this;
+  }
+
+  once(event: string, listener: ManagerListener): this {
+    const onceWrapper = (...args: any[]) => {
+      this.off(event, onceWrapper);
+      listener(...args);
+    };
+    return this.on(event, onceWrapper);
+  }
+
+  off(event: string, listener?: ManagerListener): this {
+    if (!listener) {
+      this.listeners.delete(event);
+      return this;
+    }
+    const listeners = this.listeners.get(event);
+    const index = listeners ? listeners.indexOf(listener) : -1;
+    if (index > -1) {
+      listeners!.splice(index, 1);
+    }
+    return this;
+  }
+
+  get connected(): boolean {
+    return this.readyState === 'open';
+  }
+
+  private emit(event: string, ...args: any[]): void {
+    (this.listeners.get(event) || []).slice().forEach(listener => {
+      try {
+        listener(...args);
+      } catch (error) {
+        this.logger.error(
+          'listener_error',
+          `Error en listener del Manager para '${event}'`,
+          { error: error instanceof Error ? error.message : String(error) }
+        );
+      }
+    });
+  }
+
+  private handleMessage(message: ProtocolMessage): void {
+    if (!this.ws) return;
+
+    switch (message.type) {
+      case 'open': {
+        this.clearTimers();
+        this.readyState = 'open';
+        this.openData = message.data;
+        const attempts = this.reconnectAttempts;
+        this.reconnectAttempts = 0;
+        this.emit('open');
+        if (attempts > 0) {
+          this.emit('reconnect', attempts);
+        }
+        // Cada namespace activo envía su CONNECT (con su auth)
+        this.activeSockets.forEach(socket =>
+          socket.handleManagerOpen(this.ws!, message.data)
+        );
+        break;
+      }
+      case 'ping':
+        this.ws.send(this.codec.encodePong());
+        this.emit('ping');
+        break;
+      case 'close':
+        this.ws.close(1000, 'Transport close');
+        break;
+      case 'connect':
+      case 'connect_error':
+      case 'disconnect':
+      case 'packet':
+        this.nsps.get(message.nsp)?.handleManagerPacket(message);
+        break;
+      default:
+        break;
+    }
+  }
+
+  private handleError(error: any): void {
+    error.timestamp = Date.now();
+    error.attempt = this.reconnectAttempts;
+    if (this.reconnectAttempts > 0) {
+      this.emit('reconnect_error', error);
+    }
+    this.emit('error', error);
+    this.activeSockets.forEach(socket => socket.handleManagerError(error));
+  }
+
+  private handleClose(code: number, reason?: string): void {
+    if (this.readyState === 'closed' && !this.ws) return;
+    const ws = this.ws;
+    if (ws) {
+      ws.onopen = ws.onmessage = ws.onclose = ws.onerror = null;
+    }
+    this.ws = null;
+    this.readyState = 'closed';
+    this.openData = null;
+    this.clearTimers();
+
+    const disconnectReason = reason || getDisconnectReason(code);
+    const details = {
+      wasClean: code === 1000,
+      code,
+      reason: disconnectReason,
+      timestamp: Date.now(),
+      attempt: this.reconnectAttempts,
+    };
+    this.activeSockets.forEach(socket =>
+      socket.handleManagerClose(disconnectReason, details)
+    );
+    this.emit('close', disconnectReason, details);
+
+    if (
+      !this.skipReconnect &&
+      this.activeSockets.size > 0 &&
+      shouldReconnectOnClose(code)
+    ) {
+      this.reconnect();
+    }
+  }
+
+  private reconnect(): void {
+    if (this.options.reconnection === false) return;
+
+    const maxAttempts = this.options.reconnectionAttempts ?? 5;
+    if (this.reconnectAttempts >= maxAttempts) {
+      const failedError = new Error(
+        'Reconnection failed after maximum attempts'
+      );
+      (failedError as any).code = 'RECONNECT_FAILED';
+      (failedError as any).type = 'ReconnectionError';
+      (failedError as any).attempts = this.reconnectAttempts;
+      (failedError as any).maxAttempts = maxAttempts;
+      this.reconnectAttempts = 0;
+      this.emit('reconnect_failed', failedError);
+      return;
+    }
+
+    const delay = calculateReconnectionDelay(
+      this.reconnectAttempts,
+      this.options.reconnectionDelay ?? 1000,
+      this.options.reconnectionDelayMax ?? 5000,
+      this.options.randomizationFactor ?? 0.5
+    );
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.reconnectAttempts++;
+      this.emit('reconnect_attempt', this.reconnectAttempts);
+      this.open();
+    }, delay);
+  }
+
+  private clearTimers(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.connectionTimeout) {
+      clearTimeout(this.connectionTimeout);
+      this.connectionTimeout = null;
+    }
+  }
+}
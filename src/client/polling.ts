@@ -0,0 +1,262 @@
+// polling.ts
+// Transporte HTTP long-polling del cliente con la misma API que WebSocket
+
+import {
+  decodeOpenPacket,
+  decodePayload,
+  encodePayload,
+  type PayloadFrame,
+} from '../parser/payload.js';
+
+// Estados de WebSocket (no siempre existe el global WebSocket)
+const CONNECTING = 0;
+const OPEN = 1;
+const CLOSING = 2;
+const CLOSED = 3;
+
+type OutgoingFrame = string | ArrayBuffer | ArrayBufferView;
+
+export interface PollingTransportOptions {
+  // Entregar también el paquete open a onmessage (modo socket.io)
+  forwardOpenPacket?: boolean;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Transporte long-polling para SocketIOLikeClient.
+ *
+ * Expone la parte de la API de WebSocket que usa el cliente (readyState,
+ * binaryType, send, close y los handlers onopen/onmessage/onclose/onerror).
+ * Un GET retenido recibe los mensajes del servidor y cada envío es un POST;
+ * el primer GET hace el handshake y devuelve el sid de la sesión.
+ */
+export class PollingTransport {
+  public readyState: number = CONNECTING;
+  public binaryType: 'arraybuffer' | 'blob' = 'arraybuffer';
+  public onopen: ((event: any) => void) | null = null;
+  public onmessage: ((event: { data: any }) => void) | null = null;
+  public onclose:
+    | ((event: { code: number; reason: string; wasClean: boolean }) => void)
+    | null = null;
+  public onerror: ((event: any) => void) | null = null;
+
+  public sid: string | null = null;
+  public upgrades: string[] = [];
+
+  private url: string;
+  private options: PollingTransportOptions;
+  private pollController: AbortController | null = null;
+  private writeQueue: OutgoingFrame[] = [];
+  private writing = false;
+  private polling = false;
+  private paused = false;
+  private onPaused: (() => void) | null = null;
+
+  constructor(url: string, options: PollingTransportOptions = {}) {
+    this.url = url.replace(/^ws/, 'http');
+    this.options = options;
+    this.poll();
+  }
+
+  // Nombre del transporte (como engine.transport.name en Socket.IO)
+  get name(): 'polling' {
+    return 'polling';
+  }
+
+  send(frame: OutgoingFrame): void {
+    if (this.readyState !== OPEN) {
+      throw new Error('Polling transport is not open');
+    }
+    this.writeQueue.push(frame);
+    this.write();
+  }
+
+  close(code: number = 1000, reason: string = ''): void {
+    if (this.readyState === CLOSING || this.readyState === CLOSED) return;
+
+    const hadSession = this.sid !== null;
+    this.readyState = CLOSING;
+    this.pollController?.abort();
+    if (hadSession) {
+      // Avisar al servidor; la respuesta no importa
+      fetch(this.sessionUrl(), {
+        method: 'DELETE',
+        headers: this.options.headers,
+      }).catch(() => {});
+    }
+    this.finish(code, reason, true);
+  }
+
+  // Dejar de hacer peticiones; cb se llama cuando no queda ninguna en curso
+  pause(cb: () => void): void {
+    this.paused = true;
+    this.onPaused = cb;
+    this.checkPaused();
+  }
+
+  // Volver a hacer peticiones si el upgrade no llegó a completarse
+  resume(): void {
+    if (!this.paused) return;
+    this.paused = false;
+    this.onPaused = null;
+    this.poll();
+    this.write();
+  }
+
+  // Abandonar el transporte tras el upgrade: devuelve los frames sin enviar
+  discard(): OutgoingFrame[] {
+    this.readyState = CLOSED;
+    this.pollController?.abort();
+    this.onopen = this.onmessage = this.onclose = this.onerror = null;
+    return this.writeQueue.splice(0);
+  }
+
+  private sessionUrl(): string {
+    if (!this.sid) return this.url;
+    return `${this.url}${this.url.includes('?') ? '&' : '?'}sid=${encodeURIComponent(this.sid)}`;
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling || this.paused) return;
+    if (this.readyState !== CONNECTING && this.readyState !== OPEN) return;
+
+    this.polling = true;
+    this.pollController = new AbortController();
+    try {
+      const response = await fetch(this.sessionUrl(), {
+        headers: this.options.headers,
+        signal: this.pollController.signal,
+      });
+      const body = await response.text();
+      this.polling = false;
+      if (!response.ok) {
+        this.handleHttpError(response.status, body);
+        return;
+      }
+      this.handleFrames(decodePayload(body));
+    } catch (error) {
+      this.polling = false;
+      this.handleTransportError(error);
+      return;
+    }
+
+    if (this.paused) {
+      this.checkPaused();
+      return;
+    }
+    this.poll();
+  }
+
+  private handleFrames(frames: PayloadFrame[]): void {
+    if (this.readyState === CONNECTING) {
+      const open = frames.length > 0 ? decodeOpenPacket(frames[0]) : null;
+      if (!open) {
+        this.handleTransportError(new Error('Invalid polling handshake'));
+        return;
+      }
+      this.sid = open.sid;
+      this.upgrades = open.upgrades || [];
+      this.readyState = OPEN;
+      this.onopen?.({ type: 'open' });
+      if (!this.options.forwardOpenPacket) {
+        frames = frames.slice(1);
+      }
+    }
+
+    for (const frame of frames) {
+      if (this.readyState !== OPEN) return;
+      this.onmessage?.({
+        data: typeof frame === 'string' ? frame : this.toBinary(frame),
+      });
+    }
+  }
+
+  // POST con todos los frames pendientes (uno en curso como máximo)
+  private async write(): Promise<void> {
+    if (this.writing || this.paused || this.writeQueue.length === 0) return;
+
+    this.writing = true;
+    const frames = this.writeQueue.splice(0);
+    try {
+      const response = await fetch(this.sessionUrl(), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'text/plain;charset=UTF-8',
+          ...this.options.headers,
+        },
+        body: encodePayload(frames),
+      });
+      const body = await response.text();
+      this.writing = false;
+      if (!response.ok) {
+        this.handleHttpError(response.status, body);
+        return;
+      }
+    } catch (error) {
+      this.writing = false;
+      this.handleTransportError(error);
+      return;
+    }
+
+    if (this.paused) {
+      this.checkPaused();
+      return;
+    }
+    this.write();
+  }
+
+  private checkPaused(): void {
+    if (!this.paused || this.polling || this.writing || !this.onPaused) return;
+    const cb = this.onPaused;
+    this.onPaused = null;
+    cb();
+  }
+
+  // 410: el servidor cerró la sesión e indica el código y el motivo
+  private handleHttpError(status: number, body: string): void {
+    if (status === 410) {
+      let info: { code?: number; reason?: string } = {};
+      try {
+        info = JSON.parse(body);
+      } catch {
+        // cuerpo no JSON: cierre sin detalles
+      }
+      this.finish(info.code ?? 1000, info.reason ?? '', true);
+      return;
+    }
+
+    let message = `HTTP ${status}`;
+    try {
+      message = JSON.parse(body).message || message;
+    } catch {
+      // cuerpo no JSON
+    }
+    const error = new Error(message);
+    (error as any).status = status;
+    this.handleTransportError(error);
+  }
+
+  private handleTransportError(error: any): void {
+    if (this.readyState === CLOSING || this.readyState === CLOSED) return;
+    this.onerror?.({ type: 'error', error, message: error?.message });
+    this.finish(1006, '', false);
+  }
+
+  private finish(code: number, reason: string, wasClean: boolean): void {
+    if (this.readyState === CLOSED) return;
+    this.readyState = CLOSED;
+    this.pollController?.abort();
+    this.writeQueue = [];
+    const onclose = this.onclose;
+    // Asíncrono, igual que el evento close de WebSocket
+    setTimeout(() => onclose?.({ code, reason, wasClean }), 0);
+  }
+
+  private toBinary(frame: Uint8Array): ArrayBuffer | Blob {
+    const buffer = frame.buffer.slice(
+      frame.byteOffset,
+      frame.byteOffset + frame.byteLength
+    ) as ArrayBuffer;
+    return this.binaryType === 'blob' ? new Blob([buffer]) : buffer;
+  }
+}
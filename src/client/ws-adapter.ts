@@ -2,6 +2,14 @@
 // Adapter que emula la API de Socket.IO usando WebSocket nativo
 
 import { createClientLogger, type ClientLogger } from './ClientLogger.js';
+import { PollingTransport } from './polling.js';
+import { Manager } from './manager.js';
+import { defaultParser, type Packet, type PacketDecoder, type Parser } from '../parser/index.js';
+import {
+  ENGINE_IO_PROTOCOL,
+  SocketIOCodec,
+  type ProtocolMessage,
+} from '../parser/socketio.js';
 
 interface EventCallback {
   (...args: any[]): void;
@@ -11,12 +19,15 @@ interface EventCallbacks {
   [event: string]: EventCallback[];
 }
 
-interface SocketIOLikeOptions {
+export interface SocketIOLikeOptions {
   query?: { [key: string]: string };
   transports?: string[];
   autoConnect?: boolean;
-  auth?: Record<string, any>;
+  // Objeto o callback `(cb) => cb(data)`, llamado en cada conexión
+  auth?: Record<string, any> | ((callback: (data: any) => void) => void);
   forceNew?: boolean;
+  // Compartir la conexión del Manager entre namespaces (solo modo socket.io;
+  // sin efecto con el protocolo por defecto)
   multiplex?: boolean;
   reconnection?: boolean;
   reconnectionAttempts?: number;
@@ -33,6 +44,120 @@ interface SocketIOLikeOptions {
   maxPayload?: number;
   pingInterval?: number;
   pongTimeout?: number;
+  // Buffer de envío mientras no hay conexión
+  sendBufferMaxSize?: number;
+  sendBufferDropPolicy?: 'drop-oldest' | 'drop-newest';
+  // Codec de paquetes (debe coincidir con el del servidor)
+  parser?: Parser;
+  // Protocolo de transporte ('socket.io' para servidores Socket.IO)
+  protocol?: 'default' | 'socket.io';
+  // Path de Engine.IO en modo socket.io
+  path?: string;
+}
+
+// Paquete saliente en formato JSON
+interface OutgoingPacket {
+  event: string;
+  payload: any[];
+  callbackId?: string;
+  compress?: boolean;
+}
+
+// Tamaño máximo por defecto del buffer de envío
+const DEFAULT_SEND_BUFFER_MAX_SIZE = 100;
+
+// Prefijo de los callbackId de los acknowledgements del cliente
+const CLIENT_ACK_PREFIX = 'cb_';
+
+// Path por defecto de Engine.IO en modo socket.io
+const DEFAULT_SOCKET_IO_PATH = '/socket.io/';
+
+// Transportes por defecto del cliente
+const DEFAULT_TRANSPORTS = ['websocket'];
+
+// Managers de io() por servidor (origen + path de Engine.IO)
+const managers: Map<string, Manager> = new Map();
+
+// Motivos de AuthError que el servidor puede indicar en error.data.reason
+const AUTH_ERROR_REASONS = [
+  'invalid_credentials',
+  'expired_token',
+  'insufficient_permissions',
+  'rate_limited',
+];
+
+// Motivo de cierre legible a partir del código de WebSocket
+export function getDisconnectReason(code: number): string {
+  switch (code) {
+    case 1000:
+      return 'Normal closure';
+    case 1001:
+      return 'Going away';
+    case 1002:
+      return 'Protocol error';
+    case 1003:
+      return 'Unsupported data';
+    case 1005:
+      return 'No status received';
+    case 1006:
+      return 'Abnormal closure';
+    case 1007:
+      return 'Invalid frame payload data';
+    case 1008:
+      return 'Policy violation';
+    case 1009:
+      return 'Message too big';
+    case 1010:
+      return 'Mandatory extension';
+    case 1011:
+      return 'Internal server error';
+    case 1015:
+      return 'TLS handshake failure';
+    default:
+      return `Connection closed (code: ${code})`;
+  }
+}
+
+export function shouldReconnectOnClose(code: number): boolean {
+  // Don't reconnect on normal closure or client-initiated closures
+  if (code === 1000 || code === 1001) {
+    return false;
+  }
+
+  // Don't reconnect on protocol errors or policy violations
+  if (code === 1002 || code === 1003 || code === 1007 || code === 1008) {
+    return false;
+  }
+
+  // Reconnect on abnormal closures, server errors, etc.
+  return true;
+}
+
+// Backoff exponencial con aleatorización para el intento `attempts`
+export function calculateReconnectionDelay(
+  attempts: number,
+  baseDelay: number,
+  maxDelay: number,
+  randomizationFactor: number
+): number {
+  // Exponential backoff: delay = baseDelay * (2 ^ attempts)
+  let delay = baseDelay * Math.pow(2, attempts);
+
+  // Apply maximum delay limit
+  delay = Math.min(delay, maxDelay);
+
+  // Add randomization to prevent thundering herd
+  // randomization = delay * randomizationFactor * random(0, 1)
+  const randomization = delay * randomizationFactor * Math.random();
+
+  // Apply randomization (can be positive or negative)
+  const shouldAdd = Math.random() < 0.5;
+  delay = shouldAdd ? delay + randomization : delay - randomization;
+
+  // Ensure delay is not negative and has a minimum value
+  delay = Math.max(delay, baseDelay * 0.1);
+
+  return Math.round(delay);
 }
 
 // Clase que emula Socket de Socket.IO usando WebSocket nativo
@@ -65,9 +190,34 @@ export class SocketIOLikeClient {
   private cleanupTimer: NodeJS.Timeout | null = null;
   private isReconnecting: boolean = false;
   private manualDisconnect: boolean = false;
+  private parser: Parser;
+  private decoder: PacketDecoder;
+  // Codec del protocolo socket.io (solo con `protocol: 'socket.io'`)
+  private codec?: SocketIOCodec;
+  // Namespace al que se conecta en modo socket.io (path de la URL)
+  private nsp: string = '/';
+  // URL de la conexión actual (para el upgrade de polling a WebSocket)
+  private transportUrl: string = '';
+  // Un upgrade anterior funcionó (rememberUpgrade)
+  private priorWebsocketSuccess: boolean = false;
+  // Paquetes emitidos mientras se conecta o reconecta
+  private sendBufferQueue: Array<{ packet: OutgoingPacket; timestamp: number }> = [];
+  // pid de la sesión enviada por el servidor (connectionStateRecovery)
+  private sessionPid: string | null = null;
+  // Auth enviado en el último paquete de conexión
+  private connectAuth: Record<string, any> = {};
+  // true si el servidor recuperó la sesión anterior en la última conexión
+  public recovered: boolean = false;
   public logger: ClientLogger;
-
-  constructor(url: string, options: SocketIOLikeOptions = {},log=true) {
+  // Manager que comparte su conexión con otros namespaces (ver Manager.socket())
+  private manager?: Manager;
+
+  constructor(
+    url: string,
+    options: SocketIOLikeOptions = {},
+    log = true,
+    manager?: Manager
+  ) {
     this.url = url;
     this.options = {
       reconnection: true,
@@ -82,6 +232,16 @@ export class SocketIOLikeClient {
     this.reconnectDelay = this.options.reconnectionDelay || 1000;
     this.reconnectDelayMax = this.options.reconnectionDelayMax || 5000;
     this.randomizationFactor = this.options.randomizationFactor || 0.5;
+    this.parser = this.options.parser ?? defaultParser;
+    this.decoder = this.parser.createDecoder();
+    if (this.options.protocol === 'socket.io' || manager) {
+      this.codec = new SocketIOCodec(CLIENT_ACK_PREFIX);
+    }
+    if (manager) {
+      // La conexión es del Manager: este socket solo usa su namespace
+      this.manager = manager;
+      this.nsp = new URL(url.replace(/^http/, 'ws')).pathname || '/';
+    }
     this.socketId = `ws-client-${Math.random().toString(36).substring(2, 11)}`;
 
     // Initialize browser-compatible logger
@@ -97,6 +257,15 @@ export class SocketIOLikeClient {
       timeout: this.options.timeout
     });
 
+    // Solo el protocolo socket.io lleva el namespace en cada paquete: con el
+    // protocolo por defecto cada cliente tiene su propia conexión
+    if (options.multiplex && !this.codec) {
+      this.logger.warn(
+        'multiplex_ignored',
+        "multiplex has no effect without protocol: 'socket.io'"
+      );
+    }
+
     // Iniciar limpieza periódica de callbacks
     this.cleanupTimer = setInterval(() => {
       this.cleanupStaleCallbacks();
@@ -113,6 +282,14 @@ export class SocketIOLikeClient {
     this.clearTimers();
     this.manualDisconnect = false;
 
+    // Con Manager se envía CONNECT en cuanto su conexión esté abierta
+    if (this.manager) {
+      if (!this.connected) {
+        this.manager.attachSocket(this);
+      }
+      return this;
+    }
+
     try {
       // Emitir evento de intento de reconexión si no es la primera conexión
       if (this.reconnectAttempts > 0) {
@@ -120,7 +297,9 @@ export class SocketIOLikeClient {
       }
 
       // Construir URL con query parameters
-      let wsUrl = this.url.replace(/^http/, 'ws');
+      let wsUrl = this.codec
+        ? this.buildSocketIOUrl()
+        : this.url.replace(/^http/, 'ws');
       const queryParams = new URLSearchParams();
 
       // Agregar query parameters existentes
@@ -130,21 +309,16 @@ export class SocketIOLikeClient {
         });
       }
 
-      // Agregar información de autenticación si existe
-      if (this.options.auth) {
-        queryParams.append('auth', JSON.stringify(this.options.auth));
-      }
-
-      // Agregar socket ID
-      queryParams.append('socketId', this.socketId);
-
-      // Agregar parámetros de configuración
-      if (this.options.forceNew) {
-        queryParams.append('forceNew', 'true');
-      }
-
-      if (this.options.multiplex !== undefined) {
-        queryParams.append('multiplex', this.options.multiplex.toString());
+      const transport = this.selectTransport();
+      if (this.codec) {
+        // Engine.IO: versión del protocolo y transporte (auth y pid van en CONNECT)
+        queryParams.append('EIO', String(ENGINE_IO_PROTOCOL));
+        queryParams.append('transport', transport);
+      } else {
+        this.appendConnectionParams(queryParams);
+        if (transport === 'polling') {
+          queryParams.append('transport', 'polling');
+        }
       }
 
       const queryString = queryParams.toString();
@@ -152,13 +326,26 @@ export class SocketIOLikeClient {
         wsUrl += (wsUrl.includes('?') ? '&' : '?') + queryString;
       }
 
-      this.ws = new WebSocket(wsUrl);
+      this.decoder.reset();
+      this.codec?.reset();
+      this.transportUrl = wsUrl;
+      // PollingTransport implementa la parte de la API de WebSocket que se usa
+      this.ws =
+        transport === 'polling'
+          ? (new PollingTransport(wsUrl, {
+              forwardOpenPacket: !!this.codec,
+              headers: this.options.headers,
+            }) as unknown as WebSocket)
+          : new WebSocket(wsUrl);
+      // Los attachments binarios se entregan como ArrayBuffer
+      this.ws.binaryType = 'arraybuffer';
       this.setupEventListeners();
 
       // Configurar timeout de conexión
       const timeout = this.options.timeout || 20000;
       this.connectionTimeout = setTimeout(() => {
-        if (this.ws && this.ws.readyState === WebSocket.CONNECTING) {
+        // En modo socket.io la conexión no termina hasta recibir CONNECT
+        if (this.ws && !this.isConnected) {
           const error = new Error('Connection timeout');
           (error as any).code = 'CONNECTION_TIMEOUT';
           (error as any).type = 'TransportError';
@@ -176,82 +363,89 @@ export class SocketIOLikeClient {
     return this;
   }
 
+  // Primer transporte a usar; con rememberUpgrade se conecta directamente por
+  // WebSocket si un upgrade anterior funcionó
+  private selectTransport(): 'polling' | 'websocket' {
+    const transports = this.options.transports || DEFAULT_TRANSPORTS;
+    if (
+      this.options.rememberUpgrade &&
+      this.priorWebsocketSuccess &&
+      transports.includes('websocket')
+    ) {
+      return 'websocket';
+    }
+    return transports[0] === 'polling' ? 'polling' : 'websocket';
+  }
+
+  // Parámetros de conexión del protocolo por defecto (el auth va en el
+  // paquete 'connect')
+  private appendConnectionParams(queryParams: URLSearchParams): void {
+    // Agregar socket ID
+    queryParams.append('socketId', this.socketId);
+
+    // Anunciar el paquete 'connect' para que el servidor lo espere
+    if (this.sendsConnectPacket()) {
+      queryParams.append('connectPacket', '1');
+    }
+
+    // Presentar la sesión anterior para recuperar el estado
+    if (this.sessionPid) {
+      queryParams.append('pid', this.sessionPid);
+    }
+
+    // Agregar parámetros de configuración
+    if (this.options.forceNew) {
+      queryParams.append('forceNew', 'true');
+    }
+
+    if (this.options.multiplex !== undefined) {
+      queryParams.append('multiplex', this.options.multiplex.toString());
+    }
+  }
+
+  // Modo socket.io: el path de la URL es el namespace y la conexión se hace
+  // al path de Engine.IO (options.path)
+  private buildSocketIOUrl(): string {
+    const parsed = new URL(this.url.replace(/^http/, 'ws'));
+    this.nsp = parsed.pathname || '/';
+    parsed.pathname = this.options.path ?? DEFAULT_SOCKET_IO_PATH;
+    return parsed.toString();
+  }
+
   private setupEventListeners(): void {
     if (!this.ws) return;
 
     this.ws.onopen = () => {
-      this.clearTimers();
-      this.isConnected = true;
-      
-      // Emitir evento de reconexión exitosa si era un intento de reconexión
-      if (this.isReconnecting && this.reconnectAttempts > 0) {
-        this.emit('reconnect', this.reconnectAttempts);
+      // En modo socket.io se espera al handshake (open + CONNECT)
+      if (this.codec) return;
+      // Sin auth la conexión está lista al abrirse, como en versiones
+      // anteriores; 'user-registered' trae después la sesión
+      if (!this.sendsConnectPacket()) {
+        this.recovered = false;
+        this.handleConnect();
+        return;
       }
-      
-      this.reconnectAttempts = 0;
-      this.isReconnecting = false;
-      this.emit('connect');
+      // Primer paquete: 'connect' con el auth (nunca viaja en la URL). La
+      // conexión se confirma con 'user-registered'
+      const ws = this.ws;
+      this.resolveAuth(auth => {
+        if (this.ws !== ws) return;
+        this.sendPacket({ event: 'connect', payload: [auth] });
+      });
     };
 
     this.ws.onmessage = event => {
       try {
-        const data = JSON.parse(event.data);
-        console.log('[WS-ADAPTER] Mensaje recibido:', data);
-
-        // Manejar respuestas de callbacks
-        if (
-          data.event === 'callback-response' &&
-          data.callbackId &&
-          this.pendingCallbacks.has(data.callbackId)
-        ) {
-          console.log(
-            '[WS-ADAPTER] Procesando callback response:',
-            data.callbackId,
-            data.payload
-          );
-          const callbackInfo = this.pendingCallbacks.get(data.callbackId)!;
-          this.pendingCallbacks.delete(data.callbackId);
-          
-          // Limpiar timeout
-          clearTimeout(callbackInfo.timeoutId);
-          
-          try {
-            // Manejar errores del servidor en la respuesta
-            if (data.error) {
-              const serverError = new Error(data.error.message || 'Server callback error');
-              (serverError as any).code = data.error.code || 'SERVER_CALLBACK_ERROR';
-              (serverError as any).type = 'CallbackError';
-              (serverError as any).callbackId = data.callbackId;
-              (serverError as any).originalError = data.error;
-              callbackInfo.callback(serverError);
-            } else {
-              // El servidor envía la respuesta en data.payload
-              callbackInfo.callback(...(data.payload || []));
-            }
-          } catch (error) {
-            console.error('Error ejecutando callback:', error);
-            
-            // Crear error mejorado para callback execution
-            const callbackError = new Error('Callback execution failed');
-            (callbackError as any).code = 'CALLBACK_EXECUTION_ERROR';
-            (callbackError as any).type = 'CallbackError';
-            (callbackError as any).callbackId = data.callbackId;
-            (callbackError as any).originalError = error;
-            (callbackError as any).event = callbackInfo.event;
-            
-            this.emit('error', callbackError);
+        if (this.codec) {
+          const message = this.codec.decode(event.data);
+          if (message) {
+            this.handleProtocolMessage(message);
           }
           return;
         }
-
-        // Emitir evento normal
-        if (data.event && data.event !== 'callback-response') {
-          console.log(
-            '[WS-ADAPTER] Emitiendo evento:',
-            data.event,
-            data.payload
-          );
-          this.emit(data.event, ...(data.payload || []));
+        const data = this.decoder.add(event.data);
+        if (data) {
+          this.handlePacket(data);
         }
       } catch (error) {
         console.error('[WS-ADAPTER] Error parsing WebSocket message:', error);
@@ -273,7 +467,7 @@ export class SocketIOLikeClient {
       this.isConnected = false;
       
       // Determine disconnect reason based on close code
-      let reason = event.reason || this.getDisconnectReason(event.code);
+      const reason = event.reason || getDisconnectReason(event.code);
       const wasClean = event.wasClean;
       
       console.log(`[WS-ADAPTER] Connection closed: ${reason} (code: ${event.code}, clean: ${wasClean})`);
@@ -290,7 +484,7 @@ export class SocketIOLikeClient {
       this.emit('disconnect', reason, disconnectDetails);
 
       // Solo intentar reconexión si no fue una desconexión manual y el código indica un error
-      if (!this.manualDisconnect && this.shouldReconnectOnClose(event.code)) {
+      if (!this.manualDisconnect && shouldReconnectOnClose(event.code)) {
         this.scheduleReconnection();
       }
     };
@@ -310,50 +504,293 @@ export class SocketIOLikeClient {
     };
   }
 
-  private getDisconnectReason(code: number): string {
-    switch (code) {
-      case 1000:
-        return 'Normal closure';
-      case 1001:
-        return 'Going away';
-      case 1002:
-        return 'Protocol error';
-      case 1003:
-        return 'Unsupported data';
-      case 1005:
-        return 'No status received';
-      case 1006:
-        return 'Abnormal closure';
-      case 1007:
-        return 'Invalid frame payload data';
-      case 1008:
-        return 'Policy violation';
-      case 1009:
-        return 'Message too big';
-      case 1010:
-        return 'Mandatory extension';
-      case 1011:
-        return 'Internal server error';
-      case 1015:
-        return 'TLS handshake failure';
+  // Conexión aceptada por el servidor ('user-registered' o CONNECT en modo
+  // socket.io)
+  private handleConnect(): void {
+    this.clearTimers();
+    this.isConnected = true;
+
+    // Emitir evento de reconexión exitosa si era un intento de reconexión
+    if (this.isReconnecting && this.reconnectAttempts > 0) {
+      this.emit('reconnect', this.reconnectAttempts);
+    }
+
+    this.reconnectAttempts = 0;
+    this.isReconnecting = false;
+    this.emit('connect');
+    this.flushSendBuffer();
+    this.probeUpgrade();
+  }
+
+  // Upgrade de polling a WebSocket: sondeo ('2probe' / '3probe'), pausa del
+  // polling y confirmación ('5'). Si algo falla se sigue con polling.
+  private probeUpgrade(): void {
+    const polling = this.ws as unknown;
+    if (
+      !(polling instanceof PollingTransport) ||
+      !polling.sid ||
+      this.options.upgrade === false ||
+      !(this.options.transports || DEFAULT_TRANSPORTS).includes('websocket') ||
+      !polling.upgrades.includes('websocket')
+    ) {
+      return;
+    }
+
+    const probeUrl = new URL(this.transportUrl.replace(/^http/, 'ws'));
+    probeUrl.searchParams.set('transport', 'websocket');
+    probeUrl.searchParams.set('sid', polling.sid);
+    const probe = new WebSocket(probeUrl.toString());
+    probe.binaryType = 'arraybuffer';
+    let done = false;
+
+    const fail = (reason: string) => {
+      if (done) return;
+      done = true;
+      this.logger.debug(
+        'upgrade_failed',
+        `Upgrade to websocket failed: ${reason}`
+      );
+      probe.onopen = probe.onmessage = probe.onclose = probe.onerror = null;
+      probe.close();
+      polling.resume();
+    };
+
+    probe.onopen = () => probe.send('2probe');
+    probe.onmessage = event => {
+      if (event.data !== '3probe') {
+        fail('invalid probe response');
+        return;
+      }
+      polling.pause(() => {
+        if (done) return;
+        if (this.ws !== (polling as unknown)) {
+          fail('transport closed');
+          return;
+        }
+        done = true;
+        probe.send('5');
+        const pending = polling.discard();
+        this.ws = probe;
+        this.setupEventListeners();
+        pending.forEach(frame => probe.send(frame));
+        this.priorWebsocketSuccess = true;
+        this.logger.debug('upgrade', 'Transport upgraded to websocket');
+        this.emitLocal('upgrade', 'websocket');
+      });
+    };
+    probe.onerror = () => fail('probe error');
+    probe.onclose = () => fail('probe closed');
+  }
+
+  // Modo socket.io: procesar un paquete de Engine.IO / Socket.IO
+  private handleProtocolMessage(message: ProtocolMessage): void {
+    if (!this.ws || !this.codec) return;
+
+    switch (message.type) {
+      case 'open': {
+        // Handshake de Engine.IO: conectar al namespace enviando auth y pid
+        const ws = this.ws;
+        this.resolveAuth(auth => {
+          if (this.ws !== ws || !this.codec) return;
+          const data: Record<string, any> = { ...auth };
+          if (this.sessionPid) {
+            data.pid = this.sessionPid;
+          }
+          ws.send(this.codec.encodeConnect(this.nsp, data));
+        });
+        break;
+      }
+      case 'ping':
+        this.ws.send(this.codec.encodePong());
+        break;
+      case 'close':
+        this.ws.close(1000, 'Transport close');
+        break;
+      case 'connect': {
+        if (message.nsp !== this.nsp) return;
+        const data = message.data || {};
+        const pid = typeof data.pid === 'string' ? data.pid : null;
+        this.recovered = pid !== null && pid === this.sessionPid;
+        this.sessionPid = pid;
+        if (typeof data.sid === 'string') {
+          this.socketId = data.sid;
+        }
+        this.handleConnect();
+        break;
+      }
+      case 'connect_error': {
+        if (message.nsp !== this.nsp) return;
+        this.handleConnectRejection(message.data);
+        if (this.manager) {
+          this.detachFromManager();
+        } else {
+          this.ws.close(1000, 'Connection rejected');
+        }
+        break;
+      }
+      case 'disconnect':
+        if (message.nsp !== this.nsp) return;
+        // Desconexión iniciada por el servidor: sin reconexión
+        this.manualDisconnect = true;
+        if (this.manager) {
+          this.detachFromManager('io server disconnect');
+        } else {
+          this.ws.close(1000, 'io server disconnect');
+        }
+        break;
+      case 'packet':
+        if (message.nsp === this.nsp) {
+          this.handlePacket(message.packet);
+        }
+        break;
       default:
-        return `Connection closed (code: ${code})`;
+        break;
     }
   }
 
-  private shouldReconnectOnClose(code: number): boolean {
-    // Don't reconnect on normal closure or client-initiated closures
-    if (code === 1000 || code === 1001) {
-      return false;
+  // Protocolo por defecto: solo con auth se envía el paquete 'connect'
+  private sendsConnectPacket(): boolean {
+    return this.options.auth !== undefined;
+  }
+
+  // Auth de la conexión: objeto de las opciones o resultado del callback
+  private resolveAuth(callback: (auth: Record<string, any>) => void): void {
+    const auth = this.options.auth;
+    const done = (data: any) => {
+      this.connectAuth = { ...(data || {}) };
+      callback(this.connectAuth);
+    };
+    if (typeof auth !== 'function') {
+      done(auth);
+      return;
     }
-    
-    // Don't reconnect on protocol errors or policy violations
-    if (code === 1002 || code === 1003 || code === 1007 || code === 1008) {
-      return false;
+    try {
+      auth(done);
+    } catch (error) {
+      console.error('[WS-ADAPTER] Error in auth callback:', error);
+      const authError = new Error('Auth callback failed');
+      (authError as any).code = 'AUTH_ERROR';
+      (authError as any).type = 'AuthenticationError';
+      (authError as any).originalError = error;
+      this.ws?.close(1000, 'Auth callback failed');
+      this.handleConnectionError(authError);
+    }
+  }
+
+  // Rechazo del servidor al conectar (CONNECT_ERROR o paquete
+  // 'connect_error'). Un namespace desconocido es un error del servidor; el
+  // resto viene de los middlewares y se entrega como AuthError.
+  private handleConnectRejection(data: any): void {
+    const message =
+      typeof data === 'string' ? data : data?.message || 'Connection rejected';
+    const connectError = new Error(message);
+    if (message === 'Invalid namespace') {
+      (connectError as any).code = 'CONNECT_ERROR';
+      (connectError as any).type = 'ServerError';
+    } else {
+      const reason = data?.data?.reason;
+      (connectError as any).code = 'AUTH_ERROR';
+      (connectError as any).type = 'AuthenticationError';
+      (connectError as any).description = message;
+      (connectError as any).context = {
+        socketId: this.socketId,
+        namespace: this.nsp,
+        auth: this.connectAuth,
+        reason: AUTH_ERROR_REASONS.includes(reason)
+          ? reason
+          : 'invalid_credentials',
+      };
+    }
+    (connectError as any).data = data?.data;
+    (connectError as any).timestamp = Date.now();
+    // Igual que en Socket.IO, un rechazo del servidor no se reintenta
+    this.manualDisconnect = true;
+    this.clearTimers();
+    this.emit('connect_error', connectError);
+  }
+
+  // Procesar un paquete ya decodificado (con sus attachments binarios)
+  private handlePacket(data: any): void {
+    console.log('[WS-ADAPTER] Mensaje recibido:', data);
+
+    // Manejar respuestas de callbacks
+    if (
+      data.event === 'callback-response' &&
+      data.callbackId &&
+      this.pendingCallbacks.has(data.callbackId)
+    ) {
+      console.log(
+        '[WS-ADAPTER] Procesando callback response:',
+        data.callbackId,
+        data.payload
+      );
+      const callbackInfo = this.pendingCallbacks.get(data.callbackId)!;
+      this.pendingCallbacks.delete(data.callbackId);
+      
+      // Limpiar timeout
+      clearTimeout(callbackInfo.timeoutId);
+      
+      try {
+        // Manejar errores del servidor en la respuesta
+        if (data.error) {
+          const serverError = new Error(data.error.message || 'Server callback error');
+          (serverError as any).code = data.error.code || 'SERVER_CALLBACK_ERROR';
+          // El servidor puede indicar el tipo (p. ej. ValidationError) y su contexto
+          (serverError as any).type = data.error.type || 'CallbackError';
+          (serverError as any).callbackId = data.callbackId;
+          (serverError as any).originalError = data.error;
+          if (data.error.data !== undefined) {
+            (serverError as any).data = data.error.data;
+          }
+          if (data.error.context) {
+            (serverError as any).context = data.error.context;
+          }
+          callbackInfo.callback(serverError);
+        } else {
+          // El servidor envía la respuesta en data.payload
+          callbackInfo.callback(...(data.payload || []));
+        }
+      } catch (error) {
+        console.error('Error ejecutando callback:', error);
+        
+        // Crear error mejorado para callback execution
+        const callbackError = new Error('Callback execution failed');
+        (callbackError as any).code = 'CALLBACK_EXECUTION_ERROR';
+        (callbackError as any).type = 'CallbackError';
+        (callbackError as any).callbackId = data.callbackId;
+        (callbackError as any).originalError = error;
+        (callbackError as any).event = callbackInfo.event;
+        
+        this.emit('error', callbackError);
+      }
+      return;
+    }
+
+    // Emitir evento normal
+    if (data.event && data.event !== 'callback-response') {
+      console.log(
+        '[WS-ADAPTER] Emitiendo evento:',
+        data.event,
+        data.payload
+      );
+      const payload = data.payload || [];
+      if (data.event === 'user-registered') {
+        this.handleRegistration(payload[0]);
+        if (!this.isConnected) {
+          this.handleConnect();
+        }
+      }
+      // Rechazo de los middlewares del servidor (protocolo por defecto)
+      if (data.event === 'connect_error') {
+        this.handleConnectRejection(payload[0]);
+        return;
+      }
+      // El servidor espera un acknowledgement para este evento
+      if (data.callbackId) {
+        payload.push(this.createAckResponder(data.callbackId));
+      }
+      this.emitLocal(data.event, ...payload);
     }
-    
-    // Reconnect on abnormal closures, server errors, etc.
-    return true;
   }
 
   public on(event: string, callback: EventCallback): this {
@@ -418,7 +855,267 @@ export class SocketIOLikeClient {
     return this;
   }
 
+  // Historial de una sala en la que está el socket (salas con
+  // config.messageHistory): las `limit` últimas entradas y/o las posteriores a `since`
+  public getHistory(
+    room: string,
+    query: { limit?: number; since?: number } = {}
+  ): Promise<
+    Array<{ event: string; args: any[]; sender?: string; timestamp: number }>
+  > {
+    return new Promise((resolve, reject) => {
+      this.emit('get-history', room, query, (response: any) => {
+        if (Array.isArray(response)) {
+          resolve(response);
+          return;
+        }
+        if (response instanceof Error) {
+          reject(response);
+          return;
+        }
+        // En modo socket.io el error llega como objeto en el ack
+        const error = new Error(response?.message || 'History request failed');
+        (error as any).code = response?.code || 'SERVER_CALLBACK_ERROR';
+        (error as any).type = response?.type || 'CallbackError';
+        (error as any).data = response?.data;
+        reject(error);
+      });
+    });
+  }
+
   public emit(event: string, ...args: any[]): boolean {
+    this.emitLocal(event, ...args);
+
+    if (this.isInternalEvent(event)) {
+      return true;
+    }
+
+    // Sin conexión (conectando o reconectando): guardar en el buffer de envío
+    if (!this.isConnected || !this.ws) {
+      if (!this.manualDisconnect) {
+        return this.bufferPacket(this.createPacket(event, args));
+      }
+      return true;
+    }
+
+    // Verificar que el WebSocket esté en estado OPEN antes de enviar
+    if (this.ws.readyState !== WebSocket.OPEN) {
+      console.warn(`[WS-ADAPTER] Cannot send message '${event}': WebSocket is not in OPEN state (readyState: ${this.ws.readyState})`);
+      
+      // Si el WebSocket está cerrado, actualizar el estado interno
+      if (this.ws.readyState === WebSocket.CLOSED || this.ws.readyState === WebSocket.CLOSING) {
+        this.isConnected = false;
+        
+        // Emitir evento de desconexión si no se ha emitido ya
+        if (this.ws.readyState === WebSocket.CLOSED) {
+          this.emit('disconnect', 'transport close', {
+            wasClean: false,
+            code: 1006,
+            reason: 'WebSocket closed unexpectedly',
+            timestamp: Date.now(),
+            attempt: this.reconnectAttempts
+          });
+        }
+      }
+      
+      return false;
+    }
+    
+    try {
+      const message = this.createPacket(event, args);
+
+      if (message.callbackId) {
+        console.log(
+          '[WS-ADAPTER] Enviando mensaje con callback:',
+          event,
+          message.callbackId,
+          message.payload
+        );
+      } else {
+        console.log(
+          '[WS-ADAPTER] Enviando mensaje sin callback:',
+          event,
+          args
+        );
+      }
+
+      this.sendPacket(message);
+      return true;
+    } catch (error) {
+      console.error('Error al enviar mensaje:', error);
+      
+      // Si el error es DOMException, probablemente el WebSocket está cerrado
+      if (error instanceof DOMException) {
+        console.warn('[WS-ADAPTER] DOMException caught - WebSocket may be closed, updating connection state');
+        this.isConnected = false;
+        
+        // Emitir evento de error de conexión
+        const connectionError = new Error('WebSocket connection lost during send operation');
+        (connectionError as any).code = 'WEBSOCKET_SEND_ERROR';
+        (connectionError as any).type = 'TransportError';
+        (connectionError as any).originalError = error;
+        (connectionError as any).readyState = this.ws?.readyState;
+        
+        this.emit('error', connectionError);
+      }
+      
+      return false;
+    }
+  }
+
+  // Construir el paquete a enviar, registrando el callback si lo hay
+  private createPacket(event: string, args: any[]): OutgoingPacket {
+    const message: OutgoingPacket = {
+      event,
+      payload: args,
+    };
+
+    // Agregar información de compresión si está habilitada
+    if (this.compressionEnabled) {
+      message.compress = true;
+    }
+
+    // Manejar callbacks con timeout
+    const lastArg = args[args.length - 1];
+    if (typeof lastArg === 'function') {
+      const callbackId = `${CLIENT_ACK_PREFIX}${++this.callbackCounter}`;
+      const timeout = this.currentTimeout || this.options.timeout || 20000;
+      
+      // Configurar timeout para el callback con manejo mejorado
+      const timeoutId = setTimeout(() => {
+        this.handleCallbackTimeout(callbackId, timeout);
+      }, timeout);
+
+      // Almacenar información del callback con metadatos adicionales
+      this.pendingCallbacks.set(callbackId, {
+        callback: lastArg,
+        timeoutId,
+        timestamp: Date.now(),
+        event,
+        timeout,
+        retries: 0
+      });
+      
+      message.payload = args.slice(0, -1);
+      message.callbackId = callbackId;
+      
+      // Reset timeout después de usar
+      this.currentTimeout = null;
+    }
+
+    return message;
+  }
+
+  // Guardar un paquete hasta que haya conexión, aplicando la política de descarte
+  private bufferPacket(packet: OutgoingPacket): boolean {
+    const maxSize = this.options.sendBufferMaxSize ?? DEFAULT_SEND_BUFFER_MAX_SIZE;
+
+    if (this.sendBufferQueue.length >= maxSize) {
+      if (this.options.sendBufferDropPolicy === 'drop-newest' || maxSize <= 0) {
+        this.dropBufferedPacket(packet, 'SEND_BUFFER_OVERFLOW', 'Send buffer full, packet dropped');
+        return false;
+      }
+      this.dropBufferedPacket(
+        this.sendBufferQueue.shift()!.packet,
+        'SEND_BUFFER_OVERFLOW',
+        'Send buffer full, packet dropped'
+      );
+    }
+
+    this.sendBufferQueue.push({ packet, timestamp: Date.now() });
+    this.logger.debug(
+      'packet_buffered',
+      `Packet '${packet.event}' buffered until connected`,
+      { size: this.sendBufferQueue.length, maxSize }
+    );
+    return true;
+  }
+
+  // Descartar un paquete del buffer avisando a su callback
+  private dropBufferedPacket(packet: OutgoingPacket, code: string, reason: string): void {
+    this.logger.debug('packet_dropped', `${reason}: '${packet.event}'`, {
+      code,
+    });
+
+    if (!packet.callbackId || !this.pendingCallbacks.has(packet.callbackId)) {
+      return;
+    }
+
+    const callbackInfo = this.pendingCallbacks.get(packet.callbackId)!;
+    this.pendingCallbacks.delete(packet.callbackId);
+    clearTimeout(callbackInfo.timeoutId);
+
+    try {
+      const dropError = new Error(reason);
+      (dropError as any).code = code;
+      (dropError as any).type = 'CallbackError';
+      (dropError as any).callbackId = packet.callbackId;
+      (dropError as any).event = packet.event;
+      (dropError as any).timestamp = Date.now();
+
+      callbackInfo.callback(dropError);
+    } catch (error) {
+      this.logger.error(
+        'dropped_packet_callback_error',
+        `Error in dropped packet callback (${packet.callbackId})`,
+        error
+      );
+    }
+  }
+
+  // Enviar en orden los paquetes guardados mientras no había conexión
+  private flushSendBuffer(): void {
+    const buffered = this.sendBufferQueue.splice(0);
+    if (buffered.length === 0 || !this.ws) return;
+
+    this.logger.debug(
+      'send_buffer_flush',
+      `Sending ${buffered.length} buffered packets`
+    );
+    buffered.forEach(({ packet }) => {
+      // El callback expiró mientras el paquete esperaba en el buffer
+      if (packet.callbackId && !this.pendingCallbacks.has(packet.callbackId)) {
+        return;
+      }
+      this.sendPacket(packet);
+    });
+  }
+
+  // Codificar un paquete con el parser configurado y enviar sus frames
+  private sendPacket(packet: Packet): void {
+    if (!this.ws) return;
+    const frames = this.codec
+      ? this.codec.encodePacket(this.nsp, packet)
+      : this.parser.encode(packet);
+    frames.forEach(frame => this.ws!.send(frame));
+  }
+
+  // Paquetes pendientes de envío (solo lectura)
+  public get sendBuffer(): Array<{
+    event: string;
+    payload: any[];
+    callbackId?: string;
+    timestamp: number;
+  }> {
+    return this.sendBufferQueue.map(({ packet, timestamp }) => ({
+      event: packet.event,
+      payload: packet.payload,
+      callbackId: packet.callbackId,
+      timestamp,
+    }));
+  }
+
+  // Vaciar el buffer de envío; devuelve el número de paquetes descartados
+  public clearSendBuffer(): number {
+    const buffered = this.sendBufferQueue.splice(0);
+    buffered.forEach(({ packet }) => {
+      this.dropBufferedPacket(packet, 'SEND_BUFFER_CLEARED', 'Send buffer cleared');
+    });
+    return buffered.length;
+  }
+
+  // Ejecutar solo los listeners locales, sin enviar nada al servidor
+  private emitLocal(event: string, ...args: any[]): void {
     // Si es un evento local, ejecutar callbacks específicos
     if (this.eventCallbacks[event]) {
       this.eventCallbacks[event].forEach(callback => {
@@ -440,109 +1137,33 @@ export class SocketIOLikeClient {
         }
       });
     }
+  }
 
-    // Si está conectado y no es un evento interno, enviar al servidor
-    if (this.isConnected && this.ws && !this.isInternalEvent(event)) {
-      // Verificar que el WebSocket esté en estado OPEN antes de enviar
-      if (this.ws.readyState !== WebSocket.OPEN) {
-        console.warn(`[WS-ADAPTER] Cannot send message '${event}': WebSocket is not in OPEN state (readyState: ${this.ws.readyState})`);
-        
-        // Si el WebSocket está cerrado, actualizar el estado interno
-        if (this.ws.readyState === WebSocket.CLOSED || this.ws.readyState === WebSocket.CLOSING) {
-          this.isConnected = false;
-          
-          // Emitir evento de desconexión si no se ha emitido ya
-          if (this.ws.readyState === WebSocket.CLOSED) {
-            this.emit('disconnect', 'transport close', {
-              wasClean: false,
-              code: 1006,
-              reason: 'WebSocket closed unexpectedly',
-              timestamp: Date.now(),
-              attempt: this.reconnectAttempts
-            });
-          }
-        }
-        
-        return false;
-      }
-      
-      try {
-        const message: any = {
-          event,
-          payload: args,
-        };
+  // Guardar la sesión asignada por el servidor para poder recuperarla al reconectar
+  private handleRegistration(info: any): void {
+    if (!info || typeof info !== 'object') return;
+    this.sessionPid = typeof info.pid === 'string' ? info.pid : null;
+    this.recovered = info.recovered === true;
+  }
 
-        // Agregar información de compresión si está habilitada
-        if (this.compressionEnabled) {
-          message.compress = true;
-        }
+  // Crear la función de acknowledgement para un evento enviado por el servidor
+  private createAckResponder(callbackId: string): EventCallback {
+    let responded = false;
+    return (...args: any[]) => {
+      if (responded) return;
+      responded = true;
 
-        // Manejar callbacks con timeout
-        const lastArg = args[args.length - 1];
-        if (typeof lastArg === 'function') {
-          const callbackId = `cb_${++this.callbackCounter}`;
-          const timeout = this.currentTimeout || this.options.timeout || 20000;
-          
-          console.log(
-            '[WS-ADAPTER] Enviando mensaje con callback:',
-            event,
-            callbackId,
-            args.slice(0, -1)
-          );
-          
-          // Configurar timeout para el callback con manejo mejorado
-          const timeoutId = setTimeout(() => {
-            this.handleCallbackTimeout(callbackId, timeout);
-          }, timeout);
-
-          // Almacenar información del callback con metadatos adicionales
-          this.pendingCallbacks.set(callbackId, {
-            callback: lastArg,
-            timeoutId,
-            timestamp: Date.now(),
-            event,
-            timeout,
-            retries: 0
-          });
-          
-          message.payload = args.slice(0, -1);
-          message.callbackId = callbackId;
-          
-          // Reset timeout después de usar
-          this.currentTimeout = null;
-        } else {
-          console.log(
-            '[WS-ADAPTER] Enviando mensaje sin callback:',
-            event,
-            args
-          );
-        }
-
-        this.ws.send(JSON.stringify(message));
-        return true;
-      } catch (error) {
-        console.error('Error al enviar mensaje:', error);
-        
-        // Si el error es DOMException, probablemente el WebSocket está cerrado
-        if (error instanceof DOMException) {
-          console.warn('[WS-ADAPTER] DOMException caught - WebSocket may be closed, updating connection state');
-          this.isConnected = false;
-          
-          // Emitir evento de error de conexión
-          const connectionError = new Error('WebSocket connection lost during send operation');
-          (connectionError as any).code = 'WEBSOCKET_SEND_ERROR';
-          (connectionError as any).type = 'TransportError';
-          (connectionError as any).originalError = error;
-          (connectionError as any).readyState = this.ws?.readyState;
-          
-          this.emit('error', connectionError);
-        }
-        
-        return false;
+      if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+        console.warn(`[WS-ADAPTER] Cannot send acknowledgement '${callbackId}': WebSocket is not open`);
+        return;
       }
-    }
 
-    return true;
+      this.sendPacket({
+        event: 'callback-response',
+        callbackId,
+        payload: args,
+      });
+    };
   }
 
   private isInternalEvent(event: string): boolean {
@@ -604,7 +1225,12 @@ export class SocketIOLikeClient {
 
   private scheduleReconnection(): void {
     // No reconectar si fue desconexión manual o si la reconexión está deshabilitada
-    if (this.manualDisconnect || this.options.reconnection === false) {
+    // (con Manager la reconexión es de la conexión compartida)
+    if (
+      this.manualDisconnect ||
+      this.options.reconnection === false ||
+      this.manager
+    ) {
       return;
     }
 
@@ -635,28 +1261,12 @@ export class SocketIOLikeClient {
   }
 
   private calculateReconnectionDelay(): number {
-    const baseDelay = this.reconnectDelay;
-    const maxDelay = this.reconnectDelayMax;
-    const randomizationFactor = this.randomizationFactor;
-    
-    // Exponential backoff: delay = baseDelay * (2 ^ attempts)
-    let delay = baseDelay * Math.pow(2, this.reconnectAttempts);
-    
-    // Apply maximum delay limit
-    delay = Math.min(delay, maxDelay);
-    
-    // Add randomization to prevent thundering herd
-    // randomization = delay * randomizationFactor * random(0, 1)
-    const randomization = delay * randomizationFactor * Math.random();
-    
-    // Apply randomization (can be positive or negative)
-    const shouldAdd = Math.random() < 0.5;
-    delay = shouldAdd ? delay + randomization : delay - randomization;
-    
-    // Ensure delay is not negative and has a minimum value
-    delay = Math.max(delay, baseDelay * 0.1);
-    
-    return Math.round(delay);
+    return calculateReconnectionDelay(
+      this.reconnectAttempts,
+      this.reconnectDelay,
+      this.reconnectDelayMax,
+      this.randomizationFactor
+    );
   }
 
   private handleCallbackTimeout(callbackId: string, timeout: number): void {
@@ -845,7 +1455,21 @@ export class SocketIOLikeClient {
     this.manualDisconnect = true;
     this.clearAllTimers();
     
-    if (this.ws) {
+    if (this.manager) {
+      // Solo se cierra este namespace; la conexión sigue para los demás
+      if (this.isConnected && this.ws?.readyState === WebSocket.OPEN) {
+        this.ws.send(this.codec!.encodeDisconnect(this.nsp));
+      }
+      this.detachFromManager('Client disconnect');
+    } else if (this.ws) {
+      // Socket.IO: avisar al servidor antes de cerrar el transporte
+      if (
+        this.codec &&
+        this.isConnected &&
+        this.ws.readyState === WebSocket.OPEN
+      ) {
+        this.ws.send(this.codec.encodeDisconnect(this.nsp));
+      }
       this.ws.close(1000, 'Client disconnect');
       this.ws = null;
     }
@@ -853,6 +1477,10 @@ export class SocketIOLikeClient {
     this.isConnected = false;
     this.isReconnecting = false;
     this.reconnectAttempts = 0;
+    // Una desconexión manual descarta la sesión y el buffer de envío
+    this.sessionPid = null;
+    this.recovered = false;
+    this.sendBufferQueue = [];
     
     // Limpiar callbacks pendientes con error mejorado
     this.cleanupPendingCallbacks('SOCKET_DISCONNECTED', 'Socket disconnected');
@@ -860,6 +1488,59 @@ export class SocketIOLikeClient {
     return this;
   }
 
+  // Dejar la conexión del Manager (desconexión o rechazo del namespace)
+  private detachFromManager(reason?: string): void {
+    const wasConnected = this.isConnected;
+    this.isConnected = false;
+    this.ws = null;
+    this.manager!.detachSocket(this);
+    if (wasConnected && reason) {
+      this.emit('disconnect', reason, {
+        wasClean: true,
+        code: 1000,
+        reason,
+        timestamp: Date.now(),
+        attempt: 0,
+      });
+    }
+  }
+
+  // Llamado por el Manager al abrir la conexión: enviar CONNECT del namespace
+  public handleManagerOpen(ws: WebSocket, data: any): void {
+    this.ws = ws;
+    this.handleProtocolMessage({ type: 'open', data });
+  }
+
+  // Llamado por el Manager con los paquetes de este namespace
+  public handleManagerPacket(message: ProtocolMessage): void {
+    this.handleProtocolMessage(message);
+  }
+
+  // Llamado por el Manager al cerrarse la conexión compartida
+  public handleManagerClose(
+    reason: string,
+    details: Record<string, any>
+  ): void {
+    this.clearTimers();
+    this.ws = null;
+    if (this.isConnected) {
+      this.isConnected = false;
+      this.emit('disconnect', reason, details);
+    }
+  }
+
+  // Llamado por el Manager cuando la conexión falla antes de conectar
+  public handleManagerError(error: any): void {
+    if (!this.isConnected) {
+      this.handleConnectionError(error);
+    }
+  }
+
+  // Manager de la conexión (solo para sockets creados con io() o Manager.socket())
+  public get io(): Manager | undefined {
+    return this.manager;
+  }
+
   public get connected(): boolean {
     return this.isConnected;
   }
@@ -872,6 +1553,13 @@ export class SocketIOLikeClient {
     return this.socketId;
   }
 
+  // Transporte en uso ('polling' hasta que se complete el upgrade)
+  public get transport(): 'polling' | 'websocket' {
+    return (this.ws as unknown) instanceof PollingTransport
+      ? 'polling'
+      : 'websocket';
+  }
+
   // Método público para limpiar callbacks manualmente
   public clearCallbacks(eventFilter?: string): number {
     let clearedCount = 0;
@@ -986,12 +1674,36 @@ export class SocketIOLikeClient {
   }
 }
 
-// Función factory que emula io() de Socket.IO
+// Función factory que emula io() de Socket.IO. En modo socket.io los sockets
+// de un mismo servidor comparten el Manager (una sola conexión) salvo con
+// forceNew, multiplex: false o un namespace ya abierto. El protocolo por
+// defecto abre una conexión por llamada (multiplex no tiene efecto)
 export function io(
   url: string,
-  options?: SocketIOLikeOptions
+  options: SocketIOLikeOptions = {}
 ): SocketIOLikeClient {
-  return new SocketIOLikeClient(url, options);
+  // El protocolo por defecto no lleva el namespace en los paquetes
+  if (options.protocol !== 'socket.io') {
+    return new SocketIOLikeClient(url, options);
+  }
+
+  const parsed = new URL(url.replace(/^http/, 'ws'));
+  const nsp = parsed.pathname || '/';
+  const id = `${parsed.origin}${options.path ?? DEFAULT_SOCKET_IO_PATH}`;
+  const cached = managers.get(id);
+  const newConnection =
+    options.forceNew ||
+    options.multiplex === false ||
+    (cached !== undefined && cached.hasSocket(nsp));
+
+  let manager: Manager;
+  if (newConnection) {
+    manager = new Manager(url, options);
+  } else {
+    manager = cached ?? new Manager(url, options);
+    managers.set(id, manager);
+  }
+  return manager.socket(nsp, options);
 }
 
 // Exportar tipos para compatibilidad
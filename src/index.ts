@@ -1,8 +1,70 @@
 // Main exports for the ws-socketio-adapter library
 export { Emitter } from './Emitter.js';
 export { SocketIOLikeClient } from './client/ws-adapter.js';
+export { Manager } from './client/manager.js';
 export { SocketIOLikeServer, SocketIOLikeSocket, wsio, Namespace } from './server/SocketIOLikeAdapter.js';
 export * from './logger/index.js';
+export {
+  JsonParser,
+  MessagePackParser,
+  defaultParser,
+} from './parser/index.js';
+export type { Parser, PacketDecoder, Packet, Frame } from './parser/index.js';
+export { InMemoryAdapter } from './server/adapter.js';
+export type {
+  Adapter,
+  AdapterFactory,
+  BroadcastOptions,
+  BroadcastPacket,
+  NodeStats,
+  SocketDetails,
+} from './server/adapter.js';
+export {
+  PubSubAdapter,
+  InProcessBus,
+  createPubSubAdapter,
+} from './server/pubsub.js';
+export type { PubSubBus, PubSubAdapterOptions } from './server/pubsub.js';
+export { RemoteSocket } from './server/remote-socket.js';
+export { ParentNamespace } from './server/ParentNamespace.js';
+export type { ParentNamespaceMatcher } from './server/ParentNamespace.js';
+export type { Handshake, TrustProxy } from './server/handshake.js';
+export type { CorsOrigin } from './server/cors.js';
+export { createRateLimiter } from './server/rate-limit.js';
+export type {
+  RateLimitMiddleware,
+  RateLimitOptions,
+  RateLimitRule,
+  RateLimitStrategy,
+} from './server/rate-limit.js';
+export { validatePayload, validateSchema } from './server/validation.js';
+export type {
+  EventSchema,
+  EventValidator,
+  JSONSchema,
+  JSONSchemaType,
+  ValidationIssue,
+} from './server/validation.js';
+export type {
+  JoinOptions,
+  JoinRejectionReason,
+  JoinResult,
+  RoomOptions,
+} from './server/rooms.js';
+export { InMemoryHistoryStore } from './server/history.js';
+export type {
+  HistoryEntry,
+  HistoryQuery,
+  RoomHistoryStore,
+} from './server/history.js';
+export type { RoomStats, ServerStats, SocketStats } from './server/stats.js';
+export {
+  ClusterBus,
+  WorkerThreadsBus,
+  createClusterAdapter,
+  createWorkerThreadsAdapter,
+  setupPrimary,
+} from './server/cluster.js';
 // Re-export subpath entrypoints for convenience
 export * as client from './client.js';
 export * as server from './server.js';
@@ -0,0 +1,149 @@
+// Soporte de datos binarios con el esquema placeholder + attachments de
+// Socket.IO: los binarios del paquete se sustituyen por
+// `{ _placeholder: true, num }` y se envían como frames binarios aparte,
+// justo después del frame JSON (que indica cuántos hay en `attachments`).
+// Sin dependencias de Node para poder usarse también en el cliente.
+
+export type BinaryData = ArrayBuffer | ArrayBufferView | Blob;
+
+interface Placeholder {
+  _placeholder: true;
+  num: number;
+}
+
+export function isBinary(obj: any): obj is BinaryData {
+  return (
+    (typeof ArrayBuffer !== 'undefined' &&
+      (obj instanceof ArrayBuffer || ArrayBuffer.isView(obj))) ||
+    (typeof Blob !== 'undefined' && obj instanceof Blob)
+  );
+}
+
+// Solo se recorren arrays y objetos planos (Date, Map, etc. se dejan tal cual)
+function isPlainObject(obj: any): obj is Record<string, any> {
+  if (obj === null || typeof obj !== 'object') return false;
+  const proto = Object.getPrototypeOf(obj);
+  return proto === Object.prototype || proto === null;
+}
+
+function isPlaceholder(obj: any): obj is Placeholder {
+  return (
+    isPlainObject(obj) &&
+    obj._placeholder === true &&
+    typeof obj.num === 'number'
+  );
+}
+
+// Comprobar si un valor contiene datos binarios a cualquier profundidad
+export function hasBinary(obj: any): boolean {
+  if (isBinary(obj)) return true;
+  if (Array.isArray(obj)) return obj.some(item => hasBinary(item));
+  if (isPlainObject(obj))
+    return Object.keys(obj).some(key => hasBinary(obj[key]));
+  return false;
+}
+
+// Sustituir los binarios por placeholders y devolverlos en orden
+export function deconstructPacket<T>(packet: T): {
+  packet: T;
+  attachments: BinaryData[];
+} {
+  const attachments: BinaryData[] = [];
+
+  const replace = (data: any): any => {
+    if (isBinary(data)) {
+      attachments.push(data);
+      return { _placeholder: true, num: attachments.length - 1 };
+    }
+    if (Array.isArray(data)) {
+      return data.map(item => replace(item));
+    }
+    if (isPlainObject(data)) {
+      const copy: Record<string, any> = {};
+      Object.keys(data).forEach(key => {
+        copy[key] = replace(data[key]);
+      });
+      return copy;
+    }
+    return data;
+  };
+
+  return { packet: replace(packet), attachments };
+}
+
+// Volver a colocar los attachments recibidos en lugar de los placeholders
+export function reconstructPacket<T>(packet: T, attachments: any[]): T {
+  const restore = (data: any): any => {
+    if (isPlaceholder(data)) {
+      if (data.num < 0 || data.num >= attachments.length) {
+        throw new Error(`Invalid attachment placeholder ${data.num}`);
+      }
+      return attachments[data.num];
+    }
+    if (Array.isArray(data)) {
+      return data.map(item => restore(item));
+    }
+    if (isPlainObject(data)) {
+      const copy: Record<string, any> = {};
+      Object.keys(data).forEach(key => {
+        copy[key] = restore(data[key]);
+      });
+      return copy;
+    }
+    return data;
+  };
+
+  return restore(packet);
+}
+
+/**
+ * Acumula los frames binarios que siguen a un paquete con `attachments` y
+ * devuelve el paquete completo cuando han llegado todos.
+ */
+export class BinaryReconstructor {
+  private packet: any = null;
+  private attachments: any[] = [];
+
+  // true si se está esperando algún attachment
+  get pending(): boolean {
+    return this.packet !== null;
+  }
+
+  // Empezar un paquete; devuelve el paquete si no espera attachments
+  start(packet: any): any | null {
+    if (this.packet) {
+      this.reset();
+      throw new Error('Packet received while waiting for binary attachments');
+    }
+    if (!packet.attachments) {
+      return packet;
+    }
+
+    this.packet = packet;
+    this.attachments = [];
+    return null;
+  }
+
+  // Añadir un attachment; devuelve el paquete reconstruido al completarse
+  add(attachment: any): any | null {
+    if (!this.packet) {
+      throw new Error('Unexpected binary frame');
+    }
+
+    this.attachments.push(attachment);
+    if (this.attachments.length < this.packet.attachments) {
+      return null;
+    }
+
+    const packet = { ...this.packet };
+    delete packet.attachments;
+    const result = reconstructPacket(packet, this.attachments);
+    this.reset();
+    return result;
+  }
+
+  reset(): void {
+    this.packet = null;
+    this.attachments = [];
+  }
+}
@@ -0,0 +1,137 @@
+// Parsers: convierten los paquetes `{ event, payload, callbackId, ... }` en
+// frames de WebSocket y viceversa. Se configuran con la opción `parser` del
+// servidor y del cliente; ambos extremos deben usar el mismo.
+
+import {
+  BinaryReconstructor,
+  deconstructPacket,
+  hasBinary,
+  type BinaryData,
+} from './binary.js';
+import { decode, encode } from './msgpack.js';
+
+/**
+ * Packet exchanged between client and server
+ */
+export interface Packet {
+  event?: string;
+  payload?: any[];
+  callbackId?: string;
+  [key: string]: any;
+}
+
+/**
+ * WebSocket frame: text or binary
+ */
+export type Frame = string | BinaryData;
+
+/**
+ * Stateful decoder, one per connection
+ */
+export interface PacketDecoder {
+  /**
+   * Add a received frame. Returns the packet once it is complete, or null
+   * while more frames are expected.
+   */
+  add(frame: Frame): Packet | null;
+
+  /**
+   * Drop any partially received packet
+   */
+  reset(): void;
+}
+
+/**
+ * Packet codec used by SocketIOLikeServer and SocketIOLikeClient
+ */
+export interface Parser {
+  /**
+   * Encode a packet into the frames to send, in order
+   */
+  encode(packet: Packet): Frame[];
+
+  /**
+   * Create a decoder for a new connection
+   */
+  createDecoder(): PacketDecoder;
+}
+
+function assertPacket(packet: any): Packet {
+  if (packet === null || typeof packet !== 'object' || Array.isArray(packet)) {
+    throw new TypeError('Invalid packet');
+  }
+  return packet;
+}
+
+// Decodificador JSON: un frame de texto seguido de sus attachments binarios
+class JsonDecoder implements PacketDecoder {
+  private reconstructor = new BinaryReconstructor();
+
+  add(frame: Frame): Packet | null {
+    if (typeof frame === 'string') {
+      return this.reconstructor.start(assertPacket(JSON.parse(frame)));
+    }
+    return this.reconstructor.add(frame);
+  }
+
+  reset(): void {
+    this.reconstructor.reset();
+  }
+}
+
+/**
+ * Default parser: JSON text frames, with binaries sent as attachment frames
+ */
+export class JsonParser implements Parser {
+  encode(packet: Packet): Frame[] {
+    if (!hasBinary(packet.payload)) {
+      return [JSON.stringify(packet)];
+    }
+
+    const { packet: payload, attachments } = deconstructPacket(packet.payload);
+    return [
+      JSON.stringify({ ...packet, payload, attachments: attachments.length }),
+      ...attachments,
+    ];
+  }
+
+  createDecoder(): PacketDecoder {
+    return new JsonDecoder();
+  }
+}
+
+// Decodificador MessagePack: cada frame binario es un paquete completo
+class MessagePackDecoder implements PacketDecoder {
+  add(frame: Frame): Packet | null {
+    if (typeof frame === 'string') {
+      throw new TypeError('MessagePack parser expects binary frames');
+    }
+    if (typeof Blob !== 'undefined' && frame instanceof Blob) {
+      throw new TypeError('MessagePack parser cannot decode Blob frames');
+    }
+    return assertPacket(decode(frame as ArrayBuffer | ArrayBufferView));
+  }
+
+  reset(): void {
+    // Sin estado entre frames
+  }
+}
+
+/**
+ * MessagePack parser: one binary frame per packet, binaries encoded natively.
+ * Smaller than JSON for numeric and binary payloads.
+ */
+export class MessagePackParser implements Parser {
+  encode(packet: Packet): Frame[] {
+    return [encode(packet)];
+  }
+
+  createDecoder(): PacketDecoder {
+    return new MessagePackDecoder();
+  }
+}
+
+// Parser por defecto compartido
+export const defaultParser: Parser = new JsonParser();
+
+export { encode as encodeMessagePack, decode as decodeMessagePack };
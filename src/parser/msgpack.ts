@@ -0,0 +1,399 @@
+// Codec MessagePack mínimo (https://github.com/msgpack/msgpack/blob/master/spec.md)
+// sin dependencias, válido en Node y en el navegador.
+// - Los binarios (ArrayBuffer, typed arrays, Buffer) usan el tipo bin y se
+//   decodifican como Buffer en Node y Uint8Array en el navegador.
+// - Igual que JSON, las claves con valor undefined se omiten y los objetos con
+//   toJSON() (p. ej. Date) se codifican con su representación JSON.
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+class Writer {
+  private buffer = new Uint8Array(256);
+  private view = new DataView(this.buffer.buffer);
+  private length = 0;
+
+  private ensure(size: number): void {
+    if (this.length + size <= this.buffer.length) return;
+
+    let capacity = this.buffer.length * 2;
+    while (capacity < this.length + size) capacity *= 2;
+    const next = new Uint8Array(capacity);
+    next.set(this.buffer.subarray(0, this.length));
+    this.buffer = next;
+    this.view = new DataView(next.buffer);
+  }
+
+  u8(value: number): void {
+    this.ensure(1);
+    this.view.setUint8(this.length, value);
+    this.length += 1;
+  }
+
+  u16(value: number): void {
+    this.ensure(2);
+    this.view.setUint16(this.length, value);
+    this.length += 2;
+  }
+
+  u32(value: number): void {
+    this.ensure(4);
+    this.view.setUint32(this.length, value);
+    this.length += 4;
+  }
+
+  i8(value: number): void {
+    this.ensure(1);
+    this.view.setInt8(this.length, value);
+    this.length += 1;
+  }
+
+  i16(value: number): void {
+    this.ensure(2);
+    this.view.setInt16(this.length, value);
+    this.length += 2;
+  }
+
+  i32(value: number): void {
+    this.ensure(4);
+    this.view.setInt32(this.length, value);
+    this.length += 4;
+  }
+
+  f64(value: number): void {
+    this.ensure(8);
+    this.view.setFloat64(this.length, value);
+    this.length += 8;
+  }
+
+  bytes(value: Uint8Array): void {
+    this.ensure(value.length);
+    this.buffer.set(value, this.length);
+    this.length += value.length;
+  }
+
+  result(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+function toBytes(value: ArrayBuffer | ArrayBufferView): Uint8Array {
+  if (value instanceof ArrayBuffer) return new Uint8Array(value);
+  return new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+}
+
+function writeNumber(writer: Writer, value: number): void {
+  if (!Number.isInteger(value) || value > 0xffffffff || value < -0x80000000) {
+    writer.u8(0xcb);
+    writer.f64(value);
+  } else if (value >= 0) {
+    if (value < 0x80) {
+      writer.u8(value);
+    } else if (value <= 0xff) {
+      writer.u8(0xcc);
+      writer.u8(value);
+    } else if (value <= 0xffff) {
+      writer.u8(0xcd);
+      writer.u16(value);
+    } else {
+      writer.u8(0xce);
+      writer.u32(value);
+    }
+  } else if (value >= -0x20) {
+    writer.i8(value);
+  } else if (value >= -0x80) {
+    writer.u8(0xd0);
+    writer.i8(value);
+  } else if (value >= -0x8000) {
+    writer.u8(0xd1);
+    writer.i16(value);
+  } else {
+    writer.u8(0xd2);
+    writer.i32(value);
+  }
+}
+
+function writeString(writer: Writer, value: string): void {
+  const bytes = textEncoder.encode(value);
+  const length = bytes.length;
+  if (length < 0x20) {
+    writer.u8(0xa0 | length);
+  } else if (length <= 0xff) {
+    writer.u8(0xd9);
+    writer.u8(length);
+  } else if (length <= 0xffff) {
+    writer.u8(0xda);
+    writer.u16(length);
+  } else {
+    writer.u8(0xdb);
+    writer.u32(length);
+  }
+  writer.bytes(bytes);
+}
+
+function writeBinary(writer: Writer, value: Uint8Array): void {
+  const length = value.length;
+  if (length <= 0xff) {
+    writer.u8(0xc4);
+    writer.u8(length);
+  } else if (length <= 0xffff) {
+    writer.u8(0xc5);
+    writer.u16(length);
+  } else {
+    writer.u8(0xc6);
+    writer.u32(length);
+  }
+  writer.bytes(value);
+}
+
+function writeHeader(
+  writer: Writer,
+  length: number,
+  fix: number,
+  type16: number
+): void {
+  if (length < 0x10) {
+    writer.u8(fix | length);
+  } else if (length <= 0xffff) {
+    writer.u8(type16);
+    writer.u16(length);
+  } else {
+    writer.u8(type16 + 1);
+    writer.u32(length);
+  }
+}
+
+function writeValue(writer: Writer, value: any): void {
+  if (value === null || value === undefined) {
+    writer.u8(0xc0);
+  } else if (typeof value === 'boolean') {
+    writer.u8(value ? 0xc3 : 0xc2);
+  } else if (typeof value === 'number') {
+    writeNumber(writer, value);
+  } else if (typeof value === 'string') {
+    writeString(writer, value);
+  } else if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+    writeBinary(writer, toBytes(value));
+  } else if (typeof Blob !== 'undefined' && value instanceof Blob) {
+    throw new TypeError(
+      'Blob cannot be encoded synchronously by the MessagePack parser'
+    );
+  } else if (Array.isArray(value)) {
+    writeHeader(writer, value.length, 0x90, 0xdc);
+    value.forEach(item => writeValue(writer, item));
+  } else if (typeof value === 'object') {
+    if (typeof value.toJSON === 'function') {
+      writeValue(writer, value.toJSON());
+      return;
+    }
+    const keys = Object.keys(value).filter(key => value[key] !== undefined);
+    writeHeader(writer, keys.length, 0x80, 0xde);
+    keys.forEach(key => {
+      writeString(writer, key);
+      writeValue(writer, value[key]);
+    });
+  } else {
+    throw new TypeError(`Cannot encode value of type ${typeof value}`);
+  }
+}
+
+// Codificar un valor en MessagePack
+export function encode(value: any): Uint8Array {
+  const writer = new Writer();
+  writeValue(writer, value);
+  return writer.result();
+}
+
+class Reader {
+  private view: DataView;
+  private offset = 0;
+
+  constructor(private bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  get done(): boolean {
+    return this.offset >= this.bytes.length;
+  }
+
+  private check(size: number): void {
+    if (this.offset + size > this.bytes.length) {
+      throw new RangeError('Unexpected end of MessagePack data');
+    }
+  }
+
+  u8(): number {
+    this.check(1);
+    return this.view.getUint8(this.offset++);
+  }
+
+  u16(): number {
+    this.check(2);
+    const value = this.view.getUint16(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  u32(): number {
+    this.check(4);
+    const value = this.view.getUint32(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  u64(): number {
+    this.check(8);
+    const value = this.view.getBigUint64(this.offset);
+    this.offset += 8;
+    return Number(value);
+  }
+
+  i8(): number {
+    this.check(1);
+    return this.view.getInt8(this.offset++);
+  }
+
+  i16(): number {
+    this.check(2);
+    const value = this.view.getInt16(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  i32(): number {
+    this.check(4);
+    const value = this.view.getInt32(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  i64(): number {
+    this.check(8);
+    const value = this.view.getBigInt64(this.offset);
+    this.offset += 8;
+    return Number(value);
+  }
+
+  f32(): number {
+    this.check(4);
+    const value = this.view.getFloat32(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  f64(): number {
+    this.check(8);
+    const value = this.view.getFloat64(this.offset);
+    this.offset += 8;
+    return value;
+  }
+
+  take(length: number): Uint8Array {
+    this.check(length);
+    const value = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+}
+
+function readString(reader: Reader, length: number): string {
+  return textDecoder.decode(reader.take(length));
+}
+
+function readBinary(reader: Reader, length: number): Uint8Array {
+  // Copia para no retener el frame completo
+  const bytes = reader.take(length).slice();
+  return typeof Buffer !== 'undefined'
+    ? Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+    : bytes;
+}
+
+function readArray(reader: Reader, length: number): any[] {
+  const result = new Array(length);
+  for (let i = 0; i < length; i++) {
+    result[i] = readValue(reader);
+  }
+  return result;
+}
+
+function readMap(reader: Reader, length: number): Record<string, any> {
+  const result: Record<string, any> = {};
+  for (let i = 0; i < length; i++) {
+    const key = readValue(reader);
+    result[String(key)] = readValue(reader);
+  }
+  return result;
+}
+
+function readValue(reader: Reader): any {
+  const type = reader.u8();
+
+  if (type < 0x80) return type;
+  if (type >= 0xe0) return type - 0x100;
+  if ((type & 0xf0) === 0x80) return readMap(reader, type & 0x0f);
+  if ((type & 0xf0) === 0x90) return readArray(reader, type & 0x0f);
+  if ((type & 0xe0) === 0xa0) return readString(reader, type & 0x1f);
+
+  switch (type) {
+    case 0xc0:
+      return null;
+    case 0xc2:
+      return false;
+    case 0xc3:
+      return true;
+    case 0xc4:
+      return readBinary(reader, reader.u8());
+    case 0xc5:
+      return readBinary(reader, reader.u16());
+    case 0xc6:
+      return readBinary(reader, reader.u32());
+    case 0xca:
+      return reader.f32();
+    case 0xcb:
+      return reader.f64();
+    case 0xcc:
+      return reader.u8();
+    case 0xcd:
+      return reader.u16();
+    case 0xce:
+      return reader.u32();
+    case 0xcf:
+      return reader.u64();
+    case 0xd0:
+      return reader.i8();
+    case 0xd1:
+      return reader.i16();
+    case 0xd2:
+      return reader.i32();
+    case 0xd3:
+      return reader.i64();
+    case 0xd9:
+      return readString(reader, reader.u8());
+    case 0xda:
+      return readString(reader, reader.u16());
+    case 0xdb:
+      return readString(reader, reader.u32());
+    case 0xdc:
+      return readArray(reader, reader.u16());
+    case 0xdd:
+      return readArray(reader, reader.u32());
+    case 0xde:
+      return readMap(reader, reader.u16());
+    case 0xdf:
+      return readMap(reader, reader.u32());
+    default:
+      throw new TypeError(
+        `Unsupported MessagePack type 0x${type.toString(16)}`
+      );
+  }
+}
+
+// Decodificar un valor MessagePack
+export function decode(data: ArrayBuffer | ArrayBufferView): any {
+  const reader = new Reader(toBytes(data));
+  const value = readValue(reader);
+  if (!reader.done) {
+    throw new RangeError('Extra bytes after MessagePack value');
+  }
+  return value;
+}
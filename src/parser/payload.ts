@@ -0,0 +1,68 @@
+// Formato de los cuerpos HTTP del transporte long-polling (igual que Engine.IO
+// v4): los frames van separados por el carácter record separator (0x1e) y los
+// frames binarios se envían en base64 con el prefijo "b". Los frames de texto
+// nunca empiezan por "b" (JSON empieza por "{" y Socket.IO por un dígito).
+// Sin dependencias de Node para poder usarse también en el cliente.
+
+import type { EngineOpenData } from './socketio.js';
+
+export const RECORD_SEPARATOR = '\x1e';
+
+// Frame decodificado de un payload: texto o bytes
+export type PayloadFrame = string | Uint8Array;
+
+const CHUNK_SIZE = 0x8000;
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += CHUNK_SIZE) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK_SIZE));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(data: string): Uint8Array {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function toBytes(value: ArrayBuffer | ArrayBufferView): Uint8Array {
+  if (value instanceof ArrayBuffer) return new Uint8Array(value);
+  return new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+}
+
+// Unir varios frames en un único cuerpo HTTP
+export function encodePayload(
+  frames: Array<string | ArrayBuffer | ArrayBufferView>
+): string {
+  return frames
+    .map(frame =>
+      typeof frame === 'string' ? frame : `b${toBase64(toBytes(frame))}`
+    )
+    .join(RECORD_SEPARATOR);
+}
+
+// Separar un cuerpo HTTP en sus frames
+export function decodePayload(payload: string): PayloadFrame[] {
+  if (!payload) return [];
+  return payload
+    .split(RECORD_SEPARATOR)
+    .map(frame =>
+      frame.charAt(0) === 'b' ? fromBase64(frame.substring(1)) : frame
+    );
+}
+
+// Paquete open con el que empieza cada sesión de polling (sid, upgrades...)
+export function encodeOpenPacket(data: EngineOpenData): string {
+  return `0${JSON.stringify(data)}`;
+}
+
+export function decodeOpenPacket(frame: PayloadFrame): EngineOpenData | null {
+  if (typeof frame !== 'string' || frame.charAt(0) !== '0') return null;
+  const data = JSON.parse(frame.substring(1));
+  return data && typeof data.sid === 'string' ? data : null;
+}
@@ -0,0 +1,299 @@
+// Protocolo de Socket.IO v5 sobre Engine.IO v4 (transporte WebSocket), usado
+// con la opción `protocol: 'socket.io'` del servidor y del cliente.
+// https://github.com/socketio/socket.io-protocol
+// https://github.com/socketio/engine.io-protocol
+//
+// Los eventos y acknowledgements se traducen al formato de paquete interno
+// (`{ event, payload, callbackId }`, con `callback-response` para los ACK) para
+// que el resto del código no dependa del protocolo en uso.
+
+import { BinaryReconstructor, deconstructPacket, hasBinary } from './binary.js';
+import type { Frame, Packet } from './index.js';
+import { encodeOpenPacket } from './payload.js';
+
+// Versión de Engine.IO (parámetro EIO de la URL)
+export const ENGINE_IO_PROTOCOL = 4;
+
+// Tipos de paquete de Engine.IO
+const EIO_OPEN = '0';
+const EIO_CLOSE = '1';
+const EIO_PING = '2';
+const EIO_PONG = '3';
+const EIO_MESSAGE = '4';
+const EIO_NOOP = '6';
+
+// Tipos de paquete de Socket.IO
+const SIO_CONNECT = 0;
+const SIO_DISCONNECT = 1;
+const SIO_EVENT = 2;
+const SIO_ACK = 3;
+const SIO_CONNECT_ERROR = 4;
+const SIO_BINARY_EVENT = 5;
+const SIO_BINARY_ACK = 6;
+
+/**
+ * Handshake data sent by the server in the Engine.IO open packet
+ */
+export interface EngineOpenData {
+  sid: string;
+  upgrades: string[];
+  pingInterval: number;
+  pingTimeout: number;
+  maxPayload: number;
+}
+
+/**
+ * Decoded Engine.IO / Socket.IO message
+ */
+export type ProtocolMessage =
+  | { type: 'open'; data: EngineOpenData }
+  | { type: 'close' | 'ping' | 'pong' | 'noop' }
+  | { type: 'connect'; nsp: string; data?: any }
+  | { type: 'connect_error'; nsp: string; data: any }
+  | { type: 'disconnect'; nsp: string }
+  | { type: 'packet'; nsp: string; packet: Packet };
+
+// Paquete Socket.IO ya separado en sus campos
+interface SocketIOPacket {
+  type: number;
+  nsp: string;
+  id?: number;
+  data?: any;
+  attachments?: number;
+}
+
+function nspPrefix(nsp: string): string {
+  return nsp && nsp !== '/' ? `${nsp},` : '';
+}
+
+function encodeSocketIOPacket(packet: SocketIOPacket): string {
+  let str = `${EIO_MESSAGE}${packet.type}`;
+  if (packet.attachments !== undefined) {
+    str += `${packet.attachments}-`;
+  }
+  str += nspPrefix(packet.nsp);
+  if (packet.id !== undefined) {
+    str += packet.id;
+  }
+  if (packet.data !== undefined) {
+    str += JSON.stringify(packet.data);
+  }
+  return str;
+}
+
+function decodeSocketIOPacket(str: string): SocketIOPacket {
+  const type = Number(str.charAt(0));
+  if (!Number.isInteger(type) || type < SIO_CONNECT || type > SIO_BINARY_ACK) {
+    throw new Error(`Unknown Socket.IO packet type ${str.charAt(0)}`);
+  }
+
+  const packet: SocketIOPacket = { type, nsp: '/' };
+  let i = 1;
+
+  if (type === SIO_BINARY_EVENT || type === SIO_BINARY_ACK) {
+    const end = str.indexOf('-', i);
+    const attachments = Number(str.substring(i, end));
+    if (end === -1 || !Number.isInteger(attachments) || attachments < 0) {
+      throw new Error('Invalid attachments count');
+    }
+    packet.attachments = attachments;
+    i = end + 1;
+  }
+
+  if (str.charAt(i) === '/') {
+    const end = str.indexOf(',', i);
+    packet.nsp = end === -1 ? str.substring(i) : str.substring(i, end);
+    i = end === -1 ? str.length : end + 1;
+  }
+
+  let id = '';
+  while (i < str.length && /[0-9]/.test(str.charAt(i))) {
+    id += str.charAt(i++);
+  }
+  if (id) {
+    packet.id = Number(id);
+  }
+
+  if (i < str.length) {
+    packet.data = JSON.parse(str.substring(i));
+  }
+
+  if (!isValidPayload(packet)) {
+    throw new Error('Invalid Socket.IO packet payload');
+  }
+  return packet;
+}
+
+function isValidPayload(packet: SocketIOPacket): boolean {
+  switch (packet.type) {
+    case SIO_CONNECT:
+      return (
+        packet.data === undefined ||
+        (typeof packet.data === 'object' && packet.data !== null)
+      );
+    case SIO_DISCONNECT:
+      return packet.data === undefined;
+    case SIO_CONNECT_ERROR:
+      return typeof packet.data === 'string' || typeof packet.data === 'object';
+    case SIO_EVENT:
+    case SIO_BINARY_EVENT:
+      return (
+        Array.isArray(packet.data) &&
+        packet.data.length > 0 &&
+        typeof packet.data[0] === 'string'
+      );
+    default:
+      return Array.isArray(packet.data) && packet.id !== undefined;
+  }
+}
+
+/**
+ * Stateful Socket.IO codec, one per connection.
+ *
+ * `ackPrefix` is the prefix of the callbackIds generated locally (e.g.
+ * `srv_cb_`): it is stripped on the way out, since Socket.IO ack ids are
+ * integers, and added back to the ACK packets received from the peer.
+ */
+export class SocketIOCodec {
+  private reconstructor = new BinaryReconstructor();
+
+  constructor(private ackPrefix: string) {}
+
+  encodeOpen(data: EngineOpenData): string {
+    return encodeOpenPacket(data);
+  }
+
+  encodePing(): string {
+    return EIO_PING;
+  }
+
+  encodePong(): string {
+    return EIO_PONG;
+  }
+
+  encodeConnect(nsp: string, data?: any): string {
+    return encodeSocketIOPacket({ type: SIO_CONNECT, nsp, data });
+  }
+
+  encodeConnectError(nsp: string, message: string, data?: any): string {
+    return encodeSocketIOPacket({
+      type: SIO_CONNECT_ERROR,
+      nsp,
+      data: data === undefined ? { message } : { message, data },
+    });
+  }
+
+  encodeDisconnect(nsp: string): string {
+    return encodeSocketIOPacket({ type: SIO_DISCONNECT, nsp });
+  }
+
+  // Codificar un evento o una respuesta `callback-response` como EVENT/ACK
+  encodePacket(nsp: string, packet: Packet): Frame[] {
+    const isAck = packet.event === 'callback-response';
+    const data = isAck
+      ? packet.payload || []
+      : [packet.event, ...(packet.payload || [])];
+    const id = packet.callbackId
+      ? this.toWireId(packet.callbackId, isAck)
+      : undefined;
+
+    if (!hasBinary(data)) {
+      return [
+        encodeSocketIOPacket({
+          type: isAck ? SIO_ACK : SIO_EVENT,
+          nsp,
+          id,
+          data,
+        }),
+      ];
+    }
+
+    const { packet: withPlaceholders, attachments } = deconstructPacket(data);
+    return [
+      encodeSocketIOPacket({
+        type: isAck ? SIO_BINARY_ACK : SIO_BINARY_EVENT,
+        nsp,
+        id,
+        data: withPlaceholders,
+        attachments: attachments.length,
+      }),
+      ...attachments,
+    ];
+  }
+
+  // Decodificar un frame; devuelve null si faltan attachments binarios
+  decode(frame: Frame): ProtocolMessage | null {
+    if (typeof frame !== 'string') {
+      const packet = this.reconstructor.add(frame);
+      return packet ? this.toMessage(packet) : null;
+    }
+
+    const type = frame.charAt(0);
+    switch (type) {
+      case EIO_OPEN:
+        return { type: 'open', data: JSON.parse(frame.substring(1)) };
+      case EIO_CLOSE:
+        return { type: 'close' };
+      case EIO_PING:
+        return { type: 'ping' };
+      case EIO_PONG:
+        return { type: 'pong' };
+      case EIO_NOOP:
+        return { type: 'noop' };
+      case EIO_MESSAGE: {
+        const packet = this.reconstructor.start(
+          decodeSocketIOPacket(frame.substring(1))
+        );
+        return packet ? this.toMessage(packet) : null;
+      }
+      default:
+        throw new Error(`Unknown Engine.IO packet type ${type}`);
+    }
+  }
+
+  reset(): void {
+    this.reconstructor.reset();
+  }
+
+  private toWireId(callbackId: string, isAck: boolean): number {
+    // Las respuestas usan el id del otro extremo, tal cual llegó
+    const id =
+      !isAck && callbackId.startsWith(this.ackPrefix)
+        ? callbackId.substring(this.ackPrefix.length)
+        : callbackId;
+    if (!/^[0-9]+$/.test(id)) {
+      throw new Error(`Invalid Socket.IO ack id ${callbackId}`);
+    }
+    return Number(id);
+  }
+
+  private toMessage(packet: SocketIOPacket): ProtocolMessage {
+    const { nsp, data } = packet;
+    switch (packet.type) {
+      case SIO_CONNECT:
+        return { type: 'connect', nsp, data };
+      case SIO_DISCONNECT:
+        return { type: 'disconnect', nsp };
+      case SIO_CONNECT_ERROR:
+        return { type: 'connect_error', nsp, data };
+      case SIO_EVENT:
+      case SIO_BINARY_EVENT: {
+        const message: Packet = { event: data[0], payload: data.slice(1) };
+        if (packet.id !== undefined) {
+          message.callbackId = String(packet.id);
+        }
+        return { type: 'packet', nsp, packet: message };
+      }
+      default:
+        return {
+          type: 'packet',
+          nsp,
+          packet: {
+            event: 'callback-response',
+            callbackId: `${this.ackPrefix}${packet.id}`,
+            payload: data,
+          },
+        };
+    }
+  }
+}
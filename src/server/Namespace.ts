@@ -1,11 +1,34 @@
 import { EventEmitter } from 'events';
 import { Emitter } from '../Emitter.js';
-import { SocketIOLikeSocket } from './SocketIOLikeAdapter.js';
+import type {
+  RoomMetadata,
+  SocketIOLikeServer,
+  SocketIOLikeSocket,
+} from './SocketIOLikeAdapter.js';
 import { defaultLogger } from '../logger/index.js';
+import {
+  DEFAULT_BROADCAST_ACK_TIMEOUT,
+  broadcastToSocketsWithAck,
+  emitWithBroadcastAck,
+  emitWithBroadcastAckAsync,
+  type BroadcastWithAck,
+} from './ack.js';
+import type { BroadcastOptions } from './adapter.js';
+import { toRemoteSockets, type RemoteSocket } from './remote-socket.js';
+import type { EventSchema } from './validation.js';
+import type { HistoryEntry, HistoryQuery } from './history.js';
+import {
+  checkRoomAccess,
+  rejectJoin,
+  type JoinResult,
+  type RoomOptions,
+} from './rooms.js';
+import { createRoomStats, recordRoomJoin, recordRoomLeave } from './stats.js';
 
 // Enhanced interface for broadcast operator with better typing and additional methods
-interface BroadcastOperator {
+export interface BroadcastOperator {
   emit(event: string, ...args: any[]): boolean;
+  emitWithAck(event: string, ...args: any[]): Promise<any[]>;
   to(room: string | string[]): BroadcastOperator;
   in(room: string | string[]): BroadcastOperator;
   except(room: string | string[]): BroadcastOperator;
@@ -18,15 +41,21 @@ interface BroadcastOperator {
   socketsJoin(room: string | string[]): void;
   socketsLeave(room: string | string[]): void;
   disconnectSockets(close?: boolean): void;
-  fetchSockets(): Promise<any[]>;
+  fetchSockets(): Promise<RemoteSocket[]>;
 }
 
 // Namespace class that provides isolated event handling and room management
 export class Namespace extends EventEmitter {
   public readonly name: string;
   public sockets: Map<string, SocketIOLikeSocket> = new Map();
+  // Salas de este namespace: una sala con el mismo nombre en otro namespace
+  // es una sala distinta
   private rooms: Map<string, Set<string>> = new Map();
-  private emitter: Emitter;
+  private roomMetadata: Map<string, RoomMetadata> = new Map();
+  // Salas creadas con createRoom(): se conservan vacías hasta deleteRoom()
+  private createdRooms: Set<string> = new Set();
+  protected emitter: Emitter;
+  protected server?: SocketIOLikeServer;
   private middleware: Array<
     (socket: SocketIOLikeSocket, next: (err?: Error) => void) => void
   > = [];
@@ -40,10 +69,21 @@ export class Namespace extends EventEmitter {
     ) => void
   > = [];
 
-  constructor(name: string) {
+  // Reglas de validación de los eventos entrantes (ver registerSchema)
+  private eventSchemas: Map<string, EventSchema> = new Map();
+
+  // parent: namespace dinámico del que se heredan los middlewares (ver ParentNamespace)
+  constructor(name: string, server?: SocketIOLikeServer, parent?: Namespace) {
     super();
     this.name = name;
+    this.server = server;
     this.emitter = new Emitter();
+    if (parent) {
+      // Se comparten los arrays: los middlewares añadidos después también aplican
+      this.middleware = parent.middleware;
+      this.eventMiddleware = parent.eventMiddleware;
+      this.eventSchemas = parent.eventSchemas;
+    }
     defaultLogger.info('namespace_created', {message:`Namespace created: ${name}`}, {
       namespaceName: name,
     });
@@ -68,6 +108,10 @@ export class Namespace extends EventEmitter {
     // Check if it's event middleware (4 parameters) or connection middleware (2 parameters)
     if (middleware.length === 4) {
       this.eventMiddleware.push(middleware);
+      // Se activa al añadirlo, igual que con io.use()
+      if (this.server) {
+        this.server.useEventMiddleware = true;
+      }
       defaultLogger.info(`Event middleware added to namespace ${this.name}`, {});
     } else {
       this.middleware.push(middleware);
@@ -76,6 +120,22 @@ export class Namespace extends EventEmitter {
     return this;
   }
 
+  // Validar los payloads de un evento en todos los sockets del namespace;
+  // socket.on(event, { schema }, handler) tiene prioridad sobre este registro
+  registerSchema(event: string, rules: EventSchema): this {
+    this.eventSchemas.set(event, rules);
+    return this;
+  }
+
+  removeSchema(event: string): this {
+    this.eventSchemas.delete(event);
+    return this;
+  }
+
+  getSchema(event: string): EventSchema | undefined {
+    return this.eventSchemas.get(event);
+  }
+
   // Execute middleware chain for a socket
   private async executeMiddleware(socket: SocketIOLikeSocket): Promise<void> {
     return new Promise((resolve, reject) => {
@@ -105,7 +165,11 @@ export class Namespace extends EventEmitter {
   }
 
   // Add a socket to this namespace
-  async addSocket(socket: SocketIOLikeSocket): Promise<void> {
+  // (skipMiddleware se usa para las sesiones recuperadas)
+  async addSocket(
+    socket: SocketIOLikeSocket,
+    skipMiddleware: boolean = false
+  ): Promise<void> {
     try {
       // Verificar si ya existe un socket con este ID en el namespace
       if (this.sockets.has(socket.id)) {
@@ -118,7 +182,9 @@ export class Namespace extends EventEmitter {
       }
 
       // Execute middleware chain
-      await this.executeMiddleware(socket);
+      if (!skipMiddleware) {
+        await this.executeMiddleware(socket);
+      }
 
       // Add socket to namespace
       this.sockets.set(socket.id, socket);
@@ -126,9 +192,11 @@ export class Namespace extends EventEmitter {
       // Set namespace reference on socket
       (socket as any).nsp = this;
 
+      // Confirmar la conexión antes de que los handlers empiecen a emitir
+      socket.acceptConnection();
+
       // Emit connection event on namespace
-      this.emitter.emit('connection', socket);
-      super.emit('connection', socket);
+      this.emitReserved('connection', socket);
 
      defaultLogger.info(`Socket ${socket.id} added to namespace ${this.name}`, {});
     } catch (error) {
@@ -137,8 +205,7 @@ export class Namespace extends EventEmitter {
         error
       );
       // Emit connection error
-      this.emitter.emit('connect_error', error, socket);
-      super.emit('connect_error', error, socket);
+      this.emitReserved('connect_error', error, socket);
       throw error;
     }
   }
@@ -161,17 +228,142 @@ export class Namespace extends EventEmitter {
     }
   }
 
-  // Add socket to room within this namespace
-  addToRoom(room: string, socketId: string): void {
+  // Crear una sala con capacidad, privacidad, propietario o auth obligatorio
+  // (sobre una sala existente se aplican las opciones indicadas)
+  createRoom(room: string, options: RoomOptions = {}): RoomMetadata {
+    const { invited, metadata: extra, ...settings } = options;
+    const metadata = this.ensureRoom(room);
+    Object.assign(metadata, settings);
+    if (invited) {
+      metadata.invited = new Set([...(metadata.invited || []), ...invited]);
+    }
+    if (extra) {
+      metadata.metadata = { ...metadata.metadata, ...extra };
+    }
+    this.createdRooms.add(room);
+    defaultLogger.info(`Room ${room} created in namespace ${this.name}`, {});
+    return metadata;
+  }
+
+  // Borrar una sala: sus sockets salen de ella y se descarta su historial
+  deleteRoom(room: string): boolean {
+    if (!this.rooms.has(room)) return false;
+    this.createdRooms.delete(room);
+    this.clearRoomHistory(room).catch(error => {
+      defaultLogger.error(`Error borrando el historial de ${room}:`, error);
+    });
+    this.getRoomSocketIds(room).forEach(socketId => {
+      const socket = this.sockets.get(socketId);
+      if (socket) {
+        socket.leave(room);
+      } else {
+        this.removeFromRoom(room, socketId);
+      }
+    });
+    this.rooms.delete(room);
+    this.roomMetadata.delete(room);
+    return true;
+  }
+
+  // Invitar sockets a una sala privada
+  inviteToRoom(room: string, socketIds: string | string[]): boolean {
+    const metadata = this.roomMetadata.get(room);
+    if (!metadata) return false;
+    metadata.invited = metadata.invited || new Set();
+    (Array.isArray(socketIds) ? socketIds : [socketIds]).forEach(id =>
+      metadata.invited!.add(id)
+    );
+    return true;
+  }
+
+  // Pasar la propiedad de una sala a otro de sus sockets
+  transferRoomOwnership(room: string, socketId: string): boolean {
+    const metadata = this.roomMetadata.get(room);
+    if (!metadata || !metadata.users.has(socketId)) return false;
+    this.setRoomOwner(metadata, socketId);
+    return true;
+  }
+
+  // Historial de una sala (config.messageHistory), del más antiguo al más reciente
+  async getRoomHistory(
+    room: string,
+    query?: HistoryQuery
+  ): Promise<HistoryEntry[]> {
+    if (!this.server) return [];
+    return this.server.historyStore.get(this.name, room, query);
+  }
+
+  async clearRoomHistory(room: string): Promise<void> {
+    await this.server?.historyStore.clear(this.name, room);
+  }
+
+  private setRoomOwner(metadata: RoomMetadata, owner?: string): void {
+    const previous = metadata.owner;
+    if (previous === owner) return;
+    metadata.owner = owner;
+    // 'owner-changed' (room, owner, previousOwner); owner undefined: sala vacía
+    this.emitReserved('owner-changed', metadata.name, owner, previous);
+  }
+
+  private ensureRoom(room: string): RoomMetadata {
     if (!this.rooms.has(room)) {
       this.rooms.set(room, new Set());
+      this.roomMetadata.set(room, {
+        name: room,
+        createdAt: Date.now(),
+        userCount: 0,
+        users: new Set(),
+        joinTimes: new Map(),
+        metadata: {},
+        stats: createRoomStats(),
+      });
     }
+    return this.roomMetadata.get(room)!;
+  }
 
+  // Add socket to room within this namespace (comprobando capacidad,
+  // privacidad y auth de la sala)
+  addToRoom(room: string, socketId: string): JoinResult {
+    const existing = this.roomMetadata.get(room);
+    if (existing?.users.has(socketId)) {
+      return { joined: true, room };
+    }
+    const socket =
+      this.sockets.get(socketId) ?? this.server?.getUser(socketId)?.socket;
+    const reason =
+      existing && socket ? checkRoomAccess(existing, socket) : null;
+    if (reason) {
+      defaultLogger.warn(
+        `Socket ${socketId} cannot join room ${room} in namespace ${this.name}: ${reason}`,
+        {}
+      );
+      return rejectJoin(room, reason);
+    }
+
+    const metadata = this.ensureRoom(room);
     this.rooms.get(room)!.add(socketId);
+    metadata.users.add(socketId);
+    metadata.userCount = metadata.users.size;
+    metadata.joinTimes?.set(socketId, Date.now());
+    if (metadata.stats) {
+      recordRoomJoin(metadata.stats, metadata.userCount);
+    }
+    // El primer socket de una sala sin propietario pasa a serlo
+    if (!metadata.owner) {
+      this.setRoomOwner(metadata, socketId);
+    }
+
+    // El adapter del servidor entrega los broadcasts de la sala
+    if (this.server) {
+      this.server.adapter.addAll(socketId, [room]);
+      this.server.getUser(socketId)?.rooms.add(room);
+    }
+
    defaultLogger.info(
-      `Socket ${socketId} added to room ${room} in namespace ${this.name}`,
+      `Socket ${socketId} added to room ${room} in namespace ${this.name}. Room now has ${metadata.userCount} users`,
       {}
     );
+    return { joined: true, room };
   }
 
   // Remove socket from room within this namespace
@@ -179,19 +371,84 @@ export class Namespace extends EventEmitter {
     const roomSockets = this.rooms.get(room);
     if (roomSockets) {
       roomSockets.delete(socketId);
+      const metadata = this.roomMetadata.get(room);
+      if (metadata) {
+        metadata.users.delete(socketId);
+        metadata.userCount = metadata.users.size;
+        const joinedAt = metadata.joinTimes?.get(socketId);
+        metadata.joinTimes?.delete(socketId);
+        if (metadata.stats && joinedAt !== undefined) {
+          recordRoomLeave(
+            metadata.stats,
+            metadata.userCount,
+            Date.now() - joinedAt
+          );
+        }
+        // La propiedad pasa al socket que lleva más tiempo en la sala
+        if (metadata.owner === socketId) {
+          this.setRoomOwner(metadata, metadata.users.values().next().value);
+        }
+      }
 
-      // Clean up empty rooms
-      if (roomSockets.size === 0) {
+      // Clean up empty rooms (las creadas con createRoom() se conservan)
+      if (roomSockets.size === 0 && !this.createdRooms.has(room)) {
         this.rooms.delete(room);
+        this.roomMetadata.delete(room);
+        defaultLogger.info(
+          `Room ${room} deleted (empty) in namespace ${this.name}`,
+          {}
+        );
+      } else {
+        defaultLogger.info(
+          `Socket ${socketId} removed from room ${room} in namespace ${this.name}`,
+          {}
+        );
       }
+    }
+
+    if (this.server) {
+      this.server.adapter.del(socketId, room);
+      this.server.getUser(socketId)?.rooms.delete(room);
+    }
+  }
+
+  // Get room metadata
+  getRoomMetadata(room: string): RoomMetadata | undefined {
+    return this.roomMetadata.get(room);
+  }
 
-     defaultLogger.info(
-        `Socket ${socketId} removed from room ${room} in namespace ${this.name}`,
+  // Set room metadata (solo salas existentes)
+  setRoomMetadata(room: string, metadata: any): void {
+    const roomMeta = this.roomMetadata.get(room);
+    if (roomMeta) {
+      roomMeta.metadata = { ...roomMeta.metadata, ...metadata };
+      defaultLogger.info(
+        `Room ${room} metadata updated in namespace ${this.name}`,
         {}
       );
     }
   }
 
+  // Get all rooms with metadata
+  getAllRooms(): RoomMetadata[] {
+    return Array.from(this.roomMetadata.values());
+  }
+
+  // Check if room exists
+  hasRoom(room: string): boolean {
+    return this.rooms.has(room);
+  }
+
+  // Get room socket count
+  getRoomUserCount(room: string): number {
+    return this.rooms.get(room)?.size ?? 0;
+  }
+
+  // Ids de los sockets de una sala de este namespace
+  getRoomSocketIds(room: string): string[] {
+    return Array.from(this.rooms.get(room) ?? []);
+  }
+
   // Get sockets in a specific room
   getSocketsInRoom(room: string): SocketIOLikeSocket[] {
     const roomSockets = this.rooms.get(room);
@@ -204,12 +461,7 @@ export class Namespace extends EventEmitter {
 
   // Emit to all sockets in this namespace
   emit(event: string, ...args: any[]): boolean {
-    this.sockets.forEach(socket => {
-      if (socket.isAlive()) {
-        socket.emit(event, ...args);
-      }
-    });
-    return true;
+    return this.createBroadcastOperator([], []).emit(event, ...args);
   }
 
   // Create broadcast operator for room targeting
@@ -227,49 +479,136 @@ export class Namespace extends EventEmitter {
     return this.createBroadcastOperator([], [room]);
   }
 
+  // Atajos de las operaciones del operador sobre todos los sockets
+  fetchSockets(): Promise<RemoteSocket[]> {
+    return this.createBroadcastOperator([], []).fetchSockets();
+  }
+
+  allSockets(): Promise<Set<string>> {
+    return this.createBroadcastOperator([], []).allSockets();
+  }
+
+  socketsJoin(room: string | string[]): void {
+    this.createBroadcastOperator([], []).socketsJoin(room);
+  }
+
+  socketsLeave(room: string | string[]): void {
+    this.createBroadcastOperator([], []).socketsLeave(room);
+  }
+
+  disconnectSockets(close?: boolean): void {
+    this.createBroadcastOperator([], []).disconnectSockets(close);
+  }
+
   // Create a broadcast operator with include/exclude rooms
-  private createBroadcastOperator(
+  protected createBroadcastOperator(
     includeRooms: string[],
-    excludeRooms: string[]
+    excludeRooms: string[],
+    flags: { timeout?: number; local?: boolean } = {}
   ): BroadcastOperator {
     const self = this;
 
-    return {
-      emit(event: string, ...args: any[]): boolean {
-        let targetSockets: Set<SocketIOLikeSocket> = new Set();
-
-        if (includeRooms.length > 0) {
-          // Include sockets from specified rooms
-          includeRooms.forEach(room => {
-            const roomSockets = self.getSocketsInRoom(room);
-            roomSockets.forEach(socket => targetSockets.add(socket));
-          });
-        } else {
-          // Include all sockets in namespace if no specific rooms
-          self.sockets.forEach(socket => targetSockets.add(socket));
-        }
+    const getTargetSockets = (): SocketIOLikeSocket[] => {
+      const targetSockets: Set<SocketIOLikeSocket> = new Set();
 
-        // Exclude sockets from specified rooms
-        excludeRooms.forEach(room => {
+      if (includeRooms.length > 0) {
+        // Include sockets from specified rooms
+        includeRooms.forEach(room => {
           const roomSockets = self.getSocketsInRoom(room);
-          roomSockets.forEach(socket => targetSockets.delete(socket));
+          roomSockets.forEach(socket => targetSockets.add(socket));
         });
+      } else {
+        // Include all sockets in namespace if no specific rooms
+        self.sockets.forEach(socket => targetSockets.add(socket));
+      }
 
-        // Emit to target sockets
-        targetSockets.forEach(socket => {
-          if (socket.isAlive()) {
-            socket.emit(event, ...args);
-          }
-        });
+      // Exclude sockets from specified rooms
+      excludeRooms.forEach(room => {
+        const roomSockets = self.getSocketsInRoom(room);
+        roomSockets.forEach(socket => targetSockets.delete(socket));
+      });
+
+      return Array.from(targetSockets).filter(socket => socket.isAlive());
+    };
 
+    // Destino del operador para el adapter del servidor
+    const target = (): BroadcastOptions => ({
+      namespace: self.name,
+      rooms: includeRooms,
+      exceptRooms: excludeRooms,
+      exceptSockets: [],
+      local: flags.local,
+    });
+
+    // Broadcast con acknowledgement: el adapter del servidor lo entrega en
+    // todos los nodos; sin servidor, a los sockets del namespace
+    const broadcastWithAck =
+      (event: string, args: any[]): BroadcastWithAck =>
+      (onCount, onResponse) => {
+        const timeout = flags.timeout ?? DEFAULT_BROADCAST_ACK_TIMEOUT;
+        if (self.server) {
+          self.server.adapter.broadcastWithAck(
+            { event, args },
+            target(),
+            timeout,
+            onCount,
+            onResponse
+          );
+          return;
+        }
+        broadcastToSocketsWithAck(
+          getTargetSockets(),
+          { event, args },
+          timeout,
+          onCount,
+          onResponse
+        );
+      };
+    const serverCount = (): number =>
+      self.server && !flags.local ? self.server.adapter.serverCount() : 1;
+
+    const operator: any = {
+      emit(event: string, ...args: any[]): boolean {
+        // Broadcast con acknowledgement agregado por socket
+        const lastArg = args[args.length - 1];
+        if (typeof lastArg === 'function') {
+          emitWithBroadcastAck(
+            broadcastWithAck(event, args.slice(0, -1)),
+            serverCount(),
+            event,
+            flags.timeout ?? DEFAULT_BROADCAST_ACK_TIMEOUT,
+            lastArg
+          );
+          return true;
+        }
+
+        // El adapter del servidor entrega a los sockets de todos los nodos
+        if (self.server) {
+          self.server.adapter.broadcast({ event, args }, target());
+          return true;
+        }
+
+        getTargetSockets().forEach(socket => {
+          socket.emit(event, ...args);
+        });
         return true;
       },
 
+      emitWithAck(event: string, ...args: any[]): Promise<any[]> {
+        return emitWithBroadcastAckAsync(
+          broadcastWithAck(event, args),
+          serverCount(),
+          event,
+          flags.timeout ?? DEFAULT_BROADCAST_ACK_TIMEOUT
+        );
+      },
+
       to(room: string | string[]): BroadcastOperator {
         const rooms = Array.isArray(room) ? room : [room];
         return self.createBroadcastOperator(
           [...includeRooms, ...rooms],
-          excludeRooms
+          excludeRooms,
+          flags
         );
       },
 
@@ -277,40 +616,98 @@ export class Namespace extends EventEmitter {
         const rooms = Array.isArray(room) ? room : [room];
         return self.createBroadcastOperator(
           [...includeRooms, ...rooms],
-          excludeRooms
+          excludeRooms,
+          flags
         );
       },
 
       except(room: string | string[]): BroadcastOperator {
         const rooms = Array.isArray(room) ? room : [room];
-        return self.createBroadcastOperator(includeRooms, [
-          ...excludeRooms,
-          ...rooms,
-        ]);
+        return self.createBroadcastOperator(
+          includeRooms,
+          [...excludeRooms, ...rooms],
+          flags
+        );
       },
 
-      compress: (compress: boolean) =>
-        self.createBroadcastOperator(includeRooms, excludeRooms),
+      compress: (compress: boolean) => operator,
       timeout: (timeout: number) =>
-        self.createBroadcastOperator(includeRooms, excludeRooms),
-      volatile: self.createBroadcastOperator(includeRooms, excludeRooms),
-      local: self.createBroadcastOperator(includeRooms, excludeRooms),
-
-      // Enhanced methods for better control
-      allSockets: async () => new Set(self.sockets.keys()),
+        self.createBroadcastOperator(includeRooms, excludeRooms, {
+          ...flags,
+          timeout,
+        }),
+
+      // Operaciones sobre los sockets del destino en todos los nodos
+      allSockets: async () => {
+        const sockets = await operator.fetchSockets();
+        return new Set(sockets.map((socket: RemoteSocket) => socket.id));
+      },
       socketsJoin: (room: string | string[]) => {
         const rooms = Array.isArray(room) ? room : [room];
-        // Implementation would join all sockets to rooms
+        if (self.server) {
+          self.server.adapter.addSockets(target(), rooms);
+          return;
+        }
+        getTargetSockets().forEach(socket => {
+          rooms.forEach(name => socket.join(name));
+        });
       },
       socketsLeave: (room: string | string[]) => {
         const rooms = Array.isArray(room) ? room : [room];
-        // Implementation would remove all sockets from rooms
+        if (self.server) {
+          self.server.adapter.delSockets(target(), rooms);
+          return;
+        }
+        getTargetSockets().forEach(socket => {
+          rooms.forEach(name => socket.leave(name));
+        });
+      },
+      // En modo socket.io, sin close solo se cierra el namespace
+      disconnectSockets: (close: boolean = false) => {
+        if (self.server) {
+          self.server.adapter.disconnectSockets({ ...target(), close });
+          return;
+        }
+        getTargetSockets().forEach(socket => {
+          if (close) {
+            socket.closeConnection(1000, 'Normal closure');
+          } else {
+            socket.disconnect();
+          }
+        });
       },
-      disconnectSockets: (close?: boolean) => {
-        self.sockets.forEach(socket => socket.disconnect());
+      fetchSockets: async (): Promise<RemoteSocket[]> => {
+        // Sin servidor no hay adapter al que dirigir las operaciones
+        if (!self.server) return [];
+        const { adapter } = self.server;
+        return toRemoteSockets(adapter, await adapter.fetchSockets(target()));
       },
-      fetchSockets: async () => Array.from(self.sockets.values()),
     };
+
+    // Getters avoid eager recursive construction of the chain
+    Object.defineProperty(operator, 'volatile', {
+      get() {
+        return operator;
+      },
+      enumerable: true,
+    });
+    Object.defineProperty(operator, 'local', {
+      get() {
+        return self.createBroadcastOperator(includeRooms, excludeRooms, {
+          ...flags,
+          local: true,
+        });
+      },
+      enumerable: true,
+    });
+
+    return operator as BroadcastOperator;
+  }
+
+  // Emitir un evento propio del namespace (emit() hace broadcast a los sockets)
+  protected emitReserved(event: string, ...args: any[]): void {
+    this.emitter.emit(event, ...args);
+    super.emit(event, ...args);
   }
 
   // Override EventEmitter methods to use custom emitter
@@ -0,0 +1,141 @@
+import { Namespace, type BroadcastOperator } from './Namespace.js';
+import type {
+  SocketIOLikeServer,
+  SocketIOLikeSocket,
+} from './SocketIOLikeAdapter.js';
+import type { RemoteSocket } from './remote-socket.js';
+
+/**
+ * Decide si un namespace desconocido se crea bajo un ParentNamespace.
+ * Se llama con el nombre pedido y el auth del paquete CONNECT.
+ */
+export type ParentNamespaceMatcher = (
+  name: string,
+  auth: any,
+  next: (err: Error | null, allowed: boolean) => void
+) => void;
+
+let parentCount = 0;
+
+/**
+ * Namespace dinámico creado con io.of(regex) o io.of(predicate).
+ *
+ * Los namespaces hijos se crean bajo demanda, en la primera conexión aceptada
+ * por el matcher. Heredan los middlewares del padre y sus conexiones se
+ * emiten también en el padre. emit(), to(), except() y el resto de
+ * operaciones de broadcast alcanzan a todos los hijos.
+ */
+export class ParentNamespace extends Namespace {
+  public readonly children: Set<Namespace> = new Set();
+
+  constructor(
+    public readonly matcher: ParentNamespaceMatcher,
+    server?: SocketIOLikeServer
+  ) {
+    // Nombre interno, como en Socket.IO: no coincide con ninguna ruta
+    super(`/_${++parentCount}`, server);
+  }
+
+  // Crear un namespace hijo (el servidor lo registra con su nombre)
+  createChild(name: string): Namespace {
+    const child = new Namespace(name, this.server, this);
+    child.on('connection', (socket: SocketIOLikeSocket) => {
+      this.emitReserved('connection', socket);
+    });
+    this.children.add(child);
+    return child;
+  }
+
+  // Los hijos se descartan al cerrar el servidor
+  clearChildren(): void {
+    this.children.clear();
+  }
+
+  protected createBroadcastOperator(
+    includeRooms: string[],
+    excludeRooms: string[],
+    flags: { timeout?: number; local?: boolean } = {}
+  ): BroadcastOperator {
+    const self = this;
+    const operators = (): BroadcastOperator[] =>
+      Array.from(self.children, child =>
+        (child as any).createBroadcastOperator(
+          includeRooms,
+          excludeRooms,
+          flags
+        )
+      );
+    const chain = (
+      rooms: string[],
+      exceptRooms: string[],
+      extraFlags: { timeout?: number; local?: boolean } = {}
+    ): BroadcastOperator =>
+      self.createBroadcastOperator(rooms, exceptRooms, {
+        ...flags,
+        ...extraFlags,
+      });
+    const toArray = (room: string | string[]): string[] =>
+      Array.isArray(room) ? room : [room];
+
+    const operator: any = {
+      emit(event: string, ...args: any[]): boolean {
+        // Cada hijo agregaría sus respuestas por separado
+        if (typeof args[args.length - 1] === 'function') {
+          throw new Error(
+            'Acknowledgements are not supported on parent namespaces'
+          );
+        }
+        operators().forEach(child => child.emit(event, ...args));
+        return true;
+      },
+      emitWithAck(): Promise<any[]> {
+        return Promise.reject(
+          new Error('Acknowledgements are not supported on parent namespaces')
+        );
+      },
+      to: (room: string | string[]) =>
+        chain([...includeRooms, ...toArray(room)], excludeRooms),
+      in: (room: string | string[]) =>
+        chain([...includeRooms, ...toArray(room)], excludeRooms),
+      except: (room: string | string[]) =>
+        chain(includeRooms, [...excludeRooms, ...toArray(room)]),
+      compress: () => operator,
+      timeout: (timeout: number) =>
+        chain(includeRooms, excludeRooms, { timeout }),
+      allSockets: async () => {
+        const sockets = await operator.fetchSockets();
+        return new Set(sockets.map((socket: RemoteSocket) => socket.id));
+      },
+      socketsJoin: (room: string | string[]) => {
+        operators().forEach(child => child.socketsJoin(room));
+      },
+      socketsLeave: (room: string | string[]) => {
+        operators().forEach(child => child.socketsLeave(room));
+      },
+      disconnectSockets: (close?: boolean) => {
+        operators().forEach(child => child.disconnectSockets(close));
+      },
+      fetchSockets: async (): Promise<RemoteSocket[]> => {
+        const results = await Promise.all(
+          operators().map(child => child.fetchSockets())
+        );
+        return results.flat();
+      },
+    };
+
+    Object.defineProperty(operator, 'volatile', {
+      get() {
+        return operator;
+      },
+      enumerable: true,
+    });
+    Object.defineProperty(operator, 'local', {
+      get() {
+        return chain(includeRooms, excludeRooms, { local: true });
+      },
+      enumerable: true,
+    });
+
+    return operator as BroadcastOperator;
+  }
+}
@@ -1,17 +1,88 @@
 import { EventEmitter } from 'events';
-import { RawData, WebSocket, WebSocketServer } from 'ws';
-import { type ISocket } from '../types';
-import { ParsedUrlQuery } from 'querystring';
+import { RawData, WebSocket, WebSocketServer, type ServerOptions as WsServerOptions } from 'ws';
+import type {
+  IncomingMessage,
+  Server as HttpServer,
+  ServerResponse,
+} from 'http';
+import { type ISocket, type ExtendedServerOptions } from '../types';
 import * as url from 'url';
 import { nanoid } from 'nanoid';
 import { defaultLogger } from '../logger/index.js';
 
 import { Emitter } from '../Emitter.js';
 import { Namespace } from './Namespace.js';
+import {
+  ParentNamespace,
+  type ParentNamespaceMatcher,
+} from './ParentNamespace.js';
+import {
+  DEFAULT_BROADCAST_ACK_TIMEOUT,
+  emitWithBroadcastAck,
+  emitWithBroadcastAckAsync,
+  type BroadcastWithAck,
+} from './ack.js';
+import {
+  DEFAULT_MAX_DISCONNECTION_DURATION,
+  SessionStore,
+  type BroadcastTarget,
+  type RecoverableSession,
+} from './recovery.js';
+import {
+  defaultParser,
+  type Frame,
+  type Packet,
+  type PacketDecoder,
+  type Parser,
+} from '../parser/index.js';
+import {
+  SocketIOCodec,
+  type EngineOpenData,
+  type ProtocolMessage,
+} from '../parser/socketio.js';
+import { encodeOpenPacket } from '../parser/payload.js';
+import { PollingTransport, sendError } from './polling.js';
+import {
+  InMemoryAdapter,
+  type Adapter,
+  type BroadcastOptions,
+  type BroadcastPacket,
+} from './adapter.js';
+import {
+  DEFAULT_MAX_MESSAGE_HISTORY,
+  HISTORY_REQUEST_EVENT,
+  InMemoryHistoryStore,
+  type HistoryEntry,
+  type HistoryQuery,
+  type RoomHistoryStore,
+} from './history.js';
+import { toRemoteSockets, type RemoteSocket } from './remote-socket.js';
+import {
+  createHandshake,
+  type Handshake,
+  type TrustProxy,
+} from './handshake.js';
+import { checkOrigin } from './cors.js';
+import type { JoinOptions, JoinResult, RoomOptions } from './rooms.js';
+import {
+  ServerStatsCollector,
+  createSocketStats,
+  frameSize,
+  recordRoomMessage,
+  type RoomStats,
+  type ServerStats,
+  type SocketStats,
+} from './stats.js';
+import {
+  createValidationError,
+  validatePayload,
+  type EventSchema,
+} from './validation.js';
 
 // Enhanced interface for broadcast operator with better typing
 interface BroadcastOperator {
   emit(event: string, ...args: any[]): boolean;
+  emitWithAck(event: string, ...args: any[]): Promise<any[]>;
   to(room: string | string[]): BroadcastOperator;
   in(room: string | string[]): BroadcastOperator;
   except(room: string | string[]): BroadcastOperator;
@@ -19,6 +90,24 @@ interface BroadcastOperator {
   timeout(timeout: number): BroadcastOperator;
   volatile: BroadcastOperator;
   local: BroadcastOperator;
+  // Operaciones sobre los sockets del destino en todos los nodos
+  allSockets(): Promise<Set<string>>;
+  socketsJoin(room: string | string[]): void;
+  socketsLeave(room: string | string[]): void;
+  disconnectSockets(close?: boolean): void;
+  fetchSockets(): Promise<RemoteSocket[]>;
+}
+
+// Options carried along a broadcast operator chain
+interface BroadcastFlags {
+  timeout?: number;
+  exceptSockets?: string[];
+  // Solo los sockets de este nodo (operador .local)
+  local?: boolean;
+  // Namespace del destino (por defecto el principal, '/')
+  namespace?: string;
+  // Socket que hace el broadcast (socket.to(room).emit)
+  sender?: string;
 }
 
 // Enhanced interface for connected user with additional metadata
@@ -43,15 +132,8 @@ interface ConnectedUser {
     xdomain: boolean;
     secure: boolean;
   };
-  // Connection statistics
-  stats?: {
-    messagesReceived: number;
-    messagesSent: number;
-    bytesReceived: number;
-    bytesSent: number;
-    errors: number;
-    reconnections: number;
-  };
+  // Connection statistics (el mismo objeto que socket.stats)
+  stats?: SocketStats;
 }
 
 // Enhanced interface for room metadata with additional properties
@@ -65,16 +147,14 @@ interface RoomMetadata {
   maxUsers?: number;
   isPrivate?: boolean;
   owner?: string;
+  // Sockets invitados a una sala privada
+  invited?: Set<string>;
   description?: string;
   tags?: string[];
+  // Momento en que entró cada socket de la sala
+  joinTimes?: Map<string, number>;
   // Room statistics
-  stats?: {
-    totalMessages: number;
-    totalUsers: number;
-    peakUsers: number;
-    lastActivity: number;
-    averageSessionDuration: number;
-  };
+  stats?: RoomStats;
   // Room configuration
   config?: {
     allowAnonymous?: boolean;
@@ -88,12 +168,63 @@ interface RoomMetadata {
   };
 }
 
+// Normalizar un frame binario de `ws` a Buffer
+function toBuffer(data: RawData): Buffer {
+  if (Array.isArray(data)) return Buffer.concat(data);
+  if (data instanceof ArrayBuffer) return Buffer.from(data);
+  return data;
+}
+
+// Timeout por defecto para acknowledgements iniciados por el servidor
+const DEFAULT_ACK_TIMEOUT = 20000;
+
+// Valores por defecto del heartbeat (ver ServerOptions)
+const DEFAULT_PING_INTERVAL = 25000;
+const DEFAULT_PING_TIMEOUT = 60000;
+
+// Modo socket.io: tiempo máximo para recibir el paquete CONNECT y tamaño
+// máximo anunciado en el handshake de Engine.IO
+const DEFAULT_CONNECT_TIMEOUT = 45000;
+const DEFAULT_MAX_PAYLOAD = 1000000;
+
+// Transportes habilitados por defecto y tiempo máximo para completar un upgrade
+const DEFAULT_TRANSPORTS = ['polling', 'websocket'];
+const DEFAULT_UPGRADE_TIMEOUT = 10000;
+
+// Prefijo de los callbackId de los acknowledgements del servidor
+const SERVER_ACK_PREFIX = 'srv_cb_';
+
+// Modo socket.io: sockets de cada conexión por namespace (varios namespaces
+// pueden compartir una conexión, como con el Manager del cliente)
+const connectionSockets: WeakMap<
+  object,
+  Map<string, SocketIOLikeSocket>
+> = new WeakMap();
+
+// Eventos del propio servidor que no se pueden enviar con serverSideEmit
+const SERVER_RESERVED_EVENTS = new Set([
+  'connect',
+  'connection',
+  'disconnect',
+  'disconnecting',
+  'new_namespace',
+  'newListener',
+  'removeListener',
+]);
+
+// Acknowledgement pendiente de respuesta por parte del cliente
+interface PendingAck {
+  callback: (err: Error | null, ...args: any[]) => void;
+  timeoutId: NodeJS.Timeout;
+  timestamp: number;
+  event: string;
+  timeout: number;
+}
+
 // Clase principal que emula Socket.IO usando WebSocket nativo
 export class SocketIOLikeSocket extends EventEmitter implements ISocket {
   id: string;
-  handshake: {
-    query: ParsedUrlQuery;
-  };
+  handshake: Handshake;
   conn: {
     transport: {
       name: string;
@@ -106,52 +237,154 @@ export class SocketIOLikeSocket extends EventEmitter implements ISocket {
   private rooms: Set<string> = new Set();
   private server: SocketIOLikeServer;
   private namespace: Namespace;
+  private pendingAcks: Map<string, PendingAck> = new Map();
+  private ackCounter: number = 0;
+  private flags: { timeout?: number } = {};
+  private heartbeatTimeout: NodeJS.Timeout | null = null;
+  private pingSentAt: number | null = null;
+  private lastPong: number = Date.now();
+  private disconnectReason?: string;
+  private parser: Parser;
+  private decoder: PacketDecoder;
+  // Codec del protocolo socket.io (solo con `protocol: 'socket.io'`)
+  private codec?: SocketIOCodec;
+  // Listeners del socket sobre la conexión (se quitan al cerrar solo el namespace)
+  private transportListeners: Array<[string, (...args: any[]) => void]> = [];
+  // Reglas de validación registradas con on(event, { schema }, handler)
+  private eventSchemas: Map<string, EventSchema> = new Map();
+  public latency: number | null = null;
   public isConnected: boolean = false;
+  // Datos arbitrarios del socket (se conservan al recuperar la sesión)
+  public data: any = {};
+  // Sesión privada usada por connectionStateRecovery (solo si está habilitado)
+  public pid?: string;
+  // true si el estado (id, salas, data) se recuperó de una desconexión previa
+  public recovered: boolean = false;
+  // Tráfico del socket (ver stats.ts)
+  public stats: SocketStats = createSocketStats();
 
   broadcast: {
     emit: (event: string, ...args: any[]) => void;
     to: (room: string) => { emit: (event: string, ...args: any[]) => void };
   };
 
-  constructor(ws: WebSocket, request: any, server: SocketIOLikeServer, namespace: Namespace) {
+  // connectData: auth del paquete de conexión ('connect' en el protocolo por
+  // defecto; CONNECT con auth y pid en modo socket.io)
+  constructor(
+    ws: WebSocket,
+    request: any,
+    server: SocketIOLikeServer,
+    namespace: Namespace,
+    connectData?: any
+  ) {
     super();
     this.ws = ws;
     this.server = server;
     this.namespace = namespace;
     this.emitter = new Emitter();
-    
-    // Generar ID único usando el método del servidor
-    this.id = server.generateUniqueId();
-    defaultLogger.debug(`Socket creado con ID único: ${this.id}`, {});
+    this.parser = server.parser;
+    this.decoder = this.parser.createDecoder();
+    if (server.protocol === 'socket.io') {
+      this.codec = new SocketIOCodec(SERVER_ACK_PREFIX);
+    }
 
-    //  query params
+    // Cabeceras, dirección (X-Forwarded-For con trustProxy), query y auth
     const parsedUrl = url.parse(request.url || '', true);
-    this.handshake = {
-      query: parsedUrl.query,
-    };
+    // Sin paquete de conexión (clientes anteriores) no hay auth
+    this.handshake = createHandshake(
+      request,
+      this.codec ? connectData || {} : connectData,
+      server.trustProxy
+    );
 
+    // Recuperar la sesión anterior si el cliente presenta su pid
+    // (en modo socket.io llega en el paquete CONNECT)
+    const pid = this.codec ? connectData?.pid : parsedUrl.query.pid;
+    const session = server.restoreSession(pid, namespace.name);
+    if (session) {
+      this.id = session.sid;
+      this.pid = session.pid;
+      this.data = session.data;
+      this.recovered = true;
+      if (session.stats) {
+        this.stats = {
+          ...session.stats,
+          reconnections: session.stats.reconnections + 1,
+        };
+      }
+      defaultLogger.debug(`Socket recuperado con ID: ${this.id}`, {});
+    } else {
+      // Generar ID único usando el método del servidor
+      this.id = server.generateUniqueId();
+      this.pid = server.createSessionId();
+      defaultLogger.debug(`Socket creado con ID único: ${this.id}`, {});
+    }
+
+    // Sobre long-polling el transporte cambia a 'websocket' tras el upgrade
+    const transport = ws as unknown;
     this.conn = {
       transport: {
-        name: 'websocket',
+        name:
+          transport instanceof PollingTransport ? transport.name : 'websocket',
       },
     };
+    if (transport instanceof PollingTransport) {
+      transport.on('upgrade', (name: string) =>
+        this.handleTransportUpgrade(name)
+      );
+    }
 
     this.broadcast = {
       emit: (event: string, ...args: any[]) => {
-        this.server.broadcastToAll(event, args, this.id);
+        this.to([]).emit(event, ...args);
       },
       to: (room: string) => ({
         emit: (event: string, ...args: any[]) => {
-          this.server.broadcastToRoom(room, event, args, this.id);
+          this.to(room).emit(event, ...args);
         },
       }),
     };
 
     this.isConnected = true;
 
+    if (this.codec) {
+      // El servidor reparte los paquetes de la conexión por namespace
+      if (!connectionSockets.has(ws)) {
+        connectionSockets.set(ws, new Map());
+      }
+      connectionSockets.get(ws)!.set(namespace.name, this);
+    }
+
     this.setupWebSocketListeners();
 
     this.server.registerUser(this);
+
+    if (session) {
+      this.restoreState(session);
+    }
+  }
+
+  private handleTransportUpgrade(name: string): void {
+    this.conn.transport.name = name;
+    const user = this.server.getUser(this.id);
+    if (user) {
+      user.transport = 'websocket';
+    }
+    defaultLogger.info(`Socket ${this.id} actualizado a ${name}`, {});
+    this.emitter.emit('upgrade', name);
+    super.emit('upgrade', name);
+  }
+
+  // Volver a unirse a las salas y reenviar los paquetes perdidos
+  private restoreState(session: RecoverableSession): void {
+    session.rooms.forEach(room => this.join(room));
+    session.missedPackets.forEach(packet => {
+      this.emit(packet.event, ...packet.args);
+    });
+    defaultLogger.info(`Sesión ${this.id} recuperada`, {
+      rooms: session.rooms.length,
+      missedPackets: session.missedPackets.length,
+    });
   }
 
   // Execute event middleware chain (with optional middleware support)
@@ -199,160 +432,523 @@ export class SocketIOLikeSocket extends EventEmitter implements ISocket {
   }
 
   private setupWebSocketListeners(): void {
-    this.ws.on('message', (message: RawData) => {
-      try {
-        const data = JSON.parse(message.toString());
-        defaultLogger.debug('data', data);
-        if (data.event && Array.isArray(data.payload)) {
-          this.lastActivity = Date.now();
-          defaultLogger.debug('Mensaje entrante:', data.event, data.payload);
-
-          // Ignorar eventos de callback-response para evitar bucles
-          if (data.event === 'callback-response') {
-            return;
-          }
+    const listen = (event: string, listener: (...args: any[]) => void) => {
+      this.transportListeners.push([event, listener]);
+      this.ws.on(event, listener);
+    };
 
-          // Crear función de callback si hay callbackId
-          let callback: Function | undefined;
-          if (data.callbackId) {
-            callback = (...args: any[]) => {
-              // Enviar respuesta del callback directamente al cliente
-              const callbackResponse = {
-                event: 'callback-response',
-                callbackId: data.callbackId,
-                payload: args,
-              };
-              if (this.isConnected && this.ws.readyState === WebSocket.OPEN) {
-                this.ws.send(JSON.stringify(callbackResponse));
-              }
-            };
+    // En modo socket.io los paquetes llegan desde el servidor, ya decodificados
+    if (!this.codec) {
+      listen('message', (message: RawData, isBinary?: boolean) => {
+        try {
+          const frame: Frame = isBinary
+            ? toBuffer(message)
+            : message.toString();
+          this.stats.bytesReceived += frameSize(frame);
+          const data = this.decoder.add(frame);
+          if (data) {
+            this.handlePacket(data);
           }
-
-          // Preparar argumentos incluyendo callback si existe
-          const args = callback ? [...data.payload, callback] : data.payload;
-
-          // Execute event middleware before emitting
-          this.executeEventMiddleware(data.event, data.payload)
-            .then(() => {
-              // Emitir usando el emitter interno
-              this.emitter.emit(data.event, ...args);
-              // También emitir usando EventEmitter nativo para compatibilidad
-              super.emit(data.event, ...args);
-            })
-            .catch(error => {
-              defaultLogger.error(`Event middleware error for ${data.event}:`, error);
-              // Emit error event
-              this.emitter.emit('error', error);
-              super.emit('error', error);
-            });
+        } catch (error) {
+          this.countError();
+          defaultLogger.error('Error al parsear mensaje de WS:', error);
         }
-      } catch (error) {
-        defaultLogger.error('Error al parsear mensaje de WS:', error);
-      }
-    });
-
-    // Manejar desconexión
-    this.ws.on('close', (code: number, reason: Buffer) => {
-      this.isConnected = false;
-      const reasonString = reason.toString();
-      defaultLogger.info(`WebSocket ${this.id} cerrado`, {
-        code,
-        reason: reasonString,
-        duration: Date.now() - this.connectionStartTime,
       });
+    }
 
-      // Limpiar del servidor
-      this.server.unregisterUser(this.id);
-
-      // Emitir evento de desconexión
-      this.emitter.emit('disconnect', { code, reasonString });
-      super.emit('disconnect', { code, reasonString });
+    // Manejar desconexión
+    listen('close', (code: number, reason: Buffer) => {
+      this.handleClose(code, this.disconnectReason ?? reason.toString());
     });
 
-    this.ws.on('error', (err: Error) => {
+    listen('error', (err: Error) => {
+      this.countError();
       this.isConnected = false;
+      this.clearHeartbeat();
+      this.forgetConnection();
       defaultLogger.error(`Error en WebSocket ${this.id}:`, err);
+      this.server.saveSession(this);
       this.server.unregisterUser(this.id);
+      this.cleanupPendingAcks();
       this.emitter.emit('disconnect');
       super.emit('disconnect');
     });
 
     // Manejar ping/pong
-    this.ws.on('ping', (data: Buffer) => {
+    listen('ping', (data: Buffer) => {
       this.lastActivity = Date.now();
       if (this.isConnected) {
         this.ws.pong(data);
       }
     });
 
-    this.ws.on('pong', (data: Buffer) => {
-      this.lastActivity = Date.now();
-      this.emitter.emit('pong', data);
-      super.emit('pong', data);
+    listen('pong', (data: Buffer) => this.handlePong(data));
+  }
+
+  // Fin del socket: conexión cerrada o namespace desconectado
+  private handleClose(code: number, reasonString: string): void {
+    this.isConnected = false;
+    this.clearHeartbeat();
+    this.forgetConnection();
+    defaultLogger.info(`WebSocket ${this.id} cerrado`, {
+      code,
+      reason: reasonString,
+      duration: Date.now() - this.connectionStartTime,
+    });
+
+    // Guardar la sesión si la desconexión no fue intencionada
+    if (code !== 1000) {
+      this.server.saveSession(this);
+    }
+
+    // Limpiar del servidor
+    this.server.unregisterUser(this.id);
+    this.cleanupPendingAcks();
+
+    // Emitir evento de desconexión
+    this.emitter.emit('disconnect', { code, reasonString });
+    super.emit('disconnect', { code, reasonString });
+  }
+
+  // Dejar de recibir los paquetes de la conexión
+  private forgetConnection(): void {
+    const sockets = connectionSockets.get(this.ws);
+    if (sockets?.get(this.namespace.name) === this) {
+      sockets.delete(this.namespace.name);
+    }
+  }
+
+  // Cerrar solo este namespace: la conexión se cierra con el último que la usa
+  private closeNamespace(reason: string): void {
+    this.isConnected = false;
+    const sockets = connectionSockets.get(this.ws);
+    const shared =
+      !!sockets && Array.from(sockets.values()).some(socket => socket !== this);
+    if (!shared) {
+      this.ws.close(1000, reason);
+      return;
+    }
+
+    this.transportListeners.forEach(([event, listener]) => {
+      this.ws.off(event, listener);
     });
+    this.transportListeners = [];
+    this.handleClose(1000, this.disconnectReason ?? reason);
   }
 
-  // Método on usando el emitter personalizado
-  on(event: string, callback: (data: any) => void): this {
-    this.emitter.on(event, callback);
+  private handlePong(data?: Buffer): void {
+    this.lastActivity = Date.now();
+    this.lastPong = this.lastActivity;
+    this.handleHeartbeatPong();
+    this.emitter.emit('pong', data);
+    super.emit('pong', data);
+  }
+
+  // Modo socket.io: procesar un paquete de Engine.IO / Socket.IO
+  // (el servidor entrega a cada socket los paquetes de su conexión, con el
+  // tamaño de sus frames). También recibe el primer evento de un cliente que
+  // anunció el paquete 'connect' y no lo envió
+  handleProtocolMessage(message: ProtocolMessage, bytes: number = 0): void {
+    this.stats.bytesReceived += bytes;
+    switch (message.type) {
+      case 'pong':
+        this.handlePong();
+        break;
+      case 'ping':
+        // El servidor responde al ping una vez por conexión
+        this.lastActivity = Date.now();
+        break;
+      case 'close':
+        this.disconnectReason = 'transport close';
+        this.ws.close(1000, 'Transport close');
+        break;
+      case 'disconnect':
+        if (message.nsp === this.namespace.name) {
+          this.disconnectReason = 'client namespace disconnect';
+          this.closeNamespace('Client namespace disconnect');
+        }
+        break;
+      case 'packet':
+        if (message.nsp === this.namespace.name) {
+          this.handlePacket(message.packet);
+        }
+        break;
+      default:
+        break;
+    }
+  }
+
+  // Procesar un paquete ya decodificado (con sus attachments binarios)
+  private handlePacket(data: any): void {
+    defaultLogger.debug('data', data);
+    this.stats.messagesReceived++;
+    this.server.statsCollector.recordMessage();
+
+    // Respuestas a acknowledgements iniciados por el servidor
+    if (data.event === 'callback-response') {
+      this.lastActivity = Date.now();
+      this.handleAckResponse(data);
+      return;
+    }
+
+    if (data.event && Array.isArray(data.payload)) {
+      this.lastActivity = Date.now();
+      defaultLogger.debug('Mensaje entrante:', data.event, data.payload);
+
+      // Crear función de callback si hay callbackId
+      let callback: Function | undefined;
+      if (data.callbackId) {
+        callback = (...args: any[]) => {
+          // Enviar respuesta del callback directamente al cliente
+          const callbackResponse = {
+            event: 'callback-response',
+            callbackId: data.callbackId,
+            payload: args,
+          };
+          if (this.isConnected && this.ws.readyState === WebSocket.OPEN) {
+            this.sendPacket(callbackResponse);
+          }
+        };
+      }
+
+      // Preparar argumentos incluyendo callback si existe
+      const args = callback ? [...data.payload, callback] : data.payload;
+
+      // Execute event middleware before emitting
+      this.executeEventMiddleware(data.event, data.payload)
+        .then(() => this.validateEvent(data.event, data.payload))
+        .then(() => {
+          // Evento reservado: no llega a los handlers
+          if (data.event === HISTORY_REQUEST_EVENT) {
+            this.handleHistoryRequest(data, callback);
+            return;
+          }
+          // Emitir usando el emitter interno
+          this.emitter.emit(data.event, ...args);
+          // También emitir usando EventEmitter nativo para compatibilidad
+          super.emit(data.event, ...args);
+        })
+        .catch(error => {
+          this.countError();
+          defaultLogger.error(`Event ${data.event} rejected:`, error);
+          // Errores para el cliente (p. ej. RATE_LIMITED): se responden en su ack
+          if (error?.ack) {
+            this.sendErrorAck(data.callbackId, error);
+            return;
+          }
+          // Emit error event
+          this.emitter.emit('error', error);
+          super.emit('error', error);
+        });
+    }
+  }
+
+  // Comprobar el payload contra las reglas del socket o del namespace
+  private async validateEvent(event: string, args: any[]): Promise<void> {
+    const rules =
+      this.eventSchemas.get(event) ?? this.namespace.getSchema(event);
+    if (!rules) return;
+
+    const issues = await validatePayload(args, rules);
+    if (issues.length > 0) {
+      throw createValidationError(event, args, rules, issues, this.id);
+    }
+  }
+
+  // Responder el ack de un evento rechazado con el error (sin ack se descarta)
+  private sendErrorAck(callbackId: string | undefined, error: any): void {
+    if (!callbackId) return;
+    const payload = {
+      message: error.message,
+      code: error.code,
+      type: error.type,
+      data: error.data,
+      context: error.context,
+    };
+    if (this.isConnected && this.ws.readyState === WebSocket.OPEN) {
+      this.sendPacket({
+        event: 'callback-response',
+        callbackId,
+        payload: [payload],
+        error: payload,
+      });
+    }
+  }
+
+  // Método on usando el emitter personalizado; con reglas de validación los
+  // payloads inválidos no llegan a los handlers (ver validation.ts)
+  on(event: string, callback: (...args: any[]) => void): this;
+  on(
+    event: string,
+    rules: EventSchema,
+    callback: (...args: any[]) => void
+  ): this;
+  on(
+    event: string,
+    rulesOrCallback: EventSchema | ((...args: any[]) => void),
+    callback?: (...args: any[]) => void
+  ): this {
+    if (typeof rulesOrCallback === 'function') {
+      this.emitter.on(event, rulesOrCallback);
+    } else {
+      this.eventSchemas.set(event, rulesOrCallback);
+      this.emitter.on(event, callback!);
+    }
     return this;
   }
 
   // Método once usando el emitter personalizado
-  once(event: string, callback: (data: any) => void): this {
+  once(event: string, callback: (...args: any[]) => void): this {
     this.emitter.once(event, callback);
     return this;
   }
 
   // Método off usando el emitter personalizado
-  off(event: string, callback?: (data: any) => void): this {
+  off(event: string, callback?: (...args: any[]) => void): this {
     if (callback) {
       this.emitter.off(event, callback);
     } else {
       this.emitter.removeAllListeners(event);
+      this.eventSchemas.delete(event);
     }
     return this;
   }
 
   // Método emit para enviar datos al cliente (with graceful degradation)
+  // Si el último argumento es una función se registra como acknowledgement
+  // con la firma (err, ...responses)
   emit(event: string, ...args: any[]): boolean {
+    const timeout = this.flags.timeout ?? DEFAULT_ACK_TIMEOUT;
+    this.flags = {};
+
+    const lastArg = args[args.length - 1];
+    const ack = typeof lastArg === 'function' ? lastArg : undefined;
+    const payload = ack ? args.slice(0, -1) : args;
+
     if (!this.isConnected || this.ws.readyState !== WebSocket.OPEN) {
       defaultLogger.warn(`Intento de envío a WebSocket ${this.id} desconectado`, {
         data: event,
       });
+      if (ack) {
+        ack(this.createAckError('Socket is not connected', 'SOCKET_DISCONNECTED', event, timeout));
+      }
       return false;
     }
 
+    const callbackId = ack ? this.registerAck(event, ack, timeout) : undefined;
+
     try {
       // Intentar envío normal
-      return this.sendMessage(event, args);
+      return this.sendMessage(event, payload, callbackId);
     } catch (error: any) {
+      if (callbackId) {
+        // El formato simple no transporta callbackId
+        this.rejectAck(callbackId, this.createAckError('Failed to send acknowledged event', 'ACK_SEND_ERROR', event, timeout));
+      }
       // Fallback a método simple para mejor compatibilidad
       defaultLogger.warn(`Fallback to simple emit for ${this.id}`, { event, error: error.message });
-      return this.sendSimpleMessage(event, args);
+      return this.sendSimpleMessage(event, payload);
     }
   }
 
+  // Emitir y esperar el acknowledgement del cliente como promesa
+  emitWithAck(event: string, ...args: any[]): Promise<any> {
+    return new Promise((resolve, reject) => {
+      this.emit(event, ...args, (err: Error | null, ...responses: any[]) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(responses[0]);
+        }
+      });
+    });
+  }
+
+  // Establecer el timeout del acknowledgement para el siguiente emit
+  timeout(timeout: number): this {
+    this.flags.timeout = timeout;
+    return this;
+  }
+
   // Método de envío normal
-  private sendMessage(event: string, args: any[]): boolean {
-    const message = JSON.stringify({
+  private sendMessage(event: string, args: any[], callbackId?: string): boolean {
+    const message: any = {
       event,
       payload: args,
-    });
-    this.ws.send(message);
+    };
+    if (callbackId) {
+      message.callbackId = callbackId;
+    }
+    this.sendPacket(message);
     this.lastActivity = Date.now();
     return true;
   }
 
+  // Codificar un paquete con el parser del servidor y enviar sus frames
+  private sendPacket(message: Packet): void {
+    const frames = this.codec
+      ? this.codec.encodePacket(this.namespace.name, message)
+      : this.parser.encode(message);
+    frames.forEach(frame => {
+      this.ws.send(frame as any);
+      this.stats.bytesSent += frameSize(frame);
+    });
+    this.stats.messagesSent++;
+    this.server.statsCollector.recordMessage();
+  }
+
+  private countError(): void {
+    this.stats.errors++;
+    this.server.statsCollector.recordError();
+  }
+
+  // Confirmar al cliente que se aceptó la conexión al namespace (paquete
+  // CONNECT en modo socket.io, evento 'user-registered' en el protocolo por
+  // defecto). El cliente emite 'connect' al recibirlo.
+  acceptConnection(): void {
+    if (!this.isAlive()) return;
+    if (!this.codec) {
+      this.emit('user-registered', {
+        id: this.id,
+        pid: this.pid,
+        recovered: this.recovered,
+        timestamp: Date.now(),
+        totalUsers: this.server.getAllUsers().size,
+      });
+      return;
+    }
+    this.ws.send(
+      this.codec.encodeConnect(this.namespace.name, {
+        sid: this.id,
+        ...(this.pid ? { pid: this.pid } : {}),
+      })
+    );
+  }
+
+  // Rechazar la conexión (middleware con error) y cerrar el socket
+  rejectConnection(error: Error): void {
+    if (this.codec && this.isAlive()) {
+      this.ws.send(
+        this.codec.encodeConnectError(
+          this.namespace.name,
+          error.message,
+          (error as any).data
+        )
+      );
+    } else if (this.isAlive()) {
+      // El cliente lo entrega en 'connect_error' como AuthError
+      this.sendPacket({
+        event: 'connect_error',
+        payload: [{ message: error.message, data: (error as any).data }],
+      });
+    }
+    this.disconnect();
+  }
+
+  // Registrar un acknowledgement pendiente con su timeout
+  private registerAck(
+    event: string,
+    callback: (err: Error | null, ...args: any[]) => void,
+    timeout: number
+  ): string {
+    const callbackId = `srv_cb_${++this.ackCounter}`;
+    const timeoutId = setTimeout(() => {
+      this.rejectAck(
+        callbackId,
+        this.createAckError(`Callback timeout after ${timeout}ms`, 'CALLBACK_TIMEOUT', event, timeout)
+      );
+    }, timeout);
+
+    this.pendingAcks.set(callbackId, {
+      callback,
+      timeoutId,
+      timestamp: Date.now(),
+      event,
+      timeout,
+    });
+    return callbackId;
+  }
+
+  // Procesar una respuesta callback-response enviada por el cliente
+  private handleAckResponse(data: any): void {
+    const ack = this.pendingAcks.get(data.callbackId);
+    if (!ack) {
+      defaultLogger.debug(`Acknowledgement desconocido o expirado: ${data.callbackId}`, {});
+      return;
+    }
+
+    this.pendingAcks.delete(data.callbackId);
+    clearTimeout(ack.timeoutId);
+
+    try {
+      if (data.error) {
+        const clientError = this.createAckError(
+          data.error.message || 'Client callback error',
+          data.error.code || 'CLIENT_CALLBACK_ERROR',
+          ack.event,
+          ack.timeout
+        );
+        (clientError as any).originalError = data.error;
+        ack.callback(clientError);
+      } else {
+        ack.callback(null, ...(data.payload || []));
+      }
+    } catch (error) {
+      defaultLogger.error(`Error ejecutando acknowledgement ${data.callbackId}:`, error);
+    }
+  }
+
+  // Rechazar un acknowledgement pendiente con un error
+  private rejectAck(callbackId: string, error: Error): void {
+    const ack = this.pendingAcks.get(callbackId);
+    if (!ack) return;
+
+    this.pendingAcks.delete(callbackId);
+    clearTimeout(ack.timeoutId);
+    (error as any).callbackId = callbackId;
+    (error as any).elapsedTime = Date.now() - ack.timestamp;
+
+    try {
+      ack.callback(error);
+    } catch (callbackError) {
+      defaultLogger.error(`Error ejecutando acknowledgement ${callbackId}:`, callbackError);
+    }
+  }
+
+  // Rechazar todos los acknowledgements pendientes al desconectar
+  private cleanupPendingAcks(): void {
+    Array.from(this.pendingAcks.entries()).forEach(([callbackId, ack]) => {
+      this.rejectAck(
+        callbackId,
+        this.createAckError('Socket disconnected', 'SOCKET_DISCONNECTED', ack.event, ack.timeout)
+      );
+    });
+  }
+
+  private createAckError(message: string, code: string, event: string, timeout: number): Error {
+    const error = new Error(message);
+    (error as any).code = code;
+    (error as any).type = 'CallbackError';
+    (error as any).event = event;
+    (error as any).timeout = timeout;
+    (error as any).socketId = this.id;
+    (error as any).timestamp = Date.now();
+    return error;
+  }
+
+  // Obtener el número de acknowledgements pendientes
+  getPendingAcksCount(): number {
+    return this.pendingAcks.size;
+  }
+
   // Método de envío simple como fallback
   private sendSimpleMessage(event: string, args: any[]): boolean {
     try {
       // Formato más simple para mejor compatibilidad
-      const simpleMessage = JSON.stringify({
+      this.sendPacket({
         type: event,
         data: args.length === 1 ? args[0] : args
       });
-      this.ws.send(simpleMessage);
       this.lastActivity = Date.now();
       return true;
     } catch (error) {
@@ -362,19 +958,97 @@ export class SocketIOLikeSocket extends EventEmitter implements ISocket {
     }
   }
 
-  // Unirse a una sala
-  join(room: string): this {
-    this.rooms.add(room);
-    this.server.addToRoom(room, this.id);
-    this.namespace.addToRoom(room, this.id);
-    defaultLogger.info(`Socket ${this.id} se unió a la sala ${room}`, {});
+  // Unirse a una sala (encadenable). Para saber si se rechazó la entrada se
+  // usa tryJoin
+  join(room: string, options: JoinOptions = {}): this {
+    this.tryJoin(room, options);
     return this;
   }
 
+  // Unirse a una sala; el resultado indica por qué se rechazó la entrada
+  // (sala llena, privada sin invitación o con auth obligatorio). Con replay
+  // se reenvían al socket los broadcasts guardados en el historial de la sala
+  tryJoin(room: string, options: JoinOptions = {}): JoinResult {
+    const result = this.namespace.addToRoom(room, this.id);
+    if (result.joined) {
+      this.rooms.add(room);
+      defaultLogger.info(`Socket ${this.id} se unió a la sala ${room}`, {});
+      if (options.replay !== undefined && options.replay !== false) {
+        this.replayHistory(room, options.replay);
+      }
+    }
+    return result;
+  }
+
+  // Reenviar el historial de una sala en orden (sin los broadcasts propios,
+  // que el socket no recibió en su momento)
+  private replayHistory(
+    room: string,
+    replay: true | number | HistoryQuery
+  ): void {
+    let query: HistoryQuery = {};
+    if (typeof replay === 'number') {
+      query = { limit: replay };
+    } else if (replay !== true) {
+      query = replay;
+    }
+    const send = (entries: HistoryEntry[]) => {
+      entries
+        .filter(entry => entry.sender !== this.id)
+        .forEach(entry => this.emit(entry.event, ...entry.args));
+    };
+
+    try {
+      const entries = this.server.historyStore.get(
+        this.namespace.name,
+        room,
+        query
+      );
+      // Con un store síncrono el historial llega antes que los broadcasts nuevos
+      if (Array.isArray(entries)) {
+        send(entries);
+      } else {
+        entries.then(send, error => {
+          defaultLogger.error(`Error leyendo el historial de ${room}:`, error);
+        });
+      }
+    } catch (error) {
+      defaultLogger.error(`Error leyendo el historial de ${room}:`, error);
+    }
+  }
+
+  // Responder la petición de historial del cliente (getHistory); solo se
+  // puede leer el historial de las salas del socket
+  private handleHistoryRequest(data: any, callback?: Function): void {
+    if (!callback) return;
+    const [room, query] = data.payload;
+    if (typeof room !== 'string' || !this.rooms.has(room)) {
+      const error = new Error(`Socket is not in room ${room}`);
+      (error as any).code = 'NOT_IN_ROOM';
+      (error as any).type = 'ClientError';
+      (error as any).data = { room };
+      this.sendErrorAck(data.callbackId, error);
+      return;
+    }
+
+    Promise.resolve()
+      .then(() =>
+        this.server.historyStore.get(this.namespace.name, room, query || {})
+      )
+      .then(entries => callback(entries))
+      .catch(error => {
+        defaultLogger.error(`Error leyendo el historial de ${room}:`, error);
+        const historyError = new Error('Room history unavailable');
+        (historyError as any).code = 'HISTORY_UNAVAILABLE';
+        (historyError as any).type = 'ServerError';
+        (historyError as any).data = { room };
+        this.sendErrorAck(data.callbackId, historyError);
+      });
+  }
+
   // Salir de una sala
   leave(room: string): this {
     this.rooms.delete(room);
-    this.server.removeFromRoom(room, this.id);
     this.namespace.removeFromRoom(room, this.id);
     defaultLogger.info(`Socket ${this.id} salió de la sala ${room}`, {});
     return this;
@@ -387,16 +1061,15 @@ export class SocketIOLikeSocket extends EventEmitter implements ISocket {
 
   // Join room with metadata
   joinWithMetadata(room: string, metadata?: any): this {
-    this.join(room);
-    if (metadata) {
-      this.server.setRoomMetadata(room, metadata);
+    if (this.tryJoin(room).joined && metadata) {
+      this.namespace.setRoomMetadata(room, metadata);
     }
     return this;
   }
 
   // Get room metadata
   getRoomMetadata(room: string): any {
-    const metadata = this.server.getRoomMetadata(room);
+    const metadata = this.namespace.getRoomMetadata(room);
     return metadata?.metadata;
   }
 
@@ -405,53 +1078,29 @@ export class SocketIOLikeSocket extends EventEmitter implements ISocket {
     return this.rooms.has(room);
   }
 
-  // Emitir a una sala específica
-  to(room: string): BroadcastOperator {
-    const self = this;
-    return {
-      emit: (event: string, ...args: any[]) => {
-        self.server.broadcastToRoom(room, event, args, self.id);
-        return true;
-      },
-      to: (nextRoom: string | string[]) => self.to(Array.isArray(nextRoom) ? nextRoom[0] : nextRoom),
-      in: (nextRoom: string | string[]) => self.to(Array.isArray(nextRoom) ? nextRoom[0] : nextRoom),
-      except: (excludeRoom: string | string[]) => self.except(Array.isArray(excludeRoom) ? excludeRoom[0] : excludeRoom),
-      compress: (compress: boolean) => self.to(room),
-      timeout: (timeout: number) => self.to(room),
-      volatile: self.to(room),
-      local: self.to(room)
-    };
+  // Emitir a una sala específica (excluyendo a este socket)
+  to(room: string | string[]): BroadcastOperator {
+    const rooms = Array.isArray(room) ? room : [room];
+    return this.server.createBroadcastOperator(rooms, [], {
+      exceptSockets: [this.id],
+      namespace: this.namespace.name,
+      sender: this.id,
+    });
   }
 
   // Alias for to()
-  in(room: string): BroadcastOperator {
+  in(room: string | string[]): BroadcastOperator {
     return this.to(room);
   }
 
-  // Broadcast to all except specific room
-  except(room: string): BroadcastOperator {
-    const self = this;
-    return {
-      emit: (event: string, ...args: any[]) => {
-        // Get all users except those in the excluded room
-        const excludedUsers = self.server.getUsersInRoom(room);
-        const excludedIds = new Set(excludedUsers.map(user => user.id));
-        
-        self.server.getAllUsers().forEach((user, id) => {
-          if (id !== self.id && !excludedIds.has(id) && user.socket.isAlive()) {
-            user.socket.emit(event, ...args);
-          }
-        });
-        return true;
-      },
-      to: (nextRoom: string | string[]) => self.to(Array.isArray(nextRoom) ? nextRoom[0] : nextRoom),
-      in: (nextRoom: string | string[]) => self.to(Array.isArray(nextRoom) ? nextRoom[0] : nextRoom),
-      except: (excludeRoom: string | string[]) => self.except(Array.isArray(excludeRoom) ? excludeRoom[0] : excludeRoom),
-      compress: (compress: boolean) => self.except(room),
-      timeout: (timeout: number) => self.except(room),
-      volatile: self.except(room),
-      local: self.except(room)
-    };
+  // Broadcast to all except specific room (and this socket)
+  except(room: string | string[]): BroadcastOperator {
+    const rooms = Array.isArray(room) ? room : [room];
+    return this.server.createBroadcastOperator([], rooms, {
+      exceptSockets: [this.id],
+      namespace: this.namespace.name,
+      sender: this.id,
+    });
   }
 
   // Método disconnect
@@ -459,7 +1108,25 @@ export class SocketIOLikeSocket extends EventEmitter implements ISocket {
     if (this.isConnected) {
       this.isConnected = false;
       try {
-        this.ws.close(1000, 'Normal closure');
+        if (this.codec && this.ws.readyState === WebSocket.OPEN) {
+          this.ws.send(this.codec.encodeDisconnect(this.namespace.name));
+          this.closeNamespace('Normal closure');
+        } else {
+          this.ws.close(1000, 'Normal closure');
+        }
+      } catch (error) {
+        defaultLogger.error(`Error cerrando WebSocket ${this.id}:`, error);
+      }
+    }
+    return this;
+  }
+
+  // Cerrar la conexión con un código de cierre (p. ej. 1008 'Policy violation');
+  // el cliente no reconecta con los códigos de error de protocolo o política
+  closeConnection(code: number, reason: string): this {
+    if (this.isConnected) {
+      try {
+        this.ws.close(code, reason);
       } catch (error) {
         defaultLogger.error(`Error cerrando WebSocket ${this.id}:`, error);
       }
@@ -471,7 +1138,12 @@ export class SocketIOLikeSocket extends EventEmitter implements ISocket {
   ping(data?: Buffer): void {
     if (this.isConnected && this.ws.readyState === WebSocket.OPEN) {
       try {
-        this.ws.ping(data);
+        // Engine.IO usa paquetes ping/pong propios en lugar de los de WebSocket
+        if (this.codec) {
+          this.ws.send(this.codec.encodePing());
+        } else {
+          this.ws.ping(data);
+        }
         this.lastActivity = Date.now();
       } catch (error) {
         defaultLogger.error(`Error enviando ping a WebSocket ${this.id}:`, error);
@@ -479,22 +1151,87 @@ export class SocketIOLikeSocket extends EventEmitter implements ISocket {
     }
   }
 
+  // Heartbeat: enviar un ping y esperar el pong dentro de pingTimeout
+  heartbeat(pingTimeout: number): void {
+    // Todavía hay un ping pendiente de respuesta
+    if (this.heartbeatTimeout || !this.isAlive()) {
+      return;
+    }
+
+    this.pingSentAt = Date.now();
+    this.ping();
+    this.heartbeatTimeout = setTimeout(() => {
+      this.heartbeatTimeout = null;
+      this.handlePingTimeout(pingTimeout);
+    }, pingTimeout);
+  }
+
+  // Pong recibido: medir latencia y actualizar la actividad del usuario
+  private handleHeartbeatPong(): void {
+    if (this.heartbeatTimeout) {
+      clearTimeout(this.heartbeatTimeout);
+      this.heartbeatTimeout = null;
+    }
+
+    const user = this.server.getUser(this.id);
+    if (user) {
+      user.lastActivity = this.lastPong;
+    }
+
+    if (this.pingSentAt !== null) {
+      this.latency = this.lastPong - this.pingSentAt;
+      this.pingSentAt = null;
+      this.emitter.emit('latency', this.latency);
+      super.emit('latency', this.latency);
+    }
+  }
+
+  // Conexión medio abierta: no llegó el pong a tiempo
+  private handlePingTimeout(pingTimeout: number): void {
+    defaultLogger.warn(`WebSocket ${this.id} sin pong tras ${pingTimeout}ms, desconectando`, {
+      lastPong: this.lastPong,
+    });
+
+    this.disconnectReason = 'ping timeout';
+    this.isConnected = false;
+    try {
+      // terminate() no espera el cierre ordenado, que nunca llegaría
+      this.ws.terminate();
+    } catch (error) {
+      defaultLogger.error(`Error terminando WebSocket ${this.id}:`, error);
+    }
+  }
+
+  private clearHeartbeat(): void {
+    if (this.heartbeatTimeout) {
+      clearTimeout(this.heartbeatTimeout);
+      this.heartbeatTimeout = null;
+    }
+    this.pingSentAt = null;
+  }
+
   // Información de conexión
   getConnectionInfo(): {
     id: string;
     isConnected: boolean;
     readyState: number;
     lastActivity: number;
+    lastPong: number;
+    latency: number | null;
     connectionDuration: number;
     rooms: string[];
+    stats: SocketStats;
   } {
     return {
       id: this.id,
       isConnected: this.isConnected,
       readyState: this.ws.readyState,
       lastActivity: this.lastActivity,
+      lastPong: this.lastPong,
+      latency: this.latency,
       connectionDuration: Date.now() - this.connectionStartTime,
       rooms: this.getRooms(),
+      stats: { ...this.stats },
     };
   }
 
@@ -516,124 +1253,785 @@ export class SocketIOLikeSocket extends EventEmitter implements ISocket {
 // Servidor principal que maneja múltiples conexiones
 export class SocketIOLikeServer extends EventEmitter {
   private users: Map<string, ConnectedUser> = new Map();
-  private rooms: Map<string, Set<string>> = new Map();
-  private roomMetadata: Map<string, RoomMetadata> = new Map();
   private emitter: Emitter;
   private wss?: WebSocketServer;
   private namespaces: Map<string, Namespace> = new Map();
+  // Namespaces dinámicos de io.of(regex | predicate), por su regex o predicado
+  private parentNamespaces: Map<
+    RegExp | ParentNamespaceMatcher,
+    ParentNamespace
+  > = new Map();
   private defaultNamespace: Namespace;
   private middleware: Array<(socket: SocketIOLikeSocket, next: (err?: Error) => void) => void> = [];
   private eventMiddleware: Array<(socket: SocketIOLikeSocket, event: string, data: any[], next: (err?: Error) => void) => void> = [];
   private useMiddleware: boolean = false;
   public useEventMiddleware: boolean = false;
   public logger = defaultLogger;
+  private options: ExtendedServerOptions;
+  private heartbeatTimer?: NodeJS.Timeout;
+  private sessionStore?: SessionStore;
+  // Sesiones de long-polling activas por sid
+  private pollingTransports: Map<string, PollingTransport> = new Map();
+  // Parser usado por todos los sockets del servidor
+  public readonly parser: Parser;
+  // Protocolo de transporte ('socket.io' para clientes oficiales de Socket.IO)
+  public readonly protocol: 'default' | 'socket.io';
+  // Proxies cuyo X-Forwarded-For se acepta en handshake.address
+  public readonly trustProxy: TrustProxy;
+  // Salas y broadcasts (en memoria o compartidos entre nodos)
+  public readonly adapter: Adapter;
+  // Historial de las salas con config.messageHistory
+  public readonly historyStore: RoomHistoryStore;
+  // Contadores globales de conexiones, mensajes y errores (getServerStats)
+  public readonly statsCollector = new ServerStatsCollector();
+
+  constructor(options: ExtendedServerOptions = {}) {
+    super();
+    this.emitter = new Emitter();
+    this.options = {
+      pingInterval: DEFAULT_PING_INTERVAL,
+      pingTimeout: DEFAULT_PING_TIMEOUT,
+      ...options,
+    };
+
+    this.parser = this.options.parser ?? defaultParser;
+    this.protocol = this.options.protocol ?? 'default';
+    this.trustProxy = this.options.trustProxy ?? false;
+    this.historyStore =
+      this.options.roomHistoryStore ?? new InMemoryHistoryStore();
+    this.adapter = this.options.adapter
+      ? this.options.adapter(this)
+      : new InMemoryAdapter(this);
+    Promise.resolve(this.adapter.init()).catch(error => {
+      defaultLogger.error('Error inicializando el adapter:', error);
+    });
+
+    if (this.options.connectionStateRecovery) {
+      this.sessionStore = new SessionStore(
+        this.options.connectionStateRecovery.maxDisconnectionDuration ??
+          DEFAULT_MAX_DISCONNECTION_DURATION
+      );
+    }
+    
+    this.logger.info('server_created', {message:'SocketIO-like server created'}, {});
+
+    
+    // Create default namespace
+    this.defaultNamespace = new Namespace('/', this);
+    this.namespaces.set('/', this.defaultNamespace);
+    
+    this.logger.debug('default_namespace_created', {message:'Default namespace created'}, {
+      namespaceName: '/'
+    });
+  }
+
+  // Enable maximum compatibility mode (disables complex features)
+  enableMaxCompatibility(): this {
+    this.useMiddleware = false;
+    this.useEventMiddleware = false;
+    this.logger.info('Maximum compatibility mode enabled - middleware disabled', {});
+    return this;
+  }
+
+  // Enable full features mode (enables all features)
+  enableFullFeatures(): this {
+    this.useMiddleware = true;
+    this.useEventMiddleware = true;
+    this.logger.info('Full features mode enabled - all middleware enabled', {});
+    return this;
+  }
+
+  // Inicializar servidor WebSocket con puerto específico
+  // (si no se indica, se usa options.port)
+  listen(port?: number, callback?: () => void): void {
+    const startTime = Date.now();
+    const listenPort = port ?? this.options.port;
+    if (listenPort === undefined) {
+      throw new Error('No port given to listen() and options.port is not set');
+    }
+    const host = this.options.host;
+
+    this.logger.info('server_listen_start', {message:`Starting server on port ${listenPort}`}, { port: listenPort, host });
+
+    this.wss = new WebSocketServer({
+      ...this.getWebSocketServerOptions(),
+      port: listenPort,
+      host,
+    });
+    this.setupWebSocketServer();
+
+    if (callback) {
+      callback();
+    }
+
+    const setupTime = Date.now() - startTime;
+    this.logger.info('server_listening', {message:`Server listening on port ${listenPort}`}, { port: listenPort, host });
+    this.logger.performance('server_startup', setupTime, { port: listenPort });
+  }
+
+  attach(server: any, callback?: () => void): void {
+    const startTime = Date.now();
+    
+    this.logger.info('server_attach_start', {message:'Attaching to existing HTTP server'}, {});
+    
+    this.wss = new WebSocketServer({
+      ...this.getWebSocketServerOptions(),
+      server,
+    });
+    this.setupWebSocketServer();
+    if (this.isTransportEnabled('polling')) {
+      this.attachPolling(server);
+    }
+
+    if (callback) {
+      callback();
+    }
+
+    const setupTime = Date.now() - startTime;
+    this.logger.info('server_attached', {message:'Server attached to HTTP server'}, {});
+
+    this.logger.performance('server_attach', setupTime);
+  }
+
+  // Opciones comunes para `ws` derivadas de ExtendedServerOptions
+  private getWebSocketServerOptions(): WsServerOptions {
+    const wsOptions: WsServerOptions = {
+      ...(this.options.wsOptions || {}),
+      verifyClient: (info, cb) => this.verifyClient(info.req, cb, 'websocket'),
+    };
+
+    const perMessageDeflate = this.options.perMessageDeflate ?? this.options.compression;
+    if (perMessageDeflate !== undefined) {
+      wsOptions.perMessageDeflate = perMessageDeflate;
+    }
+    if (this.options.maxHttpBufferSize !== undefined) {
+      wsOptions.maxPayload = this.options.maxHttpBufferSize;
+    }
+
+    return wsOptions;
+  }
+
+  // Validar el upgrade (o el handshake de polling) antes de aceptar la conexión
+  private verifyClient(
+    request: IncomingMessage,
+    cb: (result: boolean, code?: number, message?: string) => void,
+    transport: 'websocket' | 'polling' = 'websocket'
+  ): void {
+    const parsedUrl = url.parse(request.url || '', true);
+    const pathname = parsedUrl.pathname || '/';
+    if (this.getNamespaceNameFromPath(pathname) === null) {
+      this.logger.warn('connection_rejected', { message: `Path ${pathname} does not match ${this.options.path}` }, {});
+      cb(false, 404, 'Not Found');
+      return;
+    }
+
+    if (!this.isTransportEnabled(transport)) {
+      this.logger.warn(
+        'connection_rejected',
+        { message: `Transport ${transport} is disabled` },
+        {}
+      );
+      cb(false, 400, 'Bad Request');
+      return;
+    }
+
+    // Upgrade de una sesión de polling: ya cuenta como conexión
+    const sid = parsedUrl.query.sid;
+    if (transport === 'websocket' && sid !== undefined) {
+      if (
+        this.options.allowUpgrades === false ||
+        typeof sid !== 'string' ||
+        !this.pollingTransports.has(sid)
+      ) {
+        this.logger.warn(
+          'connection_rejected',
+          { message: 'Invalid upgrade session' },
+          {}
+        );
+        cb(false, 400, 'Bad Request');
+        return;
+      }
+      cb(true);
+      return;
+    }
+
+    const origin = request.headers.origin;
+    checkOrigin(origin, this.options.cors?.origin, (err, allowed) => {
+      if (!allowed) {
+        this.rejectRequest(
+          cb,
+          err
+            ? `Origin check failed: ${err.message}`
+            : `Origin ${origin} is not allowed`
+        );
+        return;
+      }
+
+      this.allowRequest(request, (reason, success) => {
+        if (!success) {
+          this.rejectRequest(cb, reason || 'Request denied by allowRequest');
+          return;
+        }
+
+        const maxConnections = this.options.maxConnections;
+        if (
+          maxConnections !== undefined &&
+          this.getConnectionCount() >= maxConnections
+        ) {
+          this.logger.warn(
+            'connection_rejected',
+            { message: `Max connections reached (${maxConnections})` },
+            {}
+          );
+          cb(false, 503, 'Service Unavailable');
+          return;
+        }
+
+        cb(true);
+      });
+    });
+  }
+
+  // Conexiones físicas abiertas: WebSockets (también los de sesiones de
+  // polling actualizadas) y sesiones de polling activas. Un socket puede no
+  // existir aún (handshake pendiente) o compartir la conexión con otros
+  private getConnectionCount(): number {
+    let polling = 0;
+    this.pollingTransports.forEach(transport => {
+      if (!transport.upgraded && transport.readyState === WebSocket.OPEN) {
+        polling++;
+      }
+    });
+    return (this.wss?.clients.size ?? 0) + polling;
+  }
+
+  // Hook allowRequest de las opciones (sin hook se acepta la petición)
+  private allowRequest(
+    request: IncomingMessage,
+    callback: (err: string | null | undefined, success: boolean) => void
+  ): void {
+    const allowRequest = this.options.allowRequest;
+    if (!allowRequest) {
+      callback(null, true);
+      return;
+    }
+    try {
+      allowRequest(request, callback);
+    } catch (error) {
+      callback(`allowRequest failed: ${(error as Error).message}`, false);
+    }
+  }
+
+  // Rechazar un handshake no autorizado (origen o allowRequest) con un 403
+  private rejectRequest(
+    cb: (result: boolean, code?: number, message?: string) => void,
+    reason: string
+  ): void {
+    this.logger.warn('connection_rejected', { message: reason }, {});
+    cb(false, 403, 'Forbidden');
+  }
+
+  // Obtener el namespace a partir del path, quitando el prefijo options.path.
+  // Devuelve null si el path no pertenece al servidor.
+  private getNamespaceNameFromPath(pathname: string): string | null {
+    const basePath = (this.options.path || '').replace(/\/+$/, '');
+    if (!basePath) {
+      return pathname || '/';
+    }
+
+    if (pathname !== basePath && !pathname.startsWith(`${basePath}/`)) {
+      return null;
+    }
+
+    return pathname.slice(basePath.length) || '/';
+  }
+
+  private isTransportEnabled(transport: 'websocket' | 'polling'): boolean {
+    return (this.options.transports ?? DEFAULT_TRANSPORTS).includes(transport);
+  }
+
+  // Transportes a los que puede pasar una sesión de polling
+  private getUpgrades(): string[] {
+    return this.options.allowUpgrades !== false &&
+      this.isTransportEnabled('websocket')
+      ? ['websocket']
+      : [];
+  }
+
+  private createOpenData(sid: string, upgrades: string[]): EngineOpenData {
+    return {
+      sid,
+      upgrades,
+      pingInterval: this.options.pingInterval!,
+      pingTimeout: this.options.pingTimeout!,
+      maxPayload: this.options.maxHttpBufferSize ?? DEFAULT_MAX_PAYLOAD,
+    };
+  }
+
+  // Montar el transporte long-polling en el servidor HTTP. Las peticiones que
+  // no son de polling se pasan a los listeners 'request' que ya tenía.
+  private attachPolling(server: HttpServer): void {
+    // Solo servidores HTTP de Node (attach acepta cualquier objeto)
+    if (typeof server?.listeners !== 'function') return;
+
+    const listeners = server.listeners('request').slice(0);
+    server.removeAllListeners('request');
+    server.on('request', (req: IncomingMessage, res: ServerResponse) => {
+      if (this.handlePollingRequest(req, res)) {
+        return;
+      }
+      listeners.forEach(listener => listener.call(server, req, res));
+    });
+  }
+
+  // Atender una petición de polling; devuelve false si no es para el servidor
+  private handlePollingRequest(
+    req: IncomingMessage,
+    res: ServerResponse
+  ): boolean {
+    const parsedUrl = url.parse(req.url || '', true);
+    const namespaceName = this.getNamespaceNameFromPath(
+      parsedUrl.pathname || '/'
+    );
+    if (namespaceName === null || parsedUrl.query.transport !== 'polling') {
+      return false;
+    }
+
+    const sid = parsedUrl.query.sid;
+    if (sid !== undefined) {
+      const transport =
+        typeof sid === 'string' ? this.pollingTransports.get(sid) : undefined;
+      if (transport) {
+        transport.handleRequest(req, res);
+      } else {
+        sendError(res, 400, 'Session ID unknown');
+      }
+      return true;
+    }
+
+    if (req.method !== 'GET') {
+      sendError(res, 400, 'Bad handshake method');
+      return true;
+    }
+
+    this.verifyClient(
+      req,
+      (result, code, message) => {
+        if (!result) {
+          sendError(res, code ?? 400, message ?? 'Bad Request');
+          return;
+        }
+        this.openPollingSession(req, res, namespaceName);
+      },
+      'polling'
+    );
+    return true;
+  }
+
+  // Handshake de polling: crear la sesión y responder con el paquete open
+  private openPollingSession(
+    req: IncomingMessage,
+    res: ServerResponse,
+    namespaceName: string
+  ): void {
+    const sid = nanoid();
+    const transport = new PollingTransport(sid, {
+      maxHttpBufferSize: this.options.maxHttpBufferSize,
+      noopFrame: this.protocol === 'socket.io' ? '6' : undefined,
+      onDispose: () => this.pollingTransports.delete(sid),
+    });
+    this.pollingTransports.set(sid, transport);
+
+    // PollingTransport implementa la parte de la API de `ws` que usa el socket
+    const ws = transport as unknown as WebSocket;
+    if (this.protocol === 'socket.io') {
+      this.handleSocketIOHandshake(ws, req, sid, this.getUpgrades());
+    } else {
+      transport.send(
+        encodeOpenPacket(this.createOpenData(sid, this.getUpgrades()))
+      );
+      this.handleConnectPacket(ws, req, namespaceName);
+    }
+
+    transport.handleRequest(req, res);
+  }
+
+  // Upgrade de una sesión de polling a WebSocket: sondeo ('2probe' / '3probe')
+  // y confirmación ('5'), igual que Engine.IO
+  private handleUpgrade(ws: WebSocket, sid: string): void {
+    const transport = this.pollingTransports.get(sid);
+    if (!transport || transport.upgraded) {
+      ws.close(1008, 'Session ID unknown');
+      return;
+    }
+
+    const upgradeTimeout = setTimeout(() => {
+      ws.close(1000, 'Upgrade timeout');
+    }, DEFAULT_UPGRADE_TIMEOUT);
+    // La sesión se cerró antes de completar el upgrade
+    const onTransportClose = () => ws.close(1000, 'Session closed');
+    transport.once('close', onTransportClose);
+
+    const onMessage = (message: RawData) => {
+      const data = message.toString();
+      if (data === '2probe') {
+        ws.send('3probe');
+        // El cliente espera a que termine el GET en curso antes de confirmar
+        transport.releasePoll();
+        return;
+      }
+
+      ws.off('message', onMessage);
+      transport.off('close', onTransportClose);
+      clearTimeout(upgradeTimeout);
+      if (data === '5') {
+        transport.upgrade(ws);
+      } else {
+        ws.close(1002, 'Invalid upgrade packet');
+      }
+    };
+
+    ws.on('message', onMessage);
+    ws.once('close', () => {
+      clearTimeout(upgradeTimeout);
+      transport.off('close', onTransportClose);
+    });
+  }
+
+  private setupWebSocketServer(): void {
+    if (!this.wss) return;
+
+    this.startHeartbeat();
+
+    this.wss.on('connection', (ws: WebSocket, request: any) => {
+      // Upgrade de una sesión de long-polling existente
+      const sid = url.parse(request.url || '', true).query.sid;
+      if (typeof sid === 'string') {
+        this.handleUpgrade(ws, sid);
+        return;
+      }
+
+      // En modo socket.io el namespace llega en el paquete CONNECT
+      if (this.protocol === 'socket.io') {
+        this.handleSocketIOHandshake(ws, request);
+        return;
+      }
+
+      // Extract namespace from URL path (relative to options.path)
+      const parsedUrl = url.parse(request.url || '', true);
+      const namespaceName = this.getNamespaceNameFromPath(parsedUrl.pathname || '/') || '/';
+      this.handleConnectPacket(ws, request, namespaceName);
+    });
+  }
+
+  // Protocolo por defecto: un cliente que anuncia connectPacket en la URL
+  // envía primero 'connect' con su auth, y el socket se crea (y pasa los
+  // middlewares) al recibirlo. Los demás (WebSocket simple, versiones
+  // anteriores del cliente) se conectan al abrir, sin auth
+  private handleConnectPacket(
+    ws: WebSocket,
+    request: any,
+    namespaceName: string
+  ): void {
+    if (!url.parse(request.url || '', true).query.connectPacket) {
+      this.connectSocket(ws, request, namespaceName);
+      return;
+    }
+    const decoder = this.parser.createDecoder();
+
+    const connectTimeout = setTimeout(() => {
+      this.logger.warn(
+        'connection_rejected',
+        { message: 'No connect packet received' },
+        {}
+      );
+      ws.close(1000, 'Connect timeout');
+    }, this.options.connectionTimeout ?? DEFAULT_CONNECT_TIMEOUT);
+
+    const onMessage = (message: RawData, isBinary?: boolean) => {
+      let packet: Packet | null;
+      try {
+        packet = decoder.add(isBinary ? toBuffer(message) : message.toString());
+      } catch (error) {
+        defaultLogger.error('Error al parsear el paquete connect:', error);
+        ws.off('message', onMessage);
+        clearTimeout(connectTimeout);
+        ws.close(1002, 'Parse error');
+        return;
+      }
+      // Faltan attachments binarios del paquete
+      if (!packet) return;
+
+      ws.off('message', onMessage);
+      clearTimeout(connectTimeout);
+      // Otro paquete: conexión anónima y el paquete se procesa como evento
+      if (packet.event !== 'connect') {
+        this.connectSocket(ws, request, namespaceName, {}, packet);
+        return;
+      }
 
-  constructor() {
-    super();
-    this.emitter = new Emitter();
-    
-    this.logger.info('server_created', {message:'SocketIO-like server created'}, {});
+      const auth = packet.payload?.[0];
+      this.connectSocket(
+        ws,
+        request,
+        namespaceName,
+        auth && typeof auth === 'object' ? auth : {}
+      );
+    };
 
-    
-    // Create default namespace
-    this.defaultNamespace = new Namespace('/');
-    this.namespaces.set('/', this.defaultNamespace);
-    
-    this.logger.debug('default_namespace_created', {message:'Default namespace created'}, {
-      namespaceName: '/'
-    });
+    ws.on('message', onMessage);
+    ws.once('close', () => clearTimeout(connectTimeout));
   }
 
-  // Enable maximum compatibility mode (disables complex features)
-  enableMaxCompatibility(): this {
-    this.useMiddleware = false;
-    this.useEventMiddleware = false;
-    this.logger.info('Maximum compatibility mode enabled - middleware disabled', {});
-    return this;
-  }
+  // Modo socket.io: enviar el handshake de Engine.IO y esperar el CONNECT
+  private handleSocketIOHandshake(
+    ws: WebSocket,
+    request: any,
+    sid: string = nanoid(),
+    upgrades: string[] = []
+  ): void {
+    const codec = new SocketIOCodec(SERVER_ACK_PREFIX);
+    ws.send(codec.encodeOpen(this.createOpenData(sid, upgrades)));
 
-  // Enable full features mode (enables all features)
-  enableFullFeatures(): this {
-    this.useMiddleware = true;
-    this.useEventMiddleware = true;
-    this.logger.info('Full features mode enabled - all middleware enabled', {});
-    return this;
-  }
+    const connectTimeout = setTimeout(() => {
+      this.logger.warn(
+        'connection_rejected',
+        { message: 'No CONNECT packet received' },
+        {}
+      );
+      ws.close(1000, 'Connect timeout');
+    }, this.options.connectionTimeout ?? DEFAULT_CONNECT_TIMEOUT);
 
-  // Inicializar servidor WebSocket con puerto específico
-  listen(port: number, callback?: () => void): void {
-    const startTime = Date.now();
-    
-    this.logger.info('server_listen_start', {message:`Starting server on port ${port}`}, { port });
-    
-    this.wss = new WebSocketServer({ port });
-    this.setupWebSocketServer();
+    // Bytes de los frames del paquete en curso (attachments incluidos)
+    let pendingBytes = 0;
+    const onMessage = (message: RawData, isBinary?: boolean) => {
+      let protocolMessage: ProtocolMessage | null;
+      try {
+        const frame = isBinary ? toBuffer(message) : message.toString();
+        pendingBytes += frameSize(frame);
+        protocolMessage = codec.decode(frame);
+      } catch (error) {
+        defaultLogger.error(
+          'Error al parsear el handshake de Socket.IO:',
+          error
+        );
+        ws.close(1002, 'Parse error');
+        return;
+      }
 
-    if (callback) {
-      callback();
+      if (!protocolMessage) return;
+      const bytes = pendingBytes;
+      pendingBytes = 0;
+      const sockets = connectionSockets.get(ws);
+
+      switch (protocolMessage.type) {
+        case 'connect':
+          // Cada CONNECT abre un namespace más sobre la misma conexión
+          if (sockets?.has(protocolMessage.nsp)) {
+            this.logger.warn(
+              'connection_rejected',
+              { message: `Namespace ${protocolMessage.nsp} already connected` },
+              {}
+            );
+            return;
+          }
+          clearTimeout(connectTimeout);
+          this.connectSocket(
+            ws,
+            request,
+            protocolMessage.nsp,
+            protocolMessage.data
+          );
+          return;
+        case 'ping':
+          ws.send(codec.encodePong());
+          break;
+        case 'packet':
+        case 'disconnect':
+          sockets
+            ?.get(protocolMessage.nsp)
+            ?.handleProtocolMessage(protocolMessage, bytes);
+          return;
+        default:
+          break;
+      }
+      // Paquetes de Engine.IO: afectan a todos los namespaces de la conexión
+      sockets?.forEach(socket =>
+        socket.handleProtocolMessage(protocolMessage!)
+      );
+    };
+
+    ws.on('message', onMessage);
+    ws.once('close', () => clearTimeout(connectTimeout));
+  }
+
+  // Buscar el namespace de una conexión; los desconocidos solo se crean si
+  // algún namespace dinámico los acepta
+  private connectSocket(
+    ws: WebSocket,
+    request: any,
+    namespaceName: string,
+    connectData?: any,
+    firstPacket?: Packet
+  ): void {
+    const namespace = this.namespaces.get(namespaceName);
+    if (namespace) {
+      this.acceptSocket(ws, request, namespace, connectData, firstPacket);
+      return;
     }
 
-    const setupTime = Date.now() - startTime;
-    this.logger.info('server_listening', {message:`Server listening on port ${port}`}, { port });
-    this.logger.performance('server_startup', setupTime, { port });
+    this.matchParentNamespace(namespaceName, connectData || {}).then(parent => {
+      if (ws.readyState !== WebSocket.OPEN) return;
+      if (!parent) {
+        this.rejectNamespace(ws, namespaceName);
+        return;
+      }
+      // Otra conexión puede haber creado el hijo mientras tanto
+      let child = this.namespaces.get(namespaceName);
+      if (!child) {
+        child = parent.createChild(namespaceName);
+        this.namespaces.set(namespaceName, child);
+        defaultLogger.info(
+          `Namespace created: ${namespaceName} (from ${parent.name})`,
+          {}
+        );
+      }
+      this.acceptSocket(ws, request, child, connectData, firstPacket);
+    });
   }
 
-  attach(server: any, callback?: () => void): void {
-    const startTime = Date.now();
-    
-    this.logger.info('server_attach_start', {message:'Attaching to existing HTTP server'}, {});
-    
-    this.wss = new WebSocketServer({ server });
-    this.setupWebSocketServer();
+  // Probar los namespaces dinámicos en orden de registro
+  private matchParentNamespace(
+    namespaceName: string,
+    auth: any
+  ): Promise<ParentNamespace | undefined> {
+    const parents = Array.from(this.parentNamespaces.values());
+    return new Promise(resolve => {
+      let index = 0;
 
-    if (callback) {
-      callback();
-    }
+      const next = () => {
+        if (index >= parents.length) {
+          resolve(undefined);
+          return;
+        }
 
-    const setupTime = Date.now() - startTime;
-    this.logger.info('server_attached', {message:'Server attached to HTTP server'}, {});
+        const parent = parents[index++];
+        try {
+          parent.matcher(namespaceName, auth, (err, allowed) => {
+            if (err || !allowed) {
+              next();
+            } else {
+              resolve(parent);
+            }
+          });
+        } catch (error) {
+          defaultLogger.error(
+            `Error en el matcher del namespace ${parent.name}:`,
+            error
+          );
+          next();
+        }
+      };
 
-    this.logger.performance('server_attach', setupTime);
+      next();
+    });
   }
 
-  private setupWebSocketServer(): void {
-    if (!this.wss) return;
+  // Rechazar una conexión a un namespace que no existe (CONNECT_ERROR)
+  private rejectNamespace(ws: WebSocket, namespaceName: string): void {
+    this.logger.warn(
+      'connection_rejected',
+      { message: `Invalid namespace ${namespaceName}` },
+      {}
+    );
+    if (this.protocol === 'socket.io') {
+      const codec = new SocketIOCodec(SERVER_ACK_PREFIX);
+      ws.send(codec.encodeConnectError(namespaceName, 'Invalid namespace'));
+      // Los demás namespaces de la conexión siguen abiertos
+      if (connectionSockets.get(ws)?.size) return;
+    } else {
+      // El mismo paquete 'connect_error' que el rechazo de los middlewares
+      this.parser
+        .encode({
+          event: 'connect_error',
+          payload: [{ message: 'Invalid namespace' }],
+        })
+        .forEach(frame => ws.send(frame as any));
+    }
+    ws.close(1008, 'Invalid namespace');
+  }
+
+  // Crear el socket de una conexión aceptada y ejecutar los middlewares
+  // firstPacket: evento recibido en lugar del paquete 'connect', que se
+  // procesa cuando los handlers de 'connection' ya están registrados
+  private acceptSocket(
+    ws: WebSocket,
+    request: any,
+    namespace: Namespace,
+    connectData?: any,
+    firstPacket?: Packet
+  ): void {
+    const namespaceName = namespace.name;
+    const socket = new SocketIOLikeSocket(ws, request, this, namespace, connectData);
+    defaultLogger.info(`Nueva conexión WebSocket: ${socket.id} en namespace ${namespaceName}`, {});
+
+    // Las sesiones recuperadas ya pasaron los middlewares (skipMiddlewares)
+    const skipMiddlewares =
+      socket.recovered && this.options.connectionStateRecovery?.skipMiddlewares !== false;
+
+    // Execute server middleware first, then namespace middleware
+    (skipMiddlewares ? Promise.resolve() : this.executeServerMiddleware(socket))
+      .then(() => namespace.addSocket(socket, skipMiddlewares))
+      .then(() => {
+        // Emitir evento de conexión en el servidor principal
+        this.emitter.emit('connection', socket);
+        super.emit('connection', socket);
+        if (firstPacket) {
+          socket.handleProtocolMessage({
+            type: 'packet',
+            nsp: namespaceName,
+            packet: firstPacket,
+          });
+        }
+      })
+      .catch(error => {
+        defaultLogger.error(`Error in middleware chain for socket ${socket.id}:`, error);
+        // Emit connection error on server
+        this.emitter.emit('connect_error', error, socket);
+        super.emit('connect_error', error, socket);
+        socket.rejectConnection(error);
+      });
+  }
 
-    this.wss.on('connection', (ws: WebSocket, request: any) => {
-      // Extract namespace from URL path
-      const parsedUrl = url.parse(request.url || '', true);
-      const namespaceName = parsedUrl.pathname || '/';
-      
-      // Get or create namespace
-      let namespace = this.namespaces.get(namespaceName);
-      if (!namespace) {
-        namespace = new Namespace(namespaceName);
-        this.namespaces.set(namespaceName, namespace);
-      }
+  // Heartbeat del servidor: ping periódico a cada socket
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+
+    const pingInterval = this.options.pingInterval!;
+    const pingTimeout = this.options.pingTimeout!;
+    if (pingInterval <= 0) {
+      return;
+    }
 
-      const socket = new SocketIOLikeSocket(ws, request, this, namespace);
-      defaultLogger.info(`Nueva conexión WebSocket: ${socket.id} en namespace ${namespaceName}`, {});
+    this.heartbeatTimer = setInterval(() => {
+      this.users.forEach(user => {
+        user.socket.heartbeat(pingTimeout);
+      });
+    }, pingInterval);
 
-      // Execute server middleware first, then namespace middleware
-      this.executeServerMiddleware(socket)
-        .then(() => {
-          if (!namespace)return;
-          namespace.addSocket(socket)})
-        .then(() => {
-          // Emitir evento de conexión en el servidor principal
-          this.emitter.emit('connection', socket);
-          super.emit('connection', socket);
-        })
-        .catch(error => {
-          defaultLogger.error(`Error in middleware chain for socket ${socket.id}:`, error);
-          // Emit connection error on server
-          this.emitter.emit('connect_error', error, socket);
-          super.emit('connect_error', error, socket);
-          socket.disconnect();
-        });
+    this.logger.debug('heartbeat_started', { message: 'Server heartbeat started' }, {
+      pingInterval,
+      pingTimeout,
     });
   }
 
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = undefined;
+    }
+  }
+
   // Enable/disable middleware for better compatibility
   enableMiddleware(): this {
     this.useMiddleware = true;
@@ -709,17 +2107,38 @@ export class SocketIOLikeServer extends EventEmitter {
     });
   }
 
-  // Get or create namespace
-  of(namespaceName: string): Namespace {
+  // Get or create namespace. Con una regex o un predicado
+  // `(name, auth, next) => next(null, allowed)` se define un namespace dinámico
+  // cuyos hijos se crean en la primera conexión que aceptan
+  of(namespaceName: string): Namespace;
+  of(matcher: RegExp | ParentNamespaceMatcher): ParentNamespace;
+  of(namespaceName: string | RegExp | ParentNamespaceMatcher): Namespace {
+    if (typeof namespaceName !== 'string') {
+      return this.ofParent(namespaceName);
+    }
+
     let namespace = this.namespaces.get(namespaceName);
     if (!namespace) {
-      namespace = new Namespace(namespaceName);
+      namespace = new Namespace(namespaceName, this);
       this.namespaces.set(namespaceName, namespace);
       defaultLogger.info(`Namespace created: ${namespaceName}`, {});
     }
     return namespace;
   }
 
+  private ofParent(matcher: RegExp | ParentNamespaceMatcher): ParentNamespace {
+    let parent = this.parentNamespaces.get(matcher);
+    if (!parent) {
+      const match: ParentNamespaceMatcher =
+        matcher instanceof RegExp
+          ? (name, _auth, next) => next(null, matcher.test(name))
+          : matcher;
+      parent = new ParentNamespace(match, this);
+      this.parentNamespaces.set(matcher, parent);
+    }
+    return parent;
+  }
+
   // Verificar si un ID está disponible (thread-safe mejorado)
   private isIdAvailable(id: string): boolean {
     return !this.users.has(id);
@@ -745,6 +2164,91 @@ export class SocketIOLikeServer extends EventEmitter {
     return id;
   }
 
+  // Connection state recovery: crear el pid de una sesión nueva
+  // (undefined si connectionStateRecovery no está habilitado)
+  public createSessionId(): string | undefined {
+    return this.sessionStore ? nanoid() : undefined;
+  }
+
+  // Connection state recovery: obtener la sesión guardada para un pid
+  public restoreSession(pid: unknown, namespace: string): RecoverableSession | undefined {
+    if (!this.sessionStore || typeof pid !== 'string') {
+      return undefined;
+    }
+
+    const session = this.sessionStore.take(pid);
+    // El id no puede reutilizarse si sigue en uso
+    if (!session || session.namespace !== namespace || this.users.has(session.sid)) {
+      return undefined;
+    }
+    return session;
+  }
+
+  // Connection state recovery: guardar el estado de un socket desconectado
+  public saveSession(socket: SocketIOLikeSocket): void {
+    if (!this.sessionStore || !socket.pid) {
+      return;
+    }
+
+    this.sessionStore.save({
+      pid: socket.pid,
+      sid: socket.id,
+      namespace: socket.nsp.name,
+      rooms: socket.getRooms(),
+      data: socket.data,
+      stats: { ...socket.stats },
+    });
+  }
+
+  // Connection state recovery: guardar un broadcast para las sesiones desconectadas
+  public recordMissedPacket(target: BroadcastTarget, event: string, args: any[]): void {
+    this.sessionStore?.recordPacket(target, event, args);
+  }
+
+  // Contar un broadcast en las estadísticas de las salas de destino y
+  // guardarlo en el historial de las que lo tienen habilitado
+  // (config.messageHistory)
+  public recordRoomBroadcast(
+    target: BroadcastTarget,
+    packet: BroadcastPacket
+  ): void {
+    const namespace = this.namespaces.get(target.namespace ?? '/');
+    if (!namespace || target.namespace === undefined) return;
+
+    const timestamp = Date.now();
+    target.rooms.forEach(room => {
+      const metadata = namespace.getRoomMetadata(room);
+      if (metadata?.stats) {
+        recordRoomMessage(metadata.stats);
+      }
+      const config = metadata?.config;
+      if (!config?.messageHistory) return;
+      const entry: HistoryEntry = {
+        event: packet.event,
+        args: packet.args,
+        sender: packet.sender,
+        timestamp,
+      };
+      const onError = (error: unknown) => {
+        defaultLogger.error(`Error guardando el historial de ${room}:`, error);
+      };
+      // Un store síncrono guarda la entrada antes de volver
+      try {
+        const result = this.historyStore.append(
+          namespace.name,
+          room,
+          entry,
+          config.maxMessageHistory ?? DEFAULT_MAX_MESSAGE_HISTORY
+        );
+        if (result) {
+          result.catch(onError);
+        }
+      } catch (error) {
+        onError(error);
+      }
+    });
+  }
+
   // Método simple para verificar existencia de usuario
   public hasUser(id: string): boolean {
     return this.users.has(id);
@@ -767,41 +2271,22 @@ export class SocketIOLikeServer extends EventEmitter {
       socket,
       joinedAt: Date.now(),
       rooms: new Set(),
+      data: socket.data,
       lastActivity: Date.now(),
       connectionState: 'connected',
-      transport: 'websocket',
-      handshake: {
-        query: socket.handshake.query,
-        headers: {},
-        time: new Date().toISOString(),
-        issued: Date.now(),
-        url: '',
-        address: '',
-        xdomain: false,
-        secure: false
-      },
-      stats: {
-        messagesReceived: 0,
-        messagesSent: 0,
-        bytesReceived: 0,
-        bytesSent: 0,
-        errors: 0,
-        reconnections: 0
-      }
+      transport:
+        socket.conn.transport.name === 'polling' ? 'polling' : 'websocket',
+      handshake: { ...socket.handshake },
+      stats: socket.stats,
     };
 
     this.users.set(socket.id, user);
+    this.statsCollector.connectionOpened(this.users.size);
+    this.adapter.addAll(socket.id, []);
     defaultLogger.info(
       `Usuario registrado: ${socket.id}. Total usuarios: ${this.users.size}`,
       {}
     );
-    
-    // Emitir evento de confirmación de registro exitoso
-    socket.emit('user-registered', {
-      id: socket.id,
-      timestamp: Date.now(),
-      totalUsers: this.users.size
-    });
   }
 
   // Desregistrar usuario
@@ -820,6 +2305,8 @@ export class SocketIOLikeServer extends EventEmitter {
       }
 
       this.users.delete(socketId);
+      this.adapter.delAll(socketId);
+      this.statsCollector.connectionClosed(Date.now() - user.joinedAt);
       defaultLogger.info(
         `Usuario desregistrado: ${socketId}. Total usuarios: ${this.users.size}`,
         {}
@@ -827,71 +2314,36 @@ export class SocketIOLikeServer extends EventEmitter {
     }
   }
 
-  // Añadir a sala
-  addToRoom(room: string, socketId: string): void {
-    if (!this.rooms.has(room)) {
-      this.rooms.set(room, new Set());
-      // Create room metadata
-      this.roomMetadata.set(room, {
-        name: room,
-        createdAt: Date.now(),
-        userCount: 0,
-        users: new Set(),
-        metadata: {}
-      });
-    }
-
-    this.rooms.get(room)!.add(socketId);
-    
-    // Update room metadata
-    const metadata = this.roomMetadata.get(room)!;
-    metadata.users.add(socketId);
-    metadata.userCount = metadata.users.size;
-
+  // Añadir a sala (del namespace del socket)
+  addToRoom(room: string, socketId: string): JoinResult {
     const user = this.users.get(socketId);
     if (user) {
-      user.rooms.add(room);
+      return user.socket.tryJoin(room);
     }
-
-    defaultLogger.info(`Socket ${socketId} added to room ${room}. Room now has ${metadata.userCount} users`, {});
+    return this.getSocketNamespace(socketId).addToRoom(room, socketId);
   }
 
   // Remover de sala
   removeFromRoom(room: string, socketId: string): void {
-    const roomUsers = this.rooms.get(room);
-    if (roomUsers) {
-      roomUsers.delete(socketId);
-      
-      // Update room metadata
-      const metadata = this.roomMetadata.get(room);
-      if (metadata) {
-        metadata.users.delete(socketId);
-        metadata.userCount = metadata.users.size;
-      }
-
-      // Si la sala está vacía, eliminarla
-      if (roomUsers.size === 0) {
-        this.rooms.delete(room);
-        this.roomMetadata.delete(room);
-        defaultLogger.info(`Room ${room} deleted (empty)`, {});
-      } else {
-        defaultLogger.info(`Socket ${socketId} removed from room ${room}. Room now has ${roomUsers.size} users`, {});
-      }
-    }
+    this.getSocketNamespace(socketId).removeFromRoom(room, socketId);
+  }
 
-    const user = this.users.get(socketId);
-    if (user) {
-      user.rooms.delete(room);
-    }
+  // Namespace de un socket registrado (el principal si no se conoce)
+  private getSocketNamespace(socketId: string): Namespace {
+    return this.users.get(socketId)?.socket.nsp ?? this.defaultNamespace;
   }
 
-  // Broadcast a todos los usuarios
+  // Broadcast a todos los usuarios del namespace principal (de todos los nodos)
   broadcastToAll(event: string, args: any[], excludeId?: string): void {
-    this.users.forEach((user, id) => {
-      if (id !== excludeId && user.socket.isAlive()) {
-        user.socket.emit(event, ...args);
+    this.adapter.broadcast(
+      { event, args },
+      {
+        namespace: '/',
+        rooms: [],
+        exceptRooms: [],
+        exceptSockets: excludeId ? [excludeId] : [],
       }
-    });
+    );
   }
 
   // Broadcast a una sala específica
@@ -901,33 +2353,31 @@ export class SocketIOLikeServer extends EventEmitter {
     args: any[],
     excludeId?: string
   ): void {
-    const roomUsers = this.rooms.get(room);
-    if (roomUsers) {
-      roomUsers.forEach(userId => {
-        if (userId !== excludeId) {
-          const user = this.users.get(userId);
-          if (user && user.socket.isAlive()) {
-            user.socket.emit(event, ...args);
-          }
-        }
-      });
-    }
+    this.adapter.broadcast(
+      { event, args },
+      {
+        namespace: '/',
+        rooms: [room],
+        exceptRooms: [],
+        exceptSockets: excludeId ? [excludeId] : [],
+      }
+    );
   }
 
   // Métodos de eventos usando emitter personalizado y EventEmitter nativo
-  on(event: string, callback: (data: any) => void): this {
+  on(event: string, callback: (...args: any[]) => void): this {
     this.emitter.on(event, callback);
     super.on(event, callback);
     return this;
   }
 
-  once(event: string, callback: (data: any) => void): this {
+  once(event: string, callback: (...args: any[]) => void): this {
     // Use only one emitter for 'once' to avoid double calls
     super.once(event, callback);
     return this;
   }
 
-  off(event: string, callback?: (data: any) => void): this {
+  off(event: string, callback?: (...args: any[]) => void): this {
     if (callback) {
       this.emitter.off(event, callback);
       super.off(event, callback);
@@ -939,73 +2389,158 @@ export class SocketIOLikeServer extends EventEmitter {
   }
 
   // Create broadcast operator for advanced room operations
-  to(room: string): BroadcastOperator {
-    return this.createBroadcastOperator([room], []);
+  to(room: string | string[]): BroadcastOperator {
+    return this.createBroadcastOperator(Array.isArray(room) ? room : [room], []);
   }
 
   // Alias for to()
-  in(room: string): BroadcastOperator {
-    return this.createBroadcastOperator([room], []);
+  in(room: string | string[]): BroadcastOperator {
+    return this.to(room);
   }
 
   // Create broadcast operator with exclusions
-  except(room: string): BroadcastOperator {
-    return this.createBroadcastOperator([], [room]);
+  except(room: string | string[]): BroadcastOperator {
+    return this.createBroadcastOperator([], Array.isArray(room) ? room : [room]);
+  }
+
+  // Broadcast solo a los sockets de este nodo
+  get local(): BroadcastOperator {
+    return this.createBroadcastOperator([], [], { local: true });
+  }
+
+  // Atajos de las operaciones del operador sobre todos los sockets
+  fetchSockets(): Promise<RemoteSocket[]> {
+    return this.createBroadcastOperator([], []).fetchSockets();
+  }
+
+  socketsJoin(room: string | string[]): void {
+    this.createBroadcastOperator([], []).socketsJoin(room);
+  }
+
+  socketsLeave(room: string | string[]): void {
+    this.createBroadcastOperator([], []).socketsLeave(room);
+  }
+
+  disconnectSockets(close?: boolean): void {
+    this.createBroadcastOperator([], []).disconnectSockets(close);
   }
 
   // Create a broadcast operator with include/exclude rooms
-  private createBroadcastOperator(includeRooms: string[], excludeRooms: string[]): BroadcastOperator {
+  // (also used by sockets to broadcast while excluding themselves)
+  createBroadcastOperator(
+    includeRooms: string[],
+    excludeRooms: string[],
+    flags: BroadcastFlags = {}
+  ): BroadcastOperator {
     const self = this;
 
-    const emitImpl = (event: string, ...args: any[]): boolean => {
-      const targetUsers: Set<ConnectedUser> = new Set();
+    const namespace =
+      self.namespaces.get(flags.namespace ?? '/') ?? self.defaultNamespace;
 
-      if (includeRooms.length > 0) {
-        includeRooms.forEach(room => {
-          const roomUsers = self.getUsersInRoom(room);
-          roomUsers.forEach(user => targetUsers.add(user));
-        });
-      } else {
-        self.users.forEach(user => targetUsers.add(user));
+    // Destino del operador para el adapter
+    const target = (): BroadcastOptions => ({
+      namespace: namespace.name,
+      rooms: includeRooms,
+      exceptRooms: excludeRooms,
+      exceptSockets: flags.exceptSockets || [],
+      local: flags.local,
+    });
+
+    const createPacket = (event: string, args: any[]): BroadcastPacket => {
+      const packet: BroadcastPacket = { event, args };
+      if (flags.sender) {
+        packet.sender = flags.sender;
       }
+      return packet;
+    };
 
-      excludeRooms.forEach(room => {
-        const roomUsers = self.getUsersInRoom(room);
-        roomUsers.forEach(user => targetUsers.delete(user));
-      });
+    // Broadcast con acknowledgement a través del adapter (todos los nodos)
+    const broadcastWithAck =
+      (event: string, args: any[]): BroadcastWithAck =>
+      (onCount, onResponse) =>
+        self.adapter.broadcastWithAck(
+          createPacket(event, args),
+          target(),
+          flags.timeout ?? DEFAULT_BROADCAST_ACK_TIMEOUT,
+          onCount,
+          onResponse
+        );
+    const serverCount = (): number =>
+      flags.local ? 1 : self.adapter.serverCount();
 
-      targetUsers.forEach(user => {
-        if (user.socket.isAlive()) {
-          user.socket.emit(event, ...args);
-        }
-      });
+    const emitImpl = (event: string, ...args: any[]): boolean => {
+      // Broadcast con acknowledgement: un callback agregado para todos los
+      // sockets
+      const lastArg = args[args.length - 1];
+      if (typeof lastArg === 'function') {
+        emitWithBroadcastAck(
+          broadcastWithAck(event, args.slice(0, -1)),
+          serverCount(),
+          event,
+          flags.timeout ?? DEFAULT_BROADCAST_ACK_TIMEOUT,
+          lastArg
+        );
+        return true;
+      }
+
+      self.adapter.broadcast(createPacket(event, args), target());
 
       return true;
     };
 
+    const emitWithAckImpl = (event: string, ...args: any[]): Promise<any[]> => {
+      return emitWithBroadcastAckAsync(
+        broadcastWithAck(event, args),
+        serverCount(),
+        event,
+        flags.timeout ?? DEFAULT_BROADCAST_ACK_TIMEOUT
+      );
+    };
+
     const toImpl = (room: string | string[]): BroadcastOperator => {
       const rooms = Array.isArray(room) ? room : [room];
-      return self.createBroadcastOperator([...includeRooms, ...rooms], excludeRooms);
+      return self.createBroadcastOperator([...includeRooms, ...rooms], excludeRooms, flags);
     };
 
     const inImpl = (room: string | string[]): BroadcastOperator => {
       const rooms = Array.isArray(room) ? room : [room];
-      return self.createBroadcastOperator([...includeRooms, ...rooms], excludeRooms);
+      return self.createBroadcastOperator([...includeRooms, ...rooms], excludeRooms, flags);
     };
 
     const exceptImpl = (room: string | string[]): BroadcastOperator => {
       const rooms = Array.isArray(room) ? room : [room];
-      return self.createBroadcastOperator(includeRooms, [...excludeRooms, ...rooms]);
+      return self.createBroadcastOperator(includeRooms, [...excludeRooms, ...rooms], flags);
     };
 
     const operator: any = {
       emit: emitImpl,
+      emitWithAck: emitWithAckImpl,
       to: toImpl,
       in: inImpl,
       except: exceptImpl,
       // Return the same operator instance for chainability without creating new ones
       compress: (_compress: boolean) => operator,
-      timeout: (_timeout: number) => operator,
+      timeout: (timeout: number) =>
+        self.createBroadcastOperator(includeRooms, excludeRooms, { ...flags, timeout }),
+      allSockets: async (): Promise<Set<string>> => {
+        const sockets = await operator.fetchSockets();
+        return new Set(sockets.map((socket: RemoteSocket) => socket.id));
+      },
+      socketsJoin: (room: string | string[]): void => {
+        self.adapter.addSockets(target(), Array.isArray(room) ? room : [room]);
+      },
+      socketsLeave: (room: string | string[]): void => {
+        self.adapter.delSockets(target(), Array.isArray(room) ? room : [room]);
+      },
+      // En modo socket.io, sin close solo se cierra el namespace
+      disconnectSockets: (close: boolean = false): void => {
+        self.adapter.disconnectSockets({ ...target(), close });
+      },
+      fetchSockets: async (): Promise<RemoteSocket[]> =>
+        toRemoteSockets(
+          self.adapter,
+          await self.adapter.fetchSockets(target())
+        ),
     };
 
     // Define volatile and local as getters to avoid eager recursive construction
@@ -1014,7 +2549,12 @@ export class SocketIOLikeServer extends EventEmitter {
       enumerable: true,
     });
     Object.defineProperty(operator, 'local', {
-      get() { return operator; },
+      get() {
+        return self.createBroadcastOperator(includeRooms, excludeRooms, {
+          ...flags,
+          local: true,
+        });
+      },
       enumerable: true,
     });
 
@@ -1031,25 +2571,77 @@ export class SocketIOLikeServer extends EventEmitter {
     return true;
   }
 
-  // Obtener estadísticas del servidor
+  /**
+   * Emits an event to the other servers of the cluster, where it reaches the
+   * io.on(event) listeners (InterServerEvents). If the last argument is a
+   * function it is called as ack(err, responses) with one response per server;
+   * on timeout err has code ADAPTER_REQUEST_TIMEOUT and responses is partial.
+   */
+  serverSideEmit(event: string, ...args: any[]): boolean {
+    if (SERVER_RESERVED_EVENTS.has(event)) {
+      throw new Error(`"${event}" is a reserved event name`);
+    }
+    this.adapter.serverSideEmit([event, ...args]);
+    return true;
+  }
+
+  // Entregar un evento recibido de otro servidor a los listeners io.on()
+  handleServerSideEmit(event: string, args: any[]): void {
+    try {
+      // on() registra cada listener en los dos emitters y once() solo en el
+      // EventEmitter: emitir solo en este evita llamarlos dos veces
+      super.emit(event, ...args);
+    } catch (error) {
+      defaultLogger.error(`Error en el listener de '${event}':`, error);
+    }
+  }
+
+  // Versión con promesa: resuelve con las respuestas de los otros servidores
+  serverSideEmitWithAck(event: string, ...args: any[]): Promise<any[]> {
+    return new Promise((resolve, reject) => {
+      this.serverSideEmit(
+        event,
+        ...args,
+        (err: Error | null, responses: any[]) => {
+          if (err) {
+            reject(err);
+          } else {
+            resolve(responses);
+          }
+        }
+      );
+    });
+  }
+
+  // Contadores globales de este proceso: conexiones, mensajes, errores y uptime
+  getServerStats(): ServerStats {
+    return this.statsCollector.snapshot(this.users.size);
+  }
+
+  // Obtener estadísticas del servidor (totalUsers y rooms incluyen los otros
+  // nodos del adapter; users, server y el tráfico solo este nodo)
   getStats(): {
     totalUsers: number;
     totalRooms: number;
     totalNamespaces: number;
+    nodes: number;
     serverMiddlewareCount: number;
     serverEventMiddlewareCount: number;
+    server: ServerStats;
     users: Array<{
       id: string;
       joinedAt: number;
       rooms: string[];
       isAlive: boolean;
       namespace: string;
+      stats: SocketStats;
     }>;
     rooms: Record<string, number>;
     roomsWithMetadata: Record<string, {
       userCount: number;
       createdAt: number;
       metadata: any;
+      stats?: RoomStats;
     }>;
     namespaces: Record<string, {
       socketCount: number;
@@ -1065,40 +2657,57 @@ export class SocketIOLikeServer extends EventEmitter {
       rooms: Array.from(user.rooms),
       isAlive: user.socket.isAlive(),
       namespace: user.socket.nsp?.name || '/',
+      stats: { ...user.socket.stats },
     }));
 
-    const rooms: Record<string, number> = {};
-    this.rooms.forEach((users, room) => {
-      rooms[room] = users.size;
-    });
-
-    const roomsWithMetadata: Record<string, any> = {};
-    this.roomMetadata.forEach((metadata, room) => {
-      roomsWithMetadata[room] = {
-        userCount: metadata.userCount,
-        createdAt: metadata.createdAt,
-        metadata: metadata.metadata
-      };
-    });
-
+    // Salas de cada namespace, sumando las de los otros nodos
+    const remoteStats = this.adapter.getRemoteStats();
+    let totalUsers = this.users.size;
     const namespaces: Record<string, any> = {};
     this.namespaces.forEach((namespace, name) => {
       const stats = namespace.getStats();
       namespaces[name] = {
         socketCount: stats.socketCount,
         roomCount: stats.roomCount,
-        rooms: stats.rooms,
+        rooms: { ...stats.rooms },
         middlewareCount: stats.middlewareCount,
         eventMiddlewareCount: stats.eventMiddlewareCount,
       };
     });
+    remoteStats.forEach(node => {
+      totalUsers += node.totalUsers;
+      Object.entries(node.rooms).forEach(([name, nspRooms]) => {
+        const namespaceStats = namespaces[name];
+        if (!namespaceStats) return;
+        Object.entries(nspRooms).forEach(([room, count]) => {
+          namespaceStats.rooms[room] =
+            (namespaceStats.rooms[room] || 0) + count;
+        });
+        namespaceStats.roomCount = Object.keys(namespaceStats.rooms).length;
+      });
+    });
+
+    // Las salas del servidor son las del namespace principal
+    const rooms: Record<string, number> = namespaces['/']?.rooms ?? {};
+
+    const roomsWithMetadata: Record<string, any> = {};
+    this.defaultNamespace.getAllRooms().forEach(metadata => {
+      roomsWithMetadata[metadata.name] = {
+        userCount: metadata.userCount,
+        createdAt: metadata.createdAt,
+        metadata: metadata.metadata,
+        stats: metadata.stats && { ...metadata.stats },
+      };
+    });
 
     return {
-      totalUsers: this.users.size,
-      totalRooms: this.rooms.size,
+      totalUsers,
+      totalRooms: Object.keys(rooms).length,
       totalNamespaces: this.namespaces.size,
+      nodes: remoteStats.length + 1,
       serverMiddlewareCount: this.middleware.length,
       serverEventMiddlewareCount: this.eventMiddleware.length,
+      server: this.getServerStats(),
       users,
       rooms,
       roomsWithMetadata,
@@ -1116,48 +2725,84 @@ export class SocketIOLikeServer extends EventEmitter {
     return this.users;
   }
 
+  // Las salas del servidor son las del namespace principal ('/'), como en
+  // Socket.IO; las de otros namespaces se consultan con io.of(name)
+
   // Obtener usuarios en una sala
   getUsersInRoom(room: string): ConnectedUser[] {
-    const roomUsers = this.rooms.get(room);
-    if (!roomUsers) return [];
+    return this.getNamespaceUsersInRoom(this.defaultNamespace, room);
+  }
 
-    return Array.from(roomUsers)
+  private getNamespaceUsersInRoom(
+    namespace: Namespace,
+    room: string
+  ): ConnectedUser[] {
+    return namespace
+      .getRoomSocketIds(room)
       .map(id => this.users.get(id))
       .filter(user => user !== undefined) as ConnectedUser[];
   }
 
   // Get room metadata
   getRoomMetadata(room: string): RoomMetadata | undefined {
-    return this.roomMetadata.get(room);
+    return this.defaultNamespace.getRoomMetadata(room);
   }
 
   // Set room metadata
   setRoomMetadata(room: string, metadata: any): void {
-    const roomMeta = this.roomMetadata.get(room);
-    if (roomMeta) {
-      roomMeta.metadata = { ...roomMeta.metadata, ...metadata };
-      defaultLogger.info(`Room ${room} metadata updated`, {});
-    }
+    this.defaultNamespace.setRoomMetadata(room, metadata);
   }
 
   // Get all rooms with metadata
   getAllRooms(): Array<RoomMetadata> {
-    return Array.from(this.roomMetadata.values());
+    return this.defaultNamespace.getAllRooms();
   }
 
   // Check if room exists
   hasRoom(room: string): boolean {
-    return this.rooms.has(room);
+    return this.defaultNamespace.hasRoom(room);
   }
 
   // Get room user count
   getRoomUserCount(room: string): number {
-    const roomUsers = this.rooms.get(room);
-    return roomUsers ? roomUsers.size : 0;
+    return this.defaultNamespace.getRoomUserCount(room);
+  }
+
+  // Salas con opciones en el namespace principal (ver Namespace.createRoom)
+  createRoom(room: string, options?: RoomOptions): RoomMetadata {
+    return this.defaultNamespace.createRoom(room, options);
+  }
+
+  deleteRoom(room: string): boolean {
+    return this.defaultNamespace.deleteRoom(room);
+  }
+
+  inviteToRoom(room: string, socketIds: string | string[]): boolean {
+    return this.defaultNamespace.inviteToRoom(room, socketIds);
+  }
+
+  transferRoomOwnership(room: string, socketId: string): boolean {
+    return this.defaultNamespace.transferRoomOwnership(room, socketId);
+  }
+
+  // Historial de una sala del namespace principal
+  getRoomHistory(room: string, query?: HistoryQuery): Promise<HistoryEntry[]> {
+    return this.defaultNamespace.getRoomHistory(room, query);
+  }
+
+  clearRoomHistory(room: string): Promise<void> {
+    return this.defaultNamespace.clearRoomHistory(room);
   }
 
   // Cerrar servidor
   close(callback?: () => void): void {
+    this.stopHeartbeat();
+    this.sessionStore?.clear();
+    // Dejar el cluster (el adapter en memoria solo vacía sus salas)
+    Promise.resolve(this.adapter.close()).catch(error => {
+      defaultLogger.error('Error cerrando el adapter:', error);
+    });
+
     if (this.wss) {
       // If wss exists, ensure callback is invoked after cleanup too
       this.wss.close(() => {
@@ -1165,14 +2810,18 @@ export class SocketIOLikeServer extends EventEmitter {
         this.users.forEach(user => {
           user.socket.disconnect();
         });
+        // Cerrar también las sesiones de polling (responde a los GET retenidos)
+        this.pollingTransports.forEach(transport =>
+          transport.close(1001, 'Server shutting down')
+        );
+        this.pollingTransports.clear();
 
         this.users.clear();
-        this.rooms.clear();
-        this.roomMetadata.clear();
         this.namespaces.clear();
+        this.parentNamespaces.forEach(parent => parent.clearChildren());
 
         // Recreate default namespace
-        this.defaultNamespace = new Namespace('/');
+        this.defaultNamespace = new Namespace('/', this);
         this.namespaces.set('/', this.defaultNamespace);
 
         defaultLogger.info('Servidor SocketIO-like cerrado', {});
@@ -1187,12 +2836,11 @@ export class SocketIOLikeServer extends EventEmitter {
     });
 
     this.users.clear();
-    this.rooms.clear();
-    this.roomMetadata.clear();
     this.namespaces.clear();
+    this.parentNamespaces.forEach(parent => parent.clearChildren());
 
     // Recreate default namespace
-    this.defaultNamespace = new Namespace('/');
+    this.defaultNamespace = new Namespace('/', this);
     this.namespaces.set('/', this.defaultNamespace);
 
     defaultLogger.info('Servidor SocketIO-like cerrado', {});
@@ -0,0 +1,177 @@
+import type { BroadcastPacket } from './adapter.js';
+import type { SocketIOLikeSocket } from './SocketIOLikeAdapter.js';
+
+// Timeout por defecto para los acknowledgements de broadcast
+export const DEFAULT_BROADCAST_ACK_TIMEOUT = 20000;
+
+// Margen tras el timeout para recibir los resultados de los otros nodos
+const REMOTE_ACK_GRACE = 1000;
+
+export type BroadcastAckCallback = (
+  err: Error | null,
+  responses: any[]
+) => void;
+
+// Resultado del acknowledgement de un socket: su respuesta o por qué no la hay
+export interface BroadcastAckResponse {
+  socketId: string;
+  response?: any;
+  error?: 'timeout' | 'disconnected';
+}
+
+/**
+ * Entrega de un broadcast con acknowledgement (Adapter.broadcastWithAck):
+ * cada nodo llama a onCount con el número de sockets a los que lo envió y a
+ * onResponse con el resultado de cada uno.
+ */
+export type BroadcastWithAck = (
+  onCount: (count: number) => void,
+  onResponse: (response: BroadcastAckResponse) => void
+) => void;
+
+/**
+ * Emite un evento a varios sockets esperando un acknowledgement de cada uno.
+ * El callback se ejecuta una sola vez, cuando los `serverCount` nodos han
+ * contado sus sockets y todos han respondido o han fallado. Si alguno no
+ * respondió, `err` incluye `timedOutSockets`, `disconnectedSockets`,
+ * `missingServers` (nodos que no contestaron) y las respuestas parciales en
+ * `responses`.
+ */
+export function emitWithBroadcastAck(
+  broadcast: BroadcastWithAck,
+  serverCount: number,
+  event: string,
+  timeout: number,
+  callback: BroadcastAckCallback
+): void {
+  const responses: any[] = [];
+  const responsesBySocket: Record<string, any> = {};
+  const timedOutSockets: string[] = [];
+  const disconnectedSockets: string[] = [];
+  let countedServers = 0;
+  let expected = 0;
+  let received = 0;
+  let finished = false;
+  let deadline: ReturnType<typeof setTimeout> | null = null;
+
+  const done = (): void => {
+    finished = true;
+    if (deadline) {
+      clearTimeout(deadline);
+    }
+
+    const missingServers = Math.max(serverCount - countedServers, 0);
+    if (
+      timedOutSockets.length === 0 &&
+      disconnectedSockets.length === 0 &&
+      missingServers === 0
+    ) {
+      callback(null, responses);
+      return;
+    }
+
+    const failed = expected - responses.length;
+    const error = new Error(
+      `${failed} of ${expected} sockets did not acknowledge '${event}'`
+    );
+    (error as any).code = 'BROADCAST_ACK_TIMEOUT';
+    (error as any).type = 'CallbackError';
+    (error as any).event = event;
+    (error as any).timeout = timeout;
+    (error as any).timedOutSockets = timedOutSockets;
+    (error as any).disconnectedSockets = disconnectedSockets;
+    (error as any).missingServers = missingServers;
+    (error as any).responses = responses;
+    (error as any).responsesBySocket = responsesBySocket;
+    (error as any).timestamp = Date.now();
+    callback(error, responses);
+  };
+
+  const checkCompleteness = (): void => {
+    if (!finished && countedServers >= serverCount && received === expected) {
+      done();
+    }
+  };
+
+  broadcast(
+    count => {
+      if (finished) return;
+      countedServers++;
+      expected += count;
+      checkCompleteness();
+    },
+    result => {
+      if (finished) return;
+      received++;
+      if (result.error === 'timeout') {
+        timedOutSockets.push(result.socketId);
+      } else if (result.error) {
+        disconnectedSockets.push(result.socketId);
+      } else {
+        responses.push(result.response);
+        responsesBySocket[result.socketId] = result.response;
+      }
+      checkCompleteness();
+    }
+  );
+
+  // Cada socket tiene su propio timeout; este solo cubre los nodos que no
+  // llegan a contestar
+  if (!finished && serverCount > 1) {
+    deadline = setTimeout(done, timeout + REMOTE_ACK_GRACE);
+  }
+}
+
+// Versión basada en promesas de emitWithBroadcastAck
+export function emitWithBroadcastAckAsync(
+  broadcast: BroadcastWithAck,
+  serverCount: number,
+  event: string,
+  timeout: number
+): Promise<any[]> {
+  return new Promise((resolve, reject) => {
+    emitWithBroadcastAck(
+      broadcast,
+      serverCount,
+      event,
+      timeout,
+      (err, responses) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(responses);
+        }
+      }
+    );
+  });
+}
+
+// Enviar un broadcast con acknowledgement a sockets de este nodo
+export function broadcastToSocketsWithAck(
+  sockets: SocketIOLikeSocket[],
+  packet: BroadcastPacket,
+  timeout: number,
+  onCount: (count: number) => void,
+  onResponse: (response: BroadcastAckResponse) => void
+): void {
+  onCount(sockets.length);
+  sockets.forEach(socket => {
+    socket
+      .timeout(timeout)
+      .emit(
+        packet.event,
+        ...packet.args,
+        (err: any, ...socketResponses: any[]) => {
+          if (err) {
+            onResponse({
+              socketId: socket.id,
+              error:
+                err.code === 'CALLBACK_TIMEOUT' ? 'timeout' : 'disconnected',
+            });
+          } else {
+            onResponse({ socketId: socket.id, response: socketResponses[0] });
+          }
+        }
+      );
+  });
+}
@@ -0,0 +1,303 @@
+import type {
+  SocketIOLikeServer,
+  SocketIOLikeSocket,
+} from './SocketIOLikeAdapter.js';
+import { broadcastToSocketsWithAck, type BroadcastAckResponse } from './ack.js';
+import type { BroadcastTarget } from './recovery.js';
+
+// Evento emitido en un broadcast
+export interface BroadcastPacket {
+  event: string;
+  args: any[];
+  // Socket que hace el broadcast (para el historial de las salas)
+  sender?: string;
+}
+
+// Acknowledgement de serverSideEmit: una respuesta por cada otro servidor
+export type ServerSideAck = (err: Error | null, responses: any[]) => void;
+
+// Destino de un broadcast; `local` limita la entrega a los sockets de este nodo
+export interface BroadcastOptions extends BroadcastTarget {
+  local?: boolean;
+  // disconnectSockets: cerrar también la conexión, con todos sus namespaces
+  close?: boolean;
+}
+
+/**
+ * Serializable description of a socket, as returned by fetchSockets() for
+ * sockets connected to other nodes
+ */
+export interface SocketDetails {
+  id: string;
+  namespace: string;
+  rooms: string[];
+  data: any;
+  handshake: {
+    query: Record<string, any>;
+    auth?: any;
+  };
+}
+
+/**
+ * Number of sockets and room sizes of one node, used by getStats() to
+ * aggregate a cluster
+ */
+export interface NodeStats {
+  totalUsers: number;
+  // Tamaño de cada sala, por namespace
+  rooms: Record<string, Record<string, number>>;
+}
+
+/**
+ * Room membership and broadcasting backend of a server, like Socket.IO's
+ * Adapter. The default InMemoryAdapter only knows the sockets of the current
+ * process; multi-node adapters (see PubSubAdapter) forward broadcasts and
+ * queries to the other nodes.
+ *
+ * `rooms` and `sids` only hold the sockets connected to this node.
+ */
+export interface Adapter {
+  readonly rooms: Map<string, Set<string>>;
+  readonly sids: Map<string, Set<string>>;
+  init(): Promise<void> | void;
+  close(): Promise<void> | void;
+  // Registrar un socket en varias salas (con [] solo se registra el socket)
+  addAll(id: string, rooms: string[]): void;
+  del(id: string, room: string): void;
+  // Eliminar el socket y todas sus salas
+  delAll(id: string): void;
+  broadcast(packet: BroadcastPacket, opts: BroadcastOptions): void;
+  // Broadcast con acknowledgement: cada nodo llama a onCount con los sockets
+  // a los que lo envió y a onResponse con el resultado de cada uno
+  broadcastWithAck(
+    packet: BroadcastPacket,
+    opts: BroadcastOptions,
+    timeout: number,
+    onCount: (count: number) => void,
+    onResponse: (response: BroadcastAckResponse) => void
+  ): void;
+  // Nodos que entregan los broadcasts, este incluido
+  serverCount(): number;
+  // Ids de los sockets en alguna de las salas (todos si rooms está vacío);
+  // con local solo los de este nodo
+  sockets(
+    rooms: string[],
+    namespace?: string,
+    local?: boolean
+  ): Promise<Set<string>>;
+  // Sockets locales (instancias) y remotos (SocketDetails) del destino
+  fetchSockets(
+    opts: BroadcastOptions
+  ): Promise<Array<SocketIOLikeSocket | SocketDetails>>;
+  // Unir a salas, sacar de salas o desconectar los sockets del destino
+  addSockets(opts: BroadcastOptions, rooms: string[]): void;
+  delSockets(opts: BroadcastOptions, rooms: string[]): void;
+  disconnectSockets(opts: BroadcastOptions): void;
+  // Últimas estadísticas conocidas de los otros nodos
+  getRemoteStats(): NodeStats[];
+  // Enviar [event, ...args] a los otros servidores; si el último elemento es
+  // una función se llama con las respuestas de todos ellos
+  serverSideEmit(packet: any[]): void;
+}
+
+/**
+ * Creates the adapter of a server (ServerOptions.adapter)
+ */
+export type AdapterFactory = (server: SocketIOLikeServer) => Adapter;
+
+/**
+ * Adapter por defecto: salas en memoria y entrega solo a los sockets locales.
+ */
+export class InMemoryAdapter implements Adapter {
+  public readonly rooms: Map<string, Set<string>> = new Map();
+  public readonly sids: Map<string, Set<string>> = new Map();
+
+  constructor(protected readonly server: SocketIOLikeServer) {}
+
+  init(): Promise<void> | void {}
+
+  close(): Promise<void> | void {
+    this.rooms.clear();
+    this.sids.clear();
+  }
+
+  addAll(id: string, rooms: string[]): void {
+    if (!this.sids.has(id)) {
+      this.sids.set(id, new Set());
+    }
+    const socketRooms = this.sids.get(id)!;
+
+    rooms.forEach(room => {
+      socketRooms.add(room);
+      if (!this.rooms.has(room)) {
+        this.rooms.set(room, new Set());
+      }
+      this.rooms.get(room)!.add(id);
+    });
+  }
+
+  del(id: string, room: string): void {
+    this.sids.get(id)?.delete(room);
+
+    const roomSockets = this.rooms.get(room);
+    if (roomSockets) {
+      roomSockets.delete(id);
+      if (roomSockets.size === 0) {
+        this.rooms.delete(room);
+      }
+    }
+  }
+
+  delAll(id: string): void {
+    const socketRooms = this.sids.get(id);
+    if (!socketRooms) return;
+
+    socketRooms.forEach(room => this.del(id, room));
+    this.sids.delete(id);
+  }
+
+  broadcast(packet: BroadcastPacket, opts: BroadcastOptions): void {
+    this.getLocalSockets(opts).forEach(socket => {
+      socket.emit(packet.event, ...packet.args);
+    });
+    // Connection state recovery: cada nodo guarda los paquetes de sus sesiones
+    this.server.recordMissedPacket(opts, packet.event, packet.args);
+    // Estadísticas e historial de las salas: cada nodo los guarda para sus sockets
+    this.server.recordRoomBroadcast(opts, packet);
+  }
+
+  broadcastWithAck(
+    packet: BroadcastPacket,
+    opts: BroadcastOptions,
+    timeout: number,
+    onCount: (count: number) => void,
+    onResponse: (response: BroadcastAckResponse) => void
+  ): void {
+    broadcastToSocketsWithAck(
+      this.getLocalSockets(opts),
+      packet,
+      timeout,
+      onCount,
+      onResponse
+    );
+    this.server.recordMissedPacket(opts, packet.event, packet.args);
+    this.server.recordRoomBroadcast(opts, packet);
+  }
+
+  serverCount(): number {
+    return 1;
+  }
+
+  async sockets(rooms: string[], namespace?: string): Promise<Set<string>> {
+    return new Set(
+      this.getLocalSockets({
+        namespace,
+        rooms,
+        exceptRooms: [],
+        exceptSockets: [],
+      }).map(socket => socket.id)
+    );
+  }
+
+  async fetchSockets(
+    opts: BroadcastOptions
+  ): Promise<Array<SocketIOLikeSocket | SocketDetails>> {
+    return this.getLocalSockets(opts);
+  }
+
+  addSockets(opts: BroadcastOptions, rooms: string[]): void {
+    this.getLocalSockets(opts).forEach(socket => {
+      rooms.forEach(room => socket.join(room));
+    });
+  }
+
+  delSockets(opts: BroadcastOptions, rooms: string[]): void {
+    this.getLocalSockets(opts).forEach(socket => {
+      rooms.forEach(room => socket.leave(room));
+    });
+  }
+
+  disconnectSockets(opts: BroadcastOptions): void {
+    this.getLocalSockets(opts).forEach(socket => {
+      if (opts.close) {
+        socket.closeConnection(1000, 'Normal closure');
+      } else {
+        socket.disconnect();
+      }
+    });
+  }
+
+  getRemoteStats(): NodeStats[] {
+    return [];
+  }
+
+  // Un solo servidor: no hay nadie más a quien avisar
+  serverSideEmit(packet: any[]): void {
+    const ack = packet[packet.length - 1];
+    if (typeof ack === 'function') {
+      process.nextTick(() => (ack as ServerSideAck)(null, []));
+    }
+  }
+
+  protected getLocalStats(): NodeStats {
+    const rooms: Record<string, Record<string, number>> = {};
+    this.rooms.forEach((sockets, room) => {
+      sockets.forEach(id => {
+        const namespace = this.server.getUser(id)?.socket.nsp?.name ?? '/';
+        rooms[namespace] = rooms[namespace] || {};
+        rooms[namespace][room] = (rooms[namespace][room] || 0) + 1;
+      });
+    });
+    return { totalUsers: this.sids.size, rooms };
+  }
+
+  // Sockets locales conectados que corresponden al destino
+  protected getLocalSockets(opts: BroadcastOptions): SocketIOLikeSocket[] {
+    const ids: Set<string> = new Set();
+    if (opts.rooms.length > 0) {
+      opts.rooms.forEach(room => {
+        this.rooms.get(room)?.forEach(id => ids.add(id));
+      });
+    } else {
+      this.sids.forEach((_rooms, id) => ids.add(id));
+    }
+
+    opts.exceptRooms.forEach(room => {
+      this.rooms.get(room)?.forEach(id => ids.delete(id));
+    });
+    opts.exceptSockets.forEach(id => ids.delete(id));
+    if (opts.sockets) {
+      const only = new Set(opts.sockets);
+      ids.forEach(id => {
+        if (!only.has(id)) ids.delete(id);
+      });
+    }
+
+    const sockets: SocketIOLikeSocket[] = [];
+    ids.forEach(id => {
+      const socket = this.server.getUser(id)?.socket;
+      if (
+        socket &&
+        socket.isAlive() &&
+        (opts.namespace === undefined || socket.nsp?.name === opts.namespace)
+      ) {
+        sockets.push(socket);
+      }
+    });
+    return sockets;
+  }
+}
+
+// Descripción serializable de un socket local, para enviarla a otros nodos
+export function toSocketDetails(socket: SocketIOLikeSocket): SocketDetails {
+  return {
+    id: socket.id,
+    namespace: socket.nsp?.name || '/',
+    rooms: socket.getRooms(),
+    data: socket.data,
+    handshake: {
+      query: { ...socket.handshake.query },
+      auth: socket.handshake.auth,
+    },
+  };
+}
@@ -0,0 +1,170 @@
+import cluster from 'cluster';
+import { BroadcastChannel } from 'worker_threads';
+import { defaultLogger } from '../logger/index.js';
+import type { AdapterFactory } from './adapter.js';
+import {
+  createPubSubAdapter,
+  PubSubAdapter,
+  type BusListener,
+  type PubSubAdapterOptions,
+  type PubSubBus,
+} from './pubsub.js';
+
+// Marca de los mensajes IPC del adapter, para no confundirlos con los de la app
+const MESSAGE_FLAG = '__socketIOLikeAdapter';
+
+interface ChannelEntry {
+  channel: BroadcastChannel;
+  listeners: Set<BusListener>;
+}
+
+interface IpcMessage {
+  [MESSAGE_FLAG]: true;
+  channel: string;
+  message: any;
+}
+
+const isAdapterMessage = (value: any): value is IpcMessage =>
+  value !== null && typeof value === 'object' && value[MESSAGE_FLAG] === true;
+
+/**
+ * Bus sobre el canal IPC de node:cluster, para usar desde los workers.
+ *
+ * Los mensajes se envían al proceso primario con process.send() y este los
+ * reenvía al resto de workers (ver setupPrimary()). Con la serialización por
+ * defecto (JSON) los Buffer llegan como objetos planos: para enviar binarios
+ * usar `cluster.setupPrimary({ serialization: 'advanced' })`.
+ */
+export class ClusterBus implements PubSubBus {
+  private listeners: Map<string, Set<BusListener>> = new Map();
+  private onProcessMessage = (value: any): void => {
+    if (!isAdapterMessage(value)) return;
+    this.listeners.get(value.channel)?.forEach(listener => {
+      listener(value.message);
+    });
+  };
+
+  publish(channel: string, message: any): void {
+    if (!process.send) {
+      throw new Error('ClusterBus can only be used in a cluster worker');
+    }
+    const ipcMessage: IpcMessage = { [MESSAGE_FLAG]: true, channel, message };
+    process.send(ipcMessage);
+  }
+
+  subscribe(channel: string, listener: BusListener): void {
+    if (this.listeners.size === 0) {
+      process.on('message', this.onProcessMessage);
+    }
+    if (!this.listeners.has(channel)) {
+      this.listeners.set(channel, new Set());
+    }
+    this.listeners.get(channel)!.add(listener);
+  }
+
+  unsubscribe(channel: string, listener: BusListener): void {
+    const channelListeners = this.listeners.get(channel);
+    if (!channelListeners) return;
+
+    channelListeners.delete(listener);
+    if (channelListeners.size === 0) {
+      this.listeners.delete(channel);
+    }
+    if (this.listeners.size === 0) {
+      process.off('message', this.onProcessMessage);
+    }
+  }
+}
+
+let primaryReady = false;
+
+/**
+ * Must be called once in the primary process: relays the adapter messages of
+ * each worker to its sibling workers. Other IPC messages are left untouched.
+ */
+export function setupPrimary(): void {
+  if (!cluster.isPrimary) {
+    throw new Error('setupPrimary() must be called in the primary process');
+  }
+  if (primaryReady) return;
+  primaryReady = true;
+
+  cluster.on('message', (sender, value) => {
+    if (!isAdapterMessage(value)) return;
+
+    Object.values(cluster.workers || {}).forEach(worker => {
+      if (!worker || worker.id === sender.id || !worker.isConnected()) return;
+      try {
+        worker.send(value);
+      } catch (error) {
+        defaultLogger.error(
+          `Error reenviando un mensaje del adapter al worker ${worker.id}:`,
+          error
+        );
+      }
+    });
+  });
+}
+
+/**
+ * Factory for ServerOptions.adapter in a node:cluster worker
+ */
+export function createClusterAdapter(
+  options: PubSubAdapterOptions = {}
+): AdapterFactory {
+  return createPubSubAdapter(new ClusterBus(), options);
+}
+
+/**
+ * Bus entre worker_threads (y el hilo principal) del mismo proceso, sobre
+ * BroadcastChannel. No necesita ningún relay: cada mensaje llega a todos los
+ * hilos suscritos al canal salvo al que lo envía.
+ */
+export class WorkerThreadsBus implements PubSubBus {
+  private channels: Map<string, ChannelEntry> = new Map();
+
+  publish(channel: string, message: any): void {
+    this.open(channel).channel.postMessage(message);
+  }
+
+  subscribe(channel: string, listener: BusListener): void {
+    this.open(channel).listeners.add(listener);
+  }
+
+  unsubscribe(channel: string, listener: BusListener): void {
+    const entry = this.channels.get(channel);
+    if (!entry) return;
+
+    entry.listeners.delete(listener);
+    if (entry.listeners.size === 0) {
+      entry.channel.close();
+      this.channels.delete(channel);
+    }
+  }
+
+  private open(name: string): ChannelEntry {
+    let entry = this.channels.get(name);
+    if (!entry) {
+      const channel = new BroadcastChannel(name);
+      // No mantener vivo el proceso solo por el canal
+      channel.unref();
+      const listeners: Set<BusListener> = new Set();
+      channel.onmessage = (event: any): void => {
+        listeners.forEach(listener => listener(event.data));
+      };
+      entry = { channel, listeners };
+      this.channels.set(name, entry);
+    }
+    return entry;
+  }
+}
+
+/**
+ * Factory for ServerOptions.adapter in servers running on worker_threads
+ */
+export function createWorkerThreadsAdapter(
+  options: PubSubAdapterOptions = {}
+): AdapterFactory {
+  // Un canal por servidor: BroadcastChannel no entrega al propio emisor
+  return server => new PubSubAdapter(server, new WorkerThreadsBus(), options);
+}
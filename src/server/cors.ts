@@ -0,0 +1,60 @@
+// Orígenes permitidos (cors.origin): cualquiera (true), ninguno (false), una
+// lista de cadenas o regex, o una función al estilo del paquete `cors`
+export type CorsOrigin =
+  | boolean
+  | string
+  | RegExp
+  | Array<string | RegExp>
+  | ((
+      origin: string | undefined,
+      callback: (err: Error | null, allow?: boolean) => void
+    ) => void);
+
+function matchesOrigin(origin: string, allowed: string | RegExp): boolean {
+  return typeof allowed === 'string'
+    ? allowed === origin
+    : allowed.test(origin);
+}
+
+/**
+ * Comprobar la cabecera Origin de un handshake contra cors.origin.
+ *
+ * Sin opción (o con `true`) se acepta cualquier origen. Las peticiones sin
+ * Origin no vienen de un navegador y solo las filtra la forma función, que
+ * las recibe con `origin` undefined.
+ */
+export function checkOrigin(
+  origin: string | undefined,
+  allowed: CorsOrigin | undefined,
+  callback: (err: Error | null, allow: boolean) => void
+): void {
+  if (allowed === undefined || allowed === true) {
+    callback(null, true);
+    return;
+  }
+
+  if (typeof allowed === 'function') {
+    try {
+      allowed(origin, (err, allow) => callback(err, !err && allow === true));
+    } catch (error) {
+      callback(error as Error, false);
+    }
+    return;
+  }
+
+  if (origin === undefined) {
+    callback(null, true);
+    return;
+  }
+
+  if (allowed === false) {
+    callback(null, false);
+    return;
+  }
+
+  const list = Array.isArray(allowed) ? allowed : [allowed];
+  callback(
+    null,
+    list.some(entry => matchesOrigin(origin, entry))
+  );
+}
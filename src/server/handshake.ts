@@ -0,0 +1,105 @@
+import type { IncomingMessage } from 'http';
+import * as url from 'url';
+import type { ParsedUrlQuery } from 'querystring';
+
+// Proxies de confianza: todos (true), ninguno (false) o sus direcciones
+export type TrustProxy = boolean | string[];
+
+// Datos de la petición de conexión, como socket.handshake en Socket.IO
+export interface Handshake {
+  query: ParsedUrlQuery;
+  headers: Record<string, string>;
+  auth: any;
+  time: string;
+  issued: number;
+  url: string;
+  address: string;
+  xdomain: boolean;
+  secure: boolean;
+}
+
+// Las cabeceras repetidas se unen como en HTTP ('a, b')
+function normalizeHeaders(
+  headers: IncomingMessage['headers'] = {}
+): Record<string, string> {
+  const result: Record<string, string> = {};
+  Object.entries(headers).forEach(([name, value]) => {
+    if (value !== undefined) {
+      result[name] = Array.isArray(value) ? value.join(', ') : String(value);
+    }
+  });
+  return result;
+}
+
+// '::ffff:10.0.0.1' y '10.0.0.1' son la misma dirección IPv4
+function stripMappedPrefix(address: string): string {
+  return address.startsWith('::ffff:') ? address.slice(7) : address;
+}
+
+function isTrusted(address: string, trustProxy: TrustProxy): boolean {
+  if (typeof trustProxy === 'boolean') return trustProxy;
+  const normalized = stripMappedPrefix(address);
+  return trustProxy.some(proxy => stripMappedPrefix(proxy) === normalized);
+}
+
+/**
+ * Dirección del cliente. Sin proxies de confianza es la del par TCP. Si el
+ * par es un proxy de confianza se recorre X-Forwarded-For de derecha a
+ * izquierda hasta la primera dirección que no lo sea; con `true` se confía
+ * en toda la cadena y se usa la primera.
+ */
+export function resolveAddress(
+  remoteAddress: string,
+  forwardedFor: string | undefined,
+  trustProxy: TrustProxy = false
+): string {
+  if (!forwardedFor || !isTrusted(remoteAddress, trustProxy)) {
+    return remoteAddress;
+  }
+
+  const hops = forwardedFor
+    .split(',')
+    .map(hop => hop.trim())
+    .filter(Boolean);
+  if (trustProxy === true) {
+    return hops[0] ?? remoteAddress;
+  }
+
+  let address = remoteAddress;
+  for (let i = hops.length - 1; i >= 0; i--) {
+    address = hops[i];
+    if (!isTrusted(address, trustProxy)) break;
+  }
+  return address;
+}
+
+// Construir el handshake de una conexión (upgrade o primera petición de polling)
+export function createHandshake(
+  request: IncomingMessage,
+  auth: any,
+  trustProxy: TrustProxy = false
+): Handshake {
+  const headers = normalizeHeaders(request.headers);
+  const remoteAddress = request.socket?.remoteAddress || '';
+  const behindProxy = isTrusted(remoteAddress, trustProxy);
+  const forwardedProto = headers['x-forwarded-proto']?.split(',')[0].trim();
+  const issued = Date.now();
+
+  return {
+    query: url.parse(request.url || '', true).query,
+    headers,
+    auth,
+    time: new Date(issued).toString(),
+    issued,
+    url: request.url || '',
+    address: resolveAddress(
+      remoteAddress,
+      headers['x-forwarded-for'],
+      trustProxy
+    ),
+    xdomain: headers.origin !== undefined,
+    secure:
+      !!(request.socket as any)?.encrypted ||
+      (behindProxy && forwardedProto === 'https'),
+  };
+}
@@ -0,0 +1,136 @@
+// Historial de mensajes de las salas (config.messageHistory)
+
+// Tamaño por defecto del historial de una sala (config.maxMessageHistory)
+export const DEFAULT_MAX_MESSAGE_HISTORY = 100;
+
+// Evento reservado con el que el cliente pide el historial (getHistory)
+export const HISTORY_REQUEST_EVENT = 'get-history';
+
+// Broadcast guardado en el historial de una sala
+export interface HistoryEntry {
+  event: string;
+  args: any[];
+  // Socket que hizo el broadcast (socket.to(room).emit); undefined si fue el servidor
+  sender?: string;
+  timestamp: number;
+}
+
+// Entradas a devolver: las `limit` últimas y/o las posteriores a `since` (ms)
+export interface HistoryQuery {
+  limit?: number;
+  since?: number;
+}
+
+/**
+ * Almacenamiento del historial (ServerOptions.roomHistoryStore). Por defecto
+ * en memoria; una implementación propia puede compartirlo entre nodos. Los
+ * métodos pueden ser síncronos o devolver una promesa.
+ */
+export interface RoomHistoryStore {
+  // Añadir una entrada conservando como mucho maxSize por sala
+  append(
+    namespace: string,
+    room: string,
+    entry: HistoryEntry,
+    maxSize: number
+  ): void | Promise<void>;
+  // Entradas de una sala, de la más antigua a la más reciente
+  get(
+    namespace: string,
+    room: string,
+    query?: HistoryQuery
+  ): HistoryEntry[] | Promise<HistoryEntry[]>;
+  // Vaciar una sala, o todo el namespace sin room
+  clear(namespace: string, room?: string): void | Promise<void>;
+}
+
+// Buffer circular de tamaño fijo: al llenarse se sobrescribe lo más antiguo
+class RingBuffer<T> {
+  private items: T[] = [];
+  private start = 0;
+
+  constructor(public readonly capacity: number) {}
+
+  push(item: T): void {
+    if (this.items.length < this.capacity) {
+      this.items.push(item);
+      return;
+    }
+    this.items[this.start] = item;
+    this.start = (this.start + 1) % this.capacity;
+  }
+
+  toArray(): T[] {
+    return [
+      ...this.items.slice(this.start),
+      ...this.items.slice(0, this.start),
+    ];
+  }
+}
+
+// Aplicar since y limit a las entradas de una sala
+export function filterHistory(
+  entries: HistoryEntry[],
+  query: HistoryQuery = {}
+): HistoryEntry[] {
+  let result = entries;
+  if (query.since !== undefined) {
+    const since = query.since;
+    result = result.filter(entry => entry.timestamp > since);
+  }
+  if (query.limit !== undefined) {
+    result = query.limit > 0 ? result.slice(-query.limit) : [];
+  }
+  return result;
+}
+
+/**
+ * Historial en memoria: un buffer circular por sala, solo en este proceso
+ */
+export class InMemoryHistoryStore implements RoomHistoryStore {
+  private buffers: Map<string, RingBuffer<HistoryEntry>> = new Map();
+
+  private key(namespace: string, room: string): string {
+    return `${namespace}\u0000${room}`;
+  }
+
+  append(
+    namespace: string,
+    room: string,
+    entry: HistoryEntry,
+    maxSize: number
+  ): void {
+    const key = this.key(namespace, room);
+    if (maxSize <= 0) {
+      this.buffers.delete(key);
+      return;
+    }
+    let buffer = this.buffers.get(key);
+    // Si cambia el tamaño se conservan las entradas más recientes
+    if (!buffer || buffer.capacity !== maxSize) {
+      const previous = buffer ? buffer.toArray() : [];
+      buffer = new RingBuffer(maxSize);
+      previous.forEach(item => buffer!.push(item));
+      this.buffers.set(key, buffer);
+    }
+    buffer.push(entry);
+  }
+
+  get(namespace: string, room: string, query?: HistoryQuery): HistoryEntry[] {
+    const buffer = this.buffers.get(this.key(namespace, room));
+    return filterHistory(buffer ? buffer.toArray() : [], query);
+  }
+
+  clear(namespace: string, room?: string): void {
+    if (room !== undefined) {
+      this.buffers.delete(this.key(namespace, room));
+      return;
+    }
+    const prefix = `${namespace}\u0000`;
+    Array.from(this.buffers.keys()).forEach(key => {
+      if (key.startsWith(prefix)) {
+        this.buffers.delete(key);
+      }
+    });
+  }
+}
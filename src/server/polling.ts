@@ -0,0 +1,323 @@
+import { EventEmitter } from 'events';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { WebSocket, type RawData } from 'ws';
+import { defaultLogger } from '../logger/index.js';
+import type { Frame } from '../parser/index.js';
+import { decodePayload, encodePayload } from '../parser/payload.js';
+
+// Tiempo máximo que se retiene una petición GET sin datos que enviar
+export const DEFAULT_POLLING_DURATION = 20000;
+
+// Tamaño máximo por defecto del cuerpo de un POST
+const DEFAULT_MAX_HTTP_BUFFER_SIZE = 1000000;
+
+export interface PollingTransportOptions {
+  pollingDuration?: number;
+  maxHttpBufferSize?: number;
+  // Frame enviado para liberar un GET sin datos ('6' en modo socket.io)
+  noopFrame?: string;
+  // Se llama cuando la sesión ya no acepta peticiones
+  onDispose?: () => void;
+}
+
+/**
+ * Transporte HTTP long-polling del servidor.
+ *
+ * Implementa la parte de la API de `ws` que usa SocketIOLikeSocket (send,
+ * close, terminate, ping, readyState y los eventos message/close/error/pong),
+ * de modo que el socket funciona igual sobre polling que sobre WebSocket.
+ * Tras un upgrade, delega en el WebSocket y reenvía sus eventos.
+ */
+export class PollingTransport extends EventEmitter {
+  private state: number = WebSocket.OPEN;
+  private queue: Frame[] = [];
+  private pendingPoll: ServerResponse | null = null;
+  private pollTimer: ReturnType<typeof setTimeout> | null = null;
+  private disposeTimer: ReturnType<typeof setTimeout> | null = null;
+  private pingRequested = false;
+  // releasePoll() llegó sin GET pendiente: se libera el siguiente
+  private releaseNextPoll = false;
+  private closeInfo: { code: number; reason: string } | null = null;
+  private ws: WebSocket | null = null;
+  private options: PollingTransportOptions;
+
+  constructor(
+    public readonly id: string,
+    options: PollingTransportOptions = {}
+  ) {
+    super();
+    this.options = options;
+  }
+
+  // Transporte en uso ('websocket' tras el upgrade)
+  get name(): 'polling' | 'websocket' {
+    return this.ws ? 'websocket' : 'polling';
+  }
+
+  get readyState(): number {
+    return this.ws ? this.ws.readyState : this.state;
+  }
+
+  get upgraded(): boolean {
+    return this.ws !== null;
+  }
+
+  send(frame: Frame): void {
+    if (this.ws) {
+      this.ws.send(frame as any);
+      return;
+    }
+    if (this.state !== WebSocket.OPEN) return;
+
+    this.queue.push(frame);
+    if (this.pendingPoll) {
+      // Agrupar los frames enviados en el mismo tick en una sola respuesta
+      process.nextTick(() => this.flush());
+    }
+  }
+
+  // Sin ping HTTP: cada petición GET del cliente cuenta como pong
+  ping(data?: Buffer): void {
+    if (this.ws) {
+      this.ws.ping(data);
+      return;
+    }
+    if (this.pendingPoll) {
+      process.nextTick(() => this.emit('pong', Buffer.alloc(0)));
+    } else {
+      this.pingRequested = true;
+    }
+  }
+
+  pong(data?: Buffer): void {
+    this.ws?.pong(data);
+  }
+
+  close(code: number = 1000, reason: string = ''): void {
+    if (this.ws) {
+      this.ws.close(code, reason);
+      return;
+    }
+    if (this.state !== WebSocket.OPEN) return;
+
+    this.state = WebSocket.CLOSED;
+    this.queue = [];
+    this.closeInfo = { code, reason };
+
+    // El cliente recibe el cierre en el GET pendiente o en el siguiente
+    if (this.pendingPoll) {
+      this.respondClosed(this.takePendingPoll()!);
+    } else {
+      this.disposeTimer = setTimeout(
+        () => this.dispose(),
+        this.options.pollingDuration ?? DEFAULT_POLLING_DURATION
+      );
+      this.disposeTimer.unref();
+    }
+    process.nextTick(() => this.emit('close', code, Buffer.from(reason)));
+  }
+
+  terminate(): void {
+    if (this.ws) {
+      this.ws.terminate();
+      return;
+    }
+    this.close(1006, '');
+  }
+
+  // Atender una petición HTTP de esta sesión
+  handleRequest(req: IncomingMessage, res: ServerResponse): void {
+    if (this.closeInfo) {
+      this.respondClosed(res);
+      return;
+    }
+    if (this.ws) {
+      sendError(res, 400, 'Transport upgraded');
+      return;
+    }
+
+    switch (req.method) {
+      case 'GET':
+        this.handlePoll(req, res);
+        break;
+      case 'POST':
+        this.handleData(req, res);
+        break;
+      case 'DELETE':
+        res.writeHead(200, { 'Content-Type': 'text/plain' });
+        res.end('ok');
+        this.close(1000, 'Client disconnect');
+        break;
+      default:
+        sendError(res, 405, 'Method not allowed');
+    }
+  }
+
+  // Liberar el GET pendiente (p. ej. durante el upgrade) o, si aún no ha
+  // llegado, el siguiente
+  releasePoll(): void {
+    if (!this.pendingPoll) {
+      this.releaseNextPoll = true;
+      return;
+    }
+    this.releaseNextPoll = false;
+    if (this.queue.length > 0) {
+      this.flush();
+      return;
+    }
+
+    const res = this.takePendingPoll()!;
+    res.writeHead(200, { 'Content-Type': 'text/plain; charset=UTF-8' });
+    res.end(this.options.noopFrame ?? '');
+  }
+
+  // Pasar la sesión a WebSocket: los frames pendientes se envían por él
+  upgrade(ws: WebSocket): void {
+    if (this.state !== WebSocket.OPEN || this.ws) {
+      ws.close(1000, 'Session closed');
+      return;
+    }
+
+    this.releasePoll();
+    this.ws = ws;
+    this.queue.splice(0).forEach(frame => ws.send(frame as any));
+
+    ws.on('message', (data: RawData, isBinary: boolean) =>
+      this.emit('message', data, isBinary)
+    );
+    ws.on('close', (code: number, reason: Buffer) => {
+      this.state = WebSocket.CLOSED;
+      this.emit('close', code, reason);
+      this.dispose();
+    });
+    ws.on('error', (error: Error) => this.emit('error', error));
+    ws.on('ping', (data: Buffer) => this.emit('ping', data));
+    ws.on('pong', (data: Buffer) => this.emit('pong', data));
+
+    defaultLogger.info(
+      `Sesión de polling ${this.id} actualizada a WebSocket`,
+      {}
+    );
+    this.emit('upgrade', 'websocket');
+  }
+
+  private handlePoll(req: IncomingMessage, res: ServerResponse): void {
+    if (this.pendingPoll) {
+      sendError(res, 400, 'Overlapping poll requests');
+      this.close(1002, 'Overlapping poll requests');
+      return;
+    }
+
+    this.pendingPoll = res;
+    req.on('close', () => {
+      if (this.pendingPoll === res) {
+        this.takePendingPoll();
+      }
+    });
+
+    if (this.pingRequested) {
+      this.pingRequested = false;
+      process.nextTick(() => this.emit('pong', Buffer.alloc(0)));
+    }
+
+    if (this.queue.length > 0 || this.releaseNextPoll) {
+      this.releasePoll();
+      return;
+    }
+
+    this.pollTimer = setTimeout(
+      () => this.releasePoll(),
+      this.options.pollingDuration ?? DEFAULT_POLLING_DURATION
+    );
+  }
+
+  private handleData(req: IncomingMessage, res: ServerResponse): void {
+    const maxSize =
+      this.options.maxHttpBufferSize ?? DEFAULT_MAX_HTTP_BUFFER_SIZE;
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let aborted = false;
+
+    req.on('data', (chunk: Buffer) => {
+      if (aborted) return;
+      size += chunk.length;
+      if (size > maxSize) {
+        aborted = true;
+        sendError(res, 413, 'Payload too large');
+        this.close(1009, 'Message too big');
+        return;
+      }
+      chunks.push(chunk);
+    });
+
+    req.on('end', () => {
+      if (aborted) return;
+      res.writeHead(200, { 'Content-Type': 'text/plain' });
+      res.end('ok');
+
+      let frames;
+      try {
+        frames = decodePayload(Buffer.concat(chunks).toString('utf8'));
+      } catch (error) {
+        defaultLogger.error(`Payload inválido en la sesión ${this.id}:`, error);
+        return;
+      }
+      frames.forEach(frame => {
+        if (typeof frame === 'string') {
+          this.emit('message', Buffer.from(frame), false);
+        } else {
+          this.emit(
+            'message',
+            Buffer.from(frame.buffer, frame.byteOffset, frame.byteLength),
+            true
+          );
+        }
+      });
+    });
+  }
+
+  // Responder el GET pendiente con los frames en cola
+  private flush(): void {
+    if (!this.pendingPoll || this.queue.length === 0) return;
+
+    const res = this.takePendingPoll()!;
+    const frames = this.queue.splice(0);
+    res.writeHead(200, { 'Content-Type': 'text/plain; charset=UTF-8' });
+    res.end(encodePayload(frames as Array<string | ArrayBufferView>));
+  }
+
+  private takePendingPoll(): ServerResponse | null {
+    const res = this.pendingPoll;
+    this.pendingPoll = null;
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+    return res;
+  }
+
+  // 410 Gone con el código y motivo del cierre
+  private respondClosed(res: ServerResponse): void {
+    res.writeHead(410, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(this.closeInfo));
+    this.dispose();
+  }
+
+  private dispose(): void {
+    if (this.disposeTimer) {
+      clearTimeout(this.disposeTimer);
+      this.disposeTimer = null;
+    }
+    this.options.onDispose?.();
+  }
+}
+
+// Respuesta de error en formato JSON (como Engine.IO)
+export function sendError(
+  res: ServerResponse,
+  status: number,
+  message: string
+): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ code: status, message }));
+}
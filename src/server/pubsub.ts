@@ -0,0 +1,635 @@
+import { EventEmitter } from 'events';
+import { deserialize, serialize } from 'v8';
+import { nanoid } from 'nanoid';
+import { defaultLogger } from '../logger/index.js';
+import type { BroadcastAckResponse } from './ack.js';
+import {
+  InMemoryAdapter,
+  toSocketDetails,
+  type AdapterFactory,
+  type BroadcastOptions,
+  type BroadcastPacket,
+  type NodeStats,
+  type ServerSideAck,
+  type SocketDetails,
+} from './adapter.js';
+import type {
+  SocketIOLikeServer,
+  SocketIOLikeSocket,
+} from './SocketIOLikeAdapter.js';
+
+// Valores por defecto de PubSubAdapterOptions
+const DEFAULT_CHANNEL = 'socket.io-like';
+const DEFAULT_REQUESTS_TIMEOUT = 5000;
+const DEFAULT_HEARTBEAT_INTERVAL = 5000;
+const DEFAULT_HEARTBEAT_TIMEOUT = 10000;
+
+export type BusListener = (message: any) => void;
+
+/**
+ * Minimal publish/subscribe transport shared by every node (Redis, NATS,
+ * Postgres LISTEN/NOTIFY...). Messages are plain serializable objects; the
+ * bus is responsible for encoding them on the wire.
+ */
+export interface PubSubBus {
+  publish(channel: string, message: any): Promise<void> | void;
+  subscribe(channel: string, listener: BusListener): Promise<void> | void;
+  unsubscribe(channel: string, listener: BusListener): Promise<void> | void;
+}
+
+export interface PubSubAdapterOptions {
+  // Canal compartido por los nodos de un mismo cluster
+  channel?: string;
+  // Tiempo máximo de espera de las respuestas de sockets() y fetchSockets()
+  requestsTimeout?: number;
+  heartbeatInterval?: number;
+  // Un nodo sin heartbeat durante este tiempo se da por caído
+  heartbeatTimeout?: number;
+}
+
+// Mensajes intercambiados entre nodos
+type ClusterMessage =
+  | {
+      uid: string;
+      type: 'initial-heartbeat' | 'heartbeat';
+      stats: NodeStats;
+    }
+  | { uid: string; type: 'adapter-close' }
+  | {
+      uid: string;
+      type: 'broadcast';
+      packet: BroadcastPacket;
+      opts: BroadcastOptions;
+    }
+  | {
+      uid: string;
+      type: 'broadcast-with-ack';
+      requestId: string;
+      packet: BroadcastPacket;
+      opts: BroadcastOptions;
+      timeout: number;
+    }
+  | {
+      uid: string;
+      type: 'broadcast-client-count';
+      requestId: string;
+      to: string;
+      count: number;
+    }
+  | {
+      uid: string;
+      type: 'broadcast-ack';
+      requestId: string;
+      to: string;
+      response: BroadcastAckResponse;
+    }
+  | {
+      uid: string;
+      type: 'sockets';
+      requestId: string;
+      rooms: string[];
+      namespace?: string;
+    }
+  | {
+      uid: string;
+      type: 'fetch-sockets';
+      requestId: string;
+      opts: BroadcastOptions;
+    }
+  | {
+      uid: string;
+      type: 'add-sockets' | 'del-sockets';
+      opts: BroadcastOptions;
+      rooms: string[];
+    }
+  | { uid: string; type: 'disconnect-sockets'; opts: BroadcastOptions }
+  | {
+      uid: string;
+      type: 'server-side-emit';
+      packet: any[];
+      // Solo si el emisor espera acknowledgement
+      requestId?: string;
+    }
+  | { uid: string; type: 'response'; requestId: string; to: string; data: any };
+
+// Broadcast con acknowledgement a la espera de los otros nodos
+interface PendingAckRequest {
+  onCount: (count: number) => void;
+  onResponse: (response: BroadcastAckResponse) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+interface PendingRequest {
+  expected: number;
+  responses: any[];
+  resolve: (responses: any[]) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Adapter multi-nodo sobre un bus pub/sub.
+ *
+ * Cada nodo guarda sus propios sockets (InMemoryAdapter) y publica en el bus
+ * los broadcasts, que el resto de nodos entrega a sus sockets locales. Las
+ * consultas (sockets(), fetchSockets()) se envían a todos los nodos y se
+ * espera una respuesta de cada uno; los nodos se conocen por heartbeats.
+ */
+export class PubSubAdapter extends InMemoryAdapter {
+  // Identificador de este nodo
+  public readonly uid: string = nanoid();
+  private channel: string;
+  private requestsTimeout: number;
+  private heartbeatInterval: number;
+  private heartbeatTimeout: number;
+  private heartbeatTimer: ReturnType<typeof setTimeout> | null = null;
+  // Otros nodos vivos: hora de su último heartbeat y sus estadísticas
+  private nodes: Map<string, { lastSeen: number; stats?: NodeStats }> =
+    new Map();
+  // Hay un heartbeat con estadísticas nuevas pendiente de enviar
+  private statsUpdateScheduled = false;
+  private closed = false;
+  private requests: Map<string, PendingRequest> = new Map();
+  private ackRequests: Map<string, PendingAckRequest> = new Map();
+  private requestCount = 0;
+  private listener: BusListener = message => this.onMessage(message);
+
+  constructor(
+    server: SocketIOLikeServer,
+    private bus: PubSubBus,
+    options: PubSubAdapterOptions = {}
+  ) {
+    super(server);
+    this.channel = options.channel ?? DEFAULT_CHANNEL;
+    this.requestsTimeout = options.requestsTimeout ?? DEFAULT_REQUESTS_TIMEOUT;
+    this.heartbeatInterval =
+      options.heartbeatInterval ?? DEFAULT_HEARTBEAT_INTERVAL;
+    this.heartbeatTimeout =
+      options.heartbeatTimeout ?? DEFAULT_HEARTBEAT_TIMEOUT;
+  }
+
+  async init(): Promise<void> {
+    await this.bus.subscribe(this.channel, this.listener);
+    await this.publishHeartbeat('initial-heartbeat');
+
+    this.heartbeatTimer = setInterval(() => {
+      void this.publishHeartbeat('heartbeat');
+    }, this.heartbeatInterval);
+    this.heartbeatTimer.unref();
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+
+    this.requests.forEach(request => {
+      clearTimeout(request.timer);
+      const error = new Error('Adapter closed');
+      (error as any).code = 'ADAPTER_CLOSED';
+      request.reject(error);
+    });
+    this.requests.clear();
+    this.ackRequests.forEach(request => clearTimeout(request.timer));
+    this.ackRequests.clear();
+    this.nodes.clear();
+
+    await this.publish({ uid: this.uid, type: 'adapter-close' });
+    await this.bus.unsubscribe(this.channel, this.listener);
+    await super.close();
+  }
+
+  // Número de nodos remotos conocidos
+  get nodeCount(): number {
+    this.pruneNodes();
+    return this.nodes.size;
+  }
+
+  addAll(id: string, rooms: string[]): void {
+    super.addAll(id, rooms);
+    this.scheduleStatsUpdate();
+  }
+
+  del(id: string, room: string): void {
+    super.del(id, room);
+    this.scheduleStatsUpdate();
+  }
+
+  delAll(id: string): void {
+    super.delAll(id);
+    this.scheduleStatsUpdate();
+  }
+
+  getRemoteStats(): NodeStats[] {
+    this.pruneNodes();
+    const stats: NodeStats[] = [];
+    this.nodes.forEach(node => {
+      if (node.stats) stats.push(node.stats);
+    });
+    return stats;
+  }
+
+  broadcast(packet: BroadcastPacket, opts: BroadcastOptions): void {
+    if (!opts.local) {
+      void this.publish({
+        uid: this.uid,
+        type: 'broadcast',
+        packet,
+        opts: { ...opts, local: true },
+      });
+    }
+    super.broadcast(packet, opts);
+  }
+
+  broadcastWithAck(
+    packet: BroadcastPacket,
+    opts: BroadcastOptions,
+    timeout: number,
+    onCount: (count: number) => void,
+    onResponse: (response: BroadcastAckResponse) => void
+  ): void {
+    if (!opts.local) {
+      const requestId = this.nextRequestId();
+      // Los otros nodos contestan como muy tarde al vencer el timeout de sus
+      // sockets; después se descartan sus respuestas
+      const timer = setTimeout(
+        () => this.ackRequests.delete(requestId),
+        timeout + this.requestsTimeout
+      );
+      timer.unref();
+      this.ackRequests.set(requestId, { onCount, onResponse, timer });
+      void this.publish({
+        uid: this.uid,
+        type: 'broadcast-with-ack',
+        requestId,
+        packet,
+        opts: { ...opts, local: true },
+        timeout,
+      });
+    }
+    super.broadcastWithAck(packet, opts, timeout, onCount, onResponse);
+  }
+
+  serverCount(): number {
+    return this.nodeCount + 1;
+  }
+
+  addSockets(opts: BroadcastOptions, rooms: string[]): void {
+    if (!opts.local) {
+      void this.publish({
+        uid: this.uid,
+        type: 'add-sockets',
+        opts: { ...opts, local: true },
+        rooms,
+      });
+    }
+    super.addSockets(opts, rooms);
+  }
+
+  delSockets(opts: BroadcastOptions, rooms: string[]): void {
+    if (!opts.local) {
+      void this.publish({
+        uid: this.uid,
+        type: 'del-sockets',
+        opts: { ...opts, local: true },
+        rooms,
+      });
+    }
+    super.delSockets(opts, rooms);
+  }
+
+  disconnectSockets(opts: BroadcastOptions): void {
+    if (!opts.local) {
+      void this.publish({
+        uid: this.uid,
+        type: 'disconnect-sockets',
+        opts: { ...opts, local: true },
+      });
+    }
+    super.disconnectSockets(opts);
+  }
+
+  async sockets(
+    rooms: string[],
+    namespace?: string,
+    local?: boolean
+  ): Promise<Set<string>> {
+    const ids = await super.sockets(rooms, namespace);
+    if (local) {
+      return ids;
+    }
+
+    const responses = await this.request<string[]>({
+      uid: this.uid,
+      type: 'sockets',
+      requestId: this.nextRequestId(),
+      rooms,
+      namespace,
+    });
+
+    responses.forEach(remote => remote.forEach(id => ids.add(id)));
+    return ids;
+  }
+
+  async fetchSockets(
+    opts: BroadcastOptions
+  ): Promise<Array<SocketIOLikeSocket | SocketDetails>> {
+    const local = await super.fetchSockets(opts);
+    if (opts.local) {
+      return local;
+    }
+
+    const responses = await this.request<SocketDetails[]>({
+      uid: this.uid,
+      type: 'fetch-sockets',
+      requestId: this.nextRequestId(),
+      opts: { ...opts, local: true },
+    });
+    return responses.reduce((all, details) => all.concat(details), local);
+  }
+
+  serverSideEmit(packet: any[]): void {
+    const ack = packet[packet.length - 1];
+    if (typeof ack !== 'function') {
+      void this.publish({ uid: this.uid, type: 'server-side-emit', packet });
+      return;
+    }
+
+    this.request({
+      uid: this.uid,
+      type: 'server-side-emit',
+      requestId: this.nextRequestId(),
+      packet: packet.slice(0, -1),
+    }).then(
+      responses => (ack as ServerSideAck)(null, responses),
+      error => (ack as ServerSideAck)(error, error.responses ?? [])
+    );
+  }
+
+  private onMessage(message: ClusterMessage): void {
+    if (!message || message.uid === this.uid) return;
+
+    switch (message.type) {
+      case 'initial-heartbeat':
+        this.nodes.set(message.uid, {
+          lastSeen: Date.now(),
+          stats: message.stats,
+        });
+        // Presentarse al nodo nuevo sin esperar al siguiente heartbeat
+        void this.publishHeartbeat('heartbeat');
+        break;
+      case 'heartbeat':
+        this.nodes.set(message.uid, {
+          lastSeen: Date.now(),
+          stats: message.stats,
+        });
+        break;
+      case 'adapter-close':
+        this.nodes.delete(message.uid);
+        break;
+      case 'broadcast':
+        super.broadcast(message.packet, message.opts);
+        break;
+      case 'broadcast-with-ack':
+        this.onBroadcastWithAck(message);
+        break;
+      case 'broadcast-client-count':
+        if (message.to === this.uid) {
+          this.ackRequests.get(message.requestId)?.onCount(message.count);
+        }
+        break;
+      case 'broadcast-ack':
+        if (message.to === this.uid) {
+          this.ackRequests.get(message.requestId)?.onResponse(message.response);
+        }
+        break;
+      case 'add-sockets':
+        super.addSockets(message.opts, message.rooms);
+        break;
+      case 'del-sockets':
+        super.delSockets(message.opts, message.rooms);
+        break;
+      case 'disconnect-sockets':
+        super.disconnectSockets(message.opts);
+        break;
+      case 'sockets':
+        void super
+          .sockets(message.rooms, message.namespace)
+          .then(ids => this.respond(message, Array.from(ids)));
+        break;
+      case 'fetch-sockets':
+        void super
+          .fetchSockets(message.opts)
+          .then(sockets =>
+            this.respond(
+              message,
+              (sockets as SocketIOLikeSocket[]).map(toSocketDetails)
+            )
+          );
+        break;
+      case 'server-side-emit':
+        this.onServerSideEmit(message);
+        break;
+      case 'response':
+        this.onResponse(message.to, message.requestId, message.data);
+        break;
+      default:
+        break;
+    }
+  }
+
+  // Entregar el broadcast a los sockets de este nodo y devolver al emisor el
+  // número de sockets y el acknowledgement de cada uno
+  private onBroadcastWithAck(message: {
+    uid: string;
+    requestId: string;
+    packet: BroadcastPacket;
+    opts: BroadcastOptions;
+    timeout: number;
+  }): void {
+    const { uid: to, requestId } = message;
+    super.broadcastWithAck(
+      message.packet,
+      message.opts,
+      message.timeout,
+      count =>
+        void this.publish({
+          uid: this.uid,
+          type: 'broadcast-client-count',
+          requestId,
+          to,
+          count,
+        }),
+      response =>
+        void this.publish({
+          uid: this.uid,
+          type: 'broadcast-ack',
+          requestId,
+          to,
+          response,
+        })
+    );
+  }
+
+  // Entregar el evento a los listeners io.on() de este servidor
+  private onServerSideEmit(message: {
+    uid: string;
+    packet: any[];
+    requestId?: string;
+  }): void {
+    const [event, ...args] = message.packet;
+    const { requestId } = message;
+    if (requestId) {
+      let answered = false;
+      args.push((response: any) => {
+        if (answered) return;
+        answered = true;
+        this.respond({ uid: message.uid, requestId }, response);
+      });
+    }
+    this.server.handleServerSideEmit(event, args);
+  }
+
+  private respond(
+    request: { uid: string; requestId: string },
+    data: any
+  ): void {
+    void this.publish({
+      uid: this.uid,
+      type: 'response',
+      requestId: request.requestId,
+      to: request.uid,
+      data,
+    });
+  }
+
+  private onResponse(to: string, requestId: string, data: any): void {
+    if (to !== this.uid) return;
+    const request = this.requests.get(requestId);
+    if (!request) return;
+
+    request.responses.push(data);
+    if (request.responses.length >= request.expected) {
+      clearTimeout(request.timer);
+      this.requests.delete(requestId);
+      request.resolve(request.responses);
+    }
+  }
+
+  // Enviar una consulta y esperar la respuesta de cada nodo conocido
+  private request<T>(
+    message: ClusterMessage & { requestId: string }
+  ): Promise<T[]> {
+    const expected = this.nodeCount;
+    if (expected === 0) {
+      return Promise.resolve([]);
+    }
+
+    return new Promise<T[]>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        const request = this.requests.get(message.requestId);
+        this.requests.delete(message.requestId);
+        const error = new Error(
+          `Timeout reached: only ${request?.responses.length ?? 0} responses received out of ${expected}`
+        );
+        (error as any).code = 'ADAPTER_REQUEST_TIMEOUT';
+        (error as any).responses = request?.responses ?? [];
+        reject(error);
+      }, this.requestsTimeout);
+
+      this.requests.set(message.requestId, {
+        expected,
+        responses: [],
+        resolve,
+        reject,
+        timer,
+      });
+      void this.publish(message);
+    });
+  }
+
+  private nextRequestId(): string {
+    return `${this.uid}:${++this.requestCount}`;
+  }
+
+  private pruneNodes(): void {
+    const now = Date.now();
+    this.nodes.forEach((node, uid) => {
+      if (now - node.lastSeen > this.heartbeatTimeout) {
+        this.nodes.delete(uid);
+      }
+    });
+  }
+
+  private publishHeartbeat(
+    type: 'initial-heartbeat' | 'heartbeat'
+  ): Promise<void> {
+    return this.publish({ uid: this.uid, type, stats: this.getLocalStats() });
+  }
+
+  // Avisar a los otros nodos de un cambio de salas sin esperar al heartbeat
+  // (agrupando los cambios del mismo ciclo del event loop)
+  private scheduleStatsUpdate(): void {
+    if (this.statsUpdateScheduled || !this.heartbeatTimer || this.closed) {
+      return;
+    }
+    this.statsUpdateScheduled = true;
+    setImmediate(() => {
+      this.statsUpdateScheduled = false;
+      if (!this.closed) {
+        void this.publishHeartbeat('heartbeat');
+      }
+    });
+  }
+
+  private async publish(message: ClusterMessage): Promise<void> {
+    try {
+      await this.bus.publish(this.channel, message);
+    } catch (error) {
+      defaultLogger.error(
+        `Error publicando en el canal ${this.channel}:`,
+        error
+      );
+    }
+  }
+}
+
+/**
+ * Factory for ServerOptions.adapter: every server created with the same bus
+ * (and channel) forms one cluster.
+ */
+export function createPubSubAdapter(
+  bus: PubSubBus,
+  options: PubSubAdapterOptions = {}
+): AdapterFactory {
+  return server => new PubSubAdapter(server, bus, options);
+}
+
+/**
+ * Bus en memoria para varios servidores del mismo proceso (tests y
+ * desarrollo). Los mensajes se clonan y se entregan de forma asíncrona, como
+ * llegarían por un bus real.
+ */
+export class InProcessBus implements PubSubBus {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(channel: string, message: any): void {
+    // El serializador de v8 (Node >= 16) clona también los datos binarios
+    const copy = deserialize(serialize(message));
+    setImmediate(() => this.emitter.emit(channel, copy));
+  }
+
+  subscribe(channel: string, listener: BusListener): void {
+    this.emitter.on(channel, listener);
+  }
+
+  unsubscribe(channel: string, listener: BusListener): void {
+    this.emitter.off(channel, listener);
+  }
+}
@@ -0,0 +1,228 @@
+import { defaultLogger } from '../logger/index.js';
+import type { SocketIOLikeSocket } from './SocketIOLikeAdapter.js';
+
+export type RateLimitStrategy = 'token-bucket' | 'sliding-window';
+
+// Límite de un grupo de eventos
+export interface RateLimitRule {
+  /**
+   * sliding-window: como mucho maxRequests eventos en cualquier intervalo de
+   * windowMs. token-bucket: ráfagas de hasta maxRequests eventos; el cubo se
+   * rellena a razón de maxRequests por windowMs
+   * @default 'sliding-window'
+   */
+  strategy?: RateLimitStrategy;
+  maxRequests: number;
+  windowMs: number;
+}
+
+export interface RateLimitOptions extends RateLimitRule {
+  /**
+   * Quién comparte el límite: cada socket, cada IP (handshake.address) o cada
+   * identidad de auth (handshake.auth; los sockets sin auth usan su id).
+   * Una función devuelve una clave propia
+   * @default 'socket'
+   */
+  key?: 'socket' | 'ip' | 'auth' | ((socket: SocketIOLikeSocket) => string);
+  /**
+   * Límites propios por evento, con su propio contador; `false` deja el
+   * evento sin límite. El resto de eventos comparte el límite general
+   */
+  events?: Record<string, Partial<RateLimitRule> | false>;
+  /**
+   * Qué hacer con un evento por encima del límite: descartarlo, contestar el
+   * acknowledgement con un error RATE_LIMITED o cerrar la conexión con
+   * 1008 'Policy violation'
+   * @default 'drop'
+   */
+  onLimit?: 'drop' | 'error' | 'disconnect';
+}
+
+export type RateLimitMiddleware = (
+  socket: SocketIOLikeSocket,
+  event: string,
+  data: any[],
+  next: (err?: Error) => void
+) => void;
+
+interface LimiterState {
+  // sliding-window: instantes de los eventos aceptados dentro de la ventana
+  hits: number[];
+  // token-bucket: tokens disponibles y último relleno
+  tokens: number;
+  refilledAt: number;
+  lastSeen: number;
+}
+
+// Consumir un evento; devuelve los ms hasta que habrá sitio, o 0 si se acepta
+function consume(
+  state: LimiterState,
+  rule: Required<RateLimitRule>,
+  now: number
+): number {
+  state.lastSeen = now;
+
+  if (rule.strategy === 'token-bucket') {
+    const rate = rule.maxRequests / rule.windowMs;
+    state.tokens = Math.min(
+      rule.maxRequests,
+      state.tokens + (now - state.refilledAt) * rate
+    );
+    state.refilledAt = now;
+    if (state.tokens >= 1) {
+      state.tokens -= 1;
+      return 0;
+    }
+    return Math.ceil((1 - state.tokens) / rate);
+  }
+
+  const windowStart = now - rule.windowMs;
+  while (state.hits.length > 0 && state.hits[0] <= windowStart) {
+    state.hits.shift();
+  }
+  if (state.hits.length < rule.maxRequests) {
+    state.hits.push(now);
+    return 0;
+  }
+  return state.hits[0] + rule.windowMs - now;
+}
+
+function identify(
+  socket: SocketIOLikeSocket,
+  key: RateLimitOptions['key']
+): string {
+  if (typeof key === 'function') {
+    return key(socket);
+  }
+  switch (key) {
+    case 'ip':
+      return `ip:${socket.handshake.address}`;
+    case 'auth': {
+      const auth = socket.handshake.auth;
+      return auth && Object.keys(auth).length > 0
+        ? `auth:${JSON.stringify(auth)}`
+        : `socket:${socket.id}`;
+    }
+    default:
+      return `socket:${socket.id}`;
+  }
+}
+
+/**
+ * Middleware de eventos que limita la frecuencia de los eventos de cada
+ * cliente. Se registra con io.use() o namespace.use():
+ *
+ *   io.use(createRateLimiter({ maxRequests: 20, windowMs: 1000, key: 'ip' }));
+ *
+ * Los contadores viven en memoria, en el proceso que recibe los eventos.
+ */
+export function createRateLimiter(
+  options: RateLimitOptions
+): RateLimitMiddleware {
+  const strategy = options.strategy ?? 'sliding-window';
+  const policy = options.onLimit ?? 'drop';
+  const defaultRule: Required<RateLimitRule> = {
+    strategy,
+    maxRequests: options.maxRequests,
+    windowMs: options.windowMs,
+  };
+  const states: Map<string, LimiterState> = new Map();
+  const socketKeys: WeakMap<SocketIOLikeSocket, Set<string>> = new WeakMap();
+  let sweptAt = Date.now();
+
+  // Reglas de los eventos con límite propio (null: sin límite)
+  const ruleFor = (event: string): Required<RateLimitRule> | null => {
+    const override = options.events?.[event];
+    if (override === false) return null;
+    if (!override) return defaultRule;
+    return { ...defaultRule, ...override };
+  };
+
+  // Descartar los contadores inactivos durante más de su ventana
+  const sweep = (now: number): void => {
+    if (now - sweptAt < defaultRule.windowMs) return;
+    sweptAt = now;
+    const maxWindow = Math.max(
+      defaultRule.windowMs,
+      ...Object.values(options.events || {}).map(rule =>
+        rule && rule.windowMs ? rule.windowMs : 0
+      )
+    );
+    states.forEach((state, key) => {
+      if (now - state.lastSeen > maxWindow) {
+        states.delete(key);
+      }
+    });
+  };
+
+  // Los contadores por socket se borran al desconectar
+  const track = (socket: SocketIOLikeSocket, key: string): void => {
+    let keys = socketKeys.get(socket);
+    if (!keys) {
+      keys = new Set();
+      socketKeys.set(socket, keys);
+      const owned = keys;
+      socket.once('disconnect', () => {
+        owned.forEach(ownedKey => states.delete(ownedKey));
+      });
+    }
+    keys.add(key);
+  };
+
+  return (socket, event, _data, next) => {
+    const rule = ruleFor(event);
+    if (!rule) {
+      next();
+      return;
+    }
+
+    const now = Date.now();
+    sweep(now);
+
+    const identity = identify(socket, options.key);
+    const key = options.events?.[event] ? `${identity}#${event}` : identity;
+    let state = states.get(key);
+    if (!state) {
+      state = {
+        hits: [],
+        tokens: rule.maxRequests,
+        refilledAt: now,
+        lastSeen: now,
+      };
+      states.set(key, state);
+      if (identity === `socket:${socket.id}`) {
+        track(socket, key);
+      }
+    }
+
+    const retryAfter = consume(state, rule, now);
+    if (retryAfter === 0) {
+      next();
+      return;
+    }
+
+    defaultLogger.warn(
+      `Rate limit exceeded by socket ${socket.id} on '${event}' (${policy})`,
+      {}
+    );
+
+    switch (policy) {
+      case 'error': {
+        const error = new Error('Rate limit exceeded');
+        (error as any).code = 'RATE_LIMITED';
+        (error as any).type = 'ClientError';
+        (error as any).data = { event, retryAfter };
+        // El socket contesta el acknowledgement con el error
+        (error as any).ack = true;
+        next(error);
+        break;
+      }
+      case 'disconnect':
+        socket.closeConnection(1008, 'Policy violation');
+        break;
+      default:
+        // drop: el evento no llega a los handlers
+        break;
+    }
+  };
+}
@@ -0,0 +1,130 @@
+import type { SocketStats } from './stats.js';
+
+// Valores por defecto de connectionStateRecovery (ver ServerOptions)
+export const DEFAULT_MAX_DISCONNECTION_DURATION = 2 * 60 * 1000;
+
+// Paquete de broadcast que un socket desconectado no llegó a recibir
+export interface MissedPacket {
+  event: string;
+  args: any[];
+  timestamp: number;
+}
+
+// Estado de un socket desconectado que todavía puede recuperarse
+export interface RecoverableSession {
+  pid: string;
+  sid: string;
+  namespace: string;
+  rooms: string[];
+  data: any;
+  // Contadores de tráfico del socket (continúan al recuperarlo)
+  stats?: SocketStats;
+  missedPackets: MissedPacket[];
+  disconnectedAt: number;
+}
+
+// Destino de un broadcast, para decidir qué sesiones lo habrían recibido.
+// `namespace` undefined significa que el broadcast abarca todos los namespaces.
+export interface BroadcastTarget {
+  namespace?: string;
+  rooms: string[];
+  exceptRooms: string[];
+  exceptSockets: string[];
+  // Limitar el destino a estos sockets (operaciones de RemoteSocket)
+  sockets?: string[];
+}
+
+/**
+ * Guarda las sesiones de los sockets desconectados durante
+ * maxDisconnectionDuration, junto con los broadcasts que se pierden mientras
+ * tanto. Las sesiones caducadas se descartan de forma perezosa.
+ */
+export class SessionStore {
+  private sessions: Map<string, RecoverableSession> = new Map();
+
+  constructor(private maxDisconnectionDuration: number) {}
+
+  // Guardar una sesión (no sobrescribe una sesión ya guardada)
+  save(
+    session: Omit<RecoverableSession, 'missedPackets' | 'disconnectedAt'>
+  ): void {
+    this.prune();
+    if (this.sessions.has(session.pid)) {
+      return;
+    }
+
+    this.sessions.set(session.pid, {
+      ...session,
+      missedPackets: [],
+      disconnectedAt: Date.now(),
+    });
+  }
+
+  // Recuperar y eliminar una sesión si sigue siendo válida
+  take(pid: string): RecoverableSession | undefined {
+    this.prune();
+    const session = this.sessions.get(pid);
+    if (session) {
+      this.sessions.delete(pid);
+    }
+    return session;
+  }
+
+  // Registrar un broadcast en las sesiones que lo habrían recibido
+  recordPacket(target: BroadcastTarget, event: string, args: any[]): void {
+    this.prune();
+    if (this.sessions.size === 0) {
+      return;
+    }
+
+    const timestamp = Date.now();
+    this.sessions.forEach(session => {
+      if (this.isTargeted(session, target)) {
+        session.missedPackets.push({ event, args, timestamp });
+      }
+    });
+  }
+
+  get size(): number {
+    this.prune();
+    return this.sessions.size;
+  }
+
+  clear(): void {
+    this.sessions.clear();
+  }
+
+  private isTargeted(
+    session: RecoverableSession,
+    target: BroadcastTarget
+  ): boolean {
+    if (
+      target.namespace !== undefined &&
+      target.namespace !== session.namespace
+    ) {
+      return false;
+    }
+    if (target.exceptSockets.includes(session.sid)) {
+      return false;
+    }
+    if (target.sockets && !target.sockets.includes(session.sid)) {
+      return false;
+    }
+    if (
+      target.rooms.length > 0 &&
+      !target.rooms.some(room => session.rooms.includes(room))
+    ) {
+      return false;
+    }
+    return !target.exceptRooms.some(room => session.rooms.includes(room));
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    this.sessions.forEach((session, pid) => {
+      if (now - session.disconnectedAt > this.maxDisconnectionDuration) {
+        this.sessions.delete(pid);
+      }
+    });
+  }
+}
@@ -0,0 +1,78 @@
+import {
+  toSocketDetails,
+  type Adapter,
+  type BroadcastOptions,
+  type SocketDetails,
+} from './adapter.js';
+import type { SocketIOLikeSocket } from './SocketIOLikeAdapter.js';
+
+/**
+ * Socket returned by fetchSockets(), connected to this node or to another one.
+ *
+ * It is a snapshot: `rooms` and `data` are the values at fetch time. emit(),
+ * join(), leave() and disconnect() go through the adapter, so they reach the
+ * socket wherever it is connected. Acknowledgements are not supported.
+ */
+export class RemoteSocket {
+  public readonly id: string;
+  public readonly namespace: string;
+  public readonly rooms: Set<string>;
+  public readonly data: any;
+  public readonly handshake: SocketDetails['handshake'];
+  private target: BroadcastOptions;
+
+  constructor(
+    private readonly adapter: Adapter,
+    details: SocketDetails
+  ) {
+    this.id = details.id;
+    this.namespace = details.namespace;
+    this.rooms = new Set(details.rooms);
+    this.data = details.data;
+    this.handshake = details.handshake;
+    this.target = {
+      namespace: details.namespace,
+      rooms: [],
+      exceptRooms: [],
+      exceptSockets: [],
+      sockets: [details.id],
+    };
+  }
+
+  emit(event: string, ...args: any[]): boolean {
+    if (typeof args[args.length - 1] === 'function') {
+      throw new Error('Acknowledgements are not supported on remote sockets');
+    }
+    this.adapter.broadcast({ event, args }, this.target);
+    return true;
+  }
+
+  join(room: string | string[]): void {
+    this.adapter.addSockets(this.target, Array.isArray(room) ? room : [room]);
+  }
+
+  leave(room: string | string[]): void {
+    this.adapter.delSockets(this.target, Array.isArray(room) ? room : [room]);
+  }
+
+  // Cierra el socket (solo su namespace si comparte la conexión, salvo con
+  // close)
+  disconnect(close: boolean = false): this {
+    this.adapter.disconnectSockets({ ...this.target, close });
+    return this;
+  }
+}
+
+// Envolver el resultado de Adapter.fetchSockets() (sockets locales y remotos)
+export function toRemoteSockets(
+  adapter: Adapter,
+  sockets: Array<SocketIOLikeSocket | SocketDetails>
+): RemoteSocket[] {
+  return sockets.map(
+    socket =>
+      new RemoteSocket(
+        adapter,
+        'isAlive' in socket ? toSocketDetails(socket) : socket
+      )
+  );
+}
@@ -0,0 +1,92 @@
+import type {
+  RoomMetadata,
+  SocketIOLikeSocket,
+} from './SocketIOLikeAdapter.js';
+import type { HistoryQuery } from './history.js';
+
+// Opciones de una sala creada con createRoom()
+export interface RoomOptions {
+  // Número máximo de sockets en la sala
+  maxUsers?: number;
+  // Solo entran el propietario y los sockets invitados
+  isPrivate?: boolean;
+  // Id del socket propietario (si no, el primero que entra)
+  owner?: string;
+  // Ids de los sockets invitados (ver inviteToRoom)
+  invited?: string[];
+  description?: string;
+  tags?: string[];
+  metadata?: any;
+  config?: RoomMetadata['config'];
+}
+
+// Opciones de socket.join()
+export interface JoinOptions {
+  // Reenviar el historial de la sala: todo (true), las n últimas entradas o
+  // una consulta { limit?, since? } (since: timestamp en ms)
+  replay?: boolean | number | HistoryQuery;
+}
+
+// Motivo por el que se rechaza la entrada en una sala
+export type JoinRejectionReason = 'room_full' | 'not_invited' | 'auth_required';
+
+export type JoinResult =
+  | { joined: true; room: string }
+  | {
+      joined: false;
+      room: string;
+      reason: JoinRejectionReason;
+      error: Error;
+    };
+
+const REJECTION_MESSAGES: Record<JoinRejectionReason, string> = {
+  room_full: 'Room is full',
+  not_invited: 'Room is private',
+  auth_required: 'Room requires authentication',
+};
+
+// Sin auth en el paquete de conexión el socket es anónimo
+function isAnonymous(socket: SocketIOLikeSocket): boolean {
+  const auth = socket.handshake?.auth;
+  return !auth || Object.keys(auth).length === 0;
+}
+
+/**
+ * Comprobar si un socket puede entrar en una sala: privada sin invitación,
+ * con auth obligatorio (config.requireAuth o allowAnonymous: false) para un
+ * socket anónimo o llena. El propietario siempre puede entrar
+ */
+export function checkRoomAccess(
+  metadata: RoomMetadata,
+  socket: SocketIOLikeSocket
+): JoinRejectionReason | null {
+  const isOwner = metadata.owner === socket.id;
+  if (metadata.isPrivate && !isOwner && !metadata.invited?.has(socket.id)) {
+    return 'not_invited';
+  }
+  const requireAuth =
+    metadata.config?.requireAuth === true ||
+    metadata.config?.allowAnonymous === false;
+  if (requireAuth && isAnonymous(socket)) {
+    return 'auth_required';
+  }
+  if (
+    metadata.maxUsers !== undefined &&
+    metadata.userCount >= metadata.maxUsers
+  ) {
+    return 'room_full';
+  }
+  return null;
+}
+
+// Resultado de una entrada rechazada, con su error (code ROOM_FULL, ...)
+export function rejectJoin(
+  room: string,
+  reason: JoinRejectionReason
+): JoinResult {
+  const error = new Error(REJECTION_MESSAGES[reason]);
+  (error as any).code = reason.toUpperCase();
+  (error as any).type = 'ClientError';
+  (error as any).data = { room, reason };
+  return { joined: false, room, reason, error };
+}
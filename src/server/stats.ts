@@ -0,0 +1,138 @@
+import type { Frame } from '../parser/index.js';
+import type { EnhancedServerState } from '../types/enhanced.js';
+
+// Tráfico de un socket (getConnectionInfo().stats); se conserva al recuperar
+// la sesión con connectionStateRecovery
+export interface SocketStats {
+  // Paquetes recibidos del cliente y enviados a él (eventos y acks)
+  messagesReceived: number;
+  messagesSent: number;
+  // Tamaño de los frames, attachments binarios incluidos
+  bytesReceived: number;
+  bytesSent: number;
+  // Frames ilegibles, eventos rechazados y errores del transporte
+  errors: number;
+  // Sesiones recuperadas con este id
+  reconnections: number;
+}
+
+// Estadísticas de una sala (RoomMetadata.stats)
+export interface RoomStats {
+  // Broadcasts enviados a la sala
+  totalMessages: number;
+  // Entradas en la sala, contando las repetidas del mismo socket
+  totalUsers: number;
+  peakUsers: number;
+  lastActivity: number;
+  // Media en ms de las estancias ya terminadas
+  averageSessionDuration: number;
+}
+
+export type ServerStats = EnhancedServerState['stats'];
+
+export function createSocketStats(): SocketStats {
+  return {
+    messagesReceived: 0,
+    messagesSent: 0,
+    bytesReceived: 0,
+    bytesSent: 0,
+    errors: 0,
+    reconnections: 0,
+  };
+}
+
+export function createRoomStats(): RoomStats {
+  return {
+    totalMessages: 0,
+    totalUsers: 0,
+    peakUsers: 0,
+    lastActivity: Date.now(),
+    averageSessionDuration: 0,
+  };
+}
+
+// Bytes de un frame: texto en UTF-8 o datos binarios
+export function frameSize(frame: Frame): number {
+  if (typeof frame === 'string') {
+    return Buffer.byteLength(frame);
+  }
+  if (typeof Blob !== 'undefined' && frame instanceof Blob) {
+    return frame.size;
+  }
+  return (frame as ArrayBuffer | ArrayBufferView).byteLength;
+}
+
+// Un socket entra en la sala; userCount ya lo incluye
+export function recordRoomJoin(stats: RoomStats, userCount: number): void {
+  stats.totalUsers++;
+  stats.peakUsers = Math.max(stats.peakUsers, userCount);
+  stats.lastActivity = Date.now();
+}
+
+export function recordRoomMessage(stats: RoomStats): void {
+  stats.totalMessages++;
+  stats.lastActivity = Date.now();
+}
+
+// Un socket sale de la sala tras `duration` ms; userCount ya no lo incluye.
+// Cada entrada termina en una salida, así que las estancias terminadas son
+// totalUsers - userCount
+export function recordRoomLeave(
+  stats: RoomStats,
+  userCount: number,
+  duration: number
+): void {
+  const sessions = stats.totalUsers - userCount;
+  if (sessions > 0) {
+    stats.averageSessionDuration +=
+      (duration - stats.averageSessionDuration) / sessions;
+  }
+  stats.lastActivity = Date.now();
+}
+
+/**
+ * Contadores globales del servidor (getServerStats()). Solo cuentan los
+ * sockets de este proceso
+ */
+export class ServerStatsCollector {
+  readonly startTime = Date.now();
+  private totalConnections = 0;
+  private peakConnections = 0;
+  private totalMessages = 0;
+  private totalErrors = 0;
+  private closedConnections = 0;
+  private averageConnectionDuration = 0;
+
+  // activeConnections incluye la conexión nueva
+  connectionOpened(activeConnections: number): void {
+    this.totalConnections++;
+    this.peakConnections = Math.max(this.peakConnections, activeConnections);
+  }
+
+  connectionClosed(duration: number): void {
+    this.closedConnections++;
+    this.averageConnectionDuration +=
+      (duration - this.averageConnectionDuration) / this.closedConnections;
+  }
+
+  recordMessage(): void {
+    this.totalMessages++;
+  }
+
+  recordError(): void {
+    this.totalErrors++;
+  }
+
+  snapshot(activeConnections: number): ServerStats {
+    return {
+      totalConnections: this.totalConnections,
+      activeConnections,
+      totalMessages: this.totalMessages,
+      totalErrors: this.totalErrors,
+      uptime: Date.now() - this.startTime,
+      startTime: this.startTime,
+      peakConnections: this.peakConnections,
+      averageConnectionDuration: this.averageConnectionDuration,
+    };
+  }
+}
@@ -0,0 +1,339 @@
+// Validación de los payloads de los eventos entrantes
+
+/**
+ * Subconjunto de JSON Schema (draft-07) que entiende el validador: type,
+ * enum, const, properties, required, additionalProperties, items (esquema o
+ * tupla), minItems/maxItems, minLength/maxLength, pattern,
+ * minimum/maximum, exclusiveMinimum/exclusiveMaximum, anyOf, oneOf, allOf y
+ * not. El resto de palabras clave se ignoran.
+ */
+export interface JSONSchema {
+  type?: JSONSchemaType | JSONSchemaType[];
+  enum?: any[];
+  const?: any;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JSONSchema;
+  items?: JSONSchema | JSONSchema[];
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  anyOf?: JSONSchema[];
+  oneOf?: JSONSchema[];
+  allOf?: JSONSchema[];
+  not?: JSONSchema;
+  [keyword: string]: any;
+}
+
+export type JSONSchemaType =
+  'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+// Un fallo de validación; path señala el valor ('' es el primer argumento)
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Validador propio. Recibe los argumentos del evento (sin el ack) y devuelve
+ * true o undefined si son válidos; false, un mensaje o una lista de mensajes
+ * si no lo son. Puede ser asíncrono y puede lanzar un Error.
+ */
+export type EventValidator = (
+  args: any[]
+) =>
+  | boolean
+  | string
+  | string[]
+  | void
+  | Promise<boolean | string | string[] | void>;
+
+// Reglas de un evento (como EnhancedEventMiddleware.validation)
+export interface EventSchema {
+  // JSON Schema del primer argumento
+  schema?: JSONSchema;
+  validate?: EventValidator;
+  // Propiedades obligatorias del primer argumento
+  required?: string[];
+  // Tamaño máximo del payload serializado en JSON (caracteres)
+  maxLength?: number;
+  // Tipos admitidos para el primer argumento (los de JSON Schema)
+  allowedTypes?: JSONSchemaType[];
+}
+
+function typeOf(value: any): JSONSchemaType | 'undefined' {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (value === undefined) return 'undefined';
+  const type = typeof value;
+  return type === 'string' || type === 'number' || type === 'boolean'
+    ? type
+    : 'object';
+}
+
+function matchesType(value: any, type: JSONSchemaType): boolean {
+  if (type === 'integer') return Number.isInteger(value);
+  return typeOf(value) === type;
+}
+
+function isEqual(a: any, b: any): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function join(path: string, key: string | number): string {
+  return typeof key === 'number' ? `${path}[${key}]` : `${path}.${key}`;
+}
+
+/**
+ * Validar un valor contra un JSON Schema. Devuelve la lista de fallos (vacía
+ * si el valor es válido)
+ */
+export function validateSchema(
+  value: any,
+  schema: JSONSchema,
+  path = ''
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const fail = (message: string, at = path): void => {
+    issues.push({ path: at, message });
+  };
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      fail(`must be ${types.join(' or ')}, got ${typeOf(value)}`);
+      // Sin el tipo correcto el resto de palabras clave no aportan nada
+      return issues;
+    }
+  }
+  if (schema.enum && !schema.enum.some(option => isEqual(option, value))) {
+    fail(`must be one of ${JSON.stringify(schema.enum)}`);
+  }
+  if ('const' in schema && !isEqual(schema.const, value)) {
+    fail(`must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      fail(`must have at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      fail(`must have at most ${schema.maxLength} characters`);
+    }
+    if (
+      schema.pattern !== undefined &&
+      !new RegExp(schema.pattern, 'u').test(value)
+    ) {
+      fail(`must match ${schema.pattern}`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      fail(`must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      fail(`must be <= ${schema.maximum}`);
+    }
+    if (
+      schema.exclusiveMinimum !== undefined &&
+      value <= schema.exclusiveMinimum
+    ) {
+      fail(`must be > ${schema.exclusiveMinimum}`);
+    }
+    if (
+      schema.exclusiveMaximum !== undefined &&
+      value >= schema.exclusiveMaximum
+    ) {
+      fail(`must be < ${schema.exclusiveMaximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      fail(`must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      fail(`must have at most ${schema.maxItems} items`);
+    }
+    if (Array.isArray(schema.items)) {
+      schema.items.forEach((itemSchema, index) => {
+        if (index < value.length) {
+          issues.push(
+            ...validateSchema(value[index], itemSchema, join(path, index))
+          );
+        }
+      });
+    } else if (schema.items) {
+      const itemSchema = schema.items;
+      value.forEach((item, index) => {
+        issues.push(...validateSchema(item, itemSchema, join(path, index)));
+      });
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    (schema.required || []).forEach(key => {
+      if (!(key in value)) {
+        fail('is required', join(path, key));
+      }
+    });
+    const properties = schema.properties || {};
+    Object.keys(value).forEach(key => {
+      if (properties[key]) {
+        issues.push(
+          ...validateSchema(value[key], properties[key], join(path, key))
+        );
+      } else if (schema.additionalProperties === false) {
+        fail('is not allowed', join(path, key));
+      } else if (typeof schema.additionalProperties === 'object') {
+        issues.push(
+          ...validateSchema(
+            value[key],
+            schema.additionalProperties,
+            join(path, key)
+          )
+        );
+      }
+    });
+  }
+
+  if (schema.allOf) {
+    schema.allOf.forEach(sub =>
+      issues.push(...validateSchema(value, sub, path))
+    );
+  }
+  if (schema.anyOf) {
+    if (
+      !schema.anyOf.some(sub => validateSchema(value, sub, path).length === 0)
+    ) {
+      fail('must match a schema in anyOf');
+    }
+  }
+  if (schema.oneOf) {
+    const matches = schema.oneOf.filter(
+      sub => validateSchema(value, sub, path).length === 0
+    ).length;
+    if (matches !== 1) {
+      fail(`must match exactly one schema in oneOf (matched ${matches})`);
+    }
+  }
+  if (schema.not && validateSchema(value, schema.not, path).length === 0) {
+    fail('must not match the schema in not');
+  }
+
+  return issues;
+}
+
+// Normalizar el resultado de un validador propio
+function validatorIssues(
+  result: boolean | string | string[] | void
+): ValidationIssue[] {
+  if (result === true || result === undefined) return [];
+  if (result === false) return [{ path: '', message: 'is invalid' }];
+  const messages = Array.isArray(result) ? result : [result];
+  return messages.map(message => ({ path: '', message }));
+}
+
+/**
+ * Comprobar los argumentos de un evento contra sus reglas. Las reglas
+ * declarativas se comprueban antes que el validador propio, que solo se
+ * llama si pasan
+ */
+export async function validatePayload(
+  args: any[],
+  rules: EventSchema
+): Promise<ValidationIssue[]> {
+  const issues: ValidationIssue[] = [];
+  const [data] = args;
+
+  if (rules.maxLength !== undefined) {
+    const length = JSON.stringify(args)?.length ?? 0;
+    if (length > rules.maxLength) {
+      issues.push({
+        path: '',
+        message: `payload must have at most ${rules.maxLength} characters, got ${length}`,
+      });
+    }
+  }
+  const wrongType =
+    !!rules.allowedTypes &&
+    !rules.allowedTypes.some(type => matchesType(data, type));
+  if (wrongType) {
+    issues.push({
+      path: '',
+      message: `must be ${rules.allowedTypes!.join(' or ')}, got ${typeOf(data)}`,
+    });
+  }
+  // Con un tipo no admitido no se repite el fallo por no ser un objeto
+  if (rules.required && !wrongType) {
+    issues.push(
+      ...validateSchema(data, { type: 'object', required: rules.required })
+    );
+  }
+  if (rules.schema) {
+    issues.push(...validateSchema(data, rules.schema));
+  }
+
+  if (issues.length === 0 && rules.validate) {
+    try {
+      issues.push(...validatorIssues(await rules.validate(args)));
+    } catch (error) {
+      issues.push({ path: '', message: (error as Error).message });
+    }
+  }
+  return issues;
+}
+
+// Formato de un valor para el contexto de MessageError
+function describe(value: any): string {
+  const type = typeOf(value);
+  if (type !== 'object') return type;
+  return `object{${Object.keys(value).join(',')}}`;
+}
+
+/**
+ * Error de un payload inválido (ValidationError). Viaja en el ack del evento
+ * con el contexto de MessageError
+ */
+export function createValidationError(
+  event: string,
+  args: any[],
+  rules: EventSchema,
+  issues: ValidationIssue[],
+  socketId: string
+): Error {
+  const summary = issues
+    .map(issue =>
+      issue.path ? `${issue.path} ${issue.message}` : issue.message
+    )
+    .join('; ');
+  const error = new Error(`Invalid payload for '${event}': ${summary}`);
+  (error as any).code = 'VALIDATION_ERROR';
+  (error as any).type = 'ValidationError';
+  (error as any).data = { event, errors: issues };
+  (error as any).context = {
+    socketId,
+    rawMessage: JSON.stringify(args) ?? '',
+    expectedFormat: rules.schema
+      ? JSON.stringify(rules.schema)
+      : rules.validate
+        ? 'custom validator'
+        : JSON.stringify({
+            required: rules.required,
+            allowedTypes: rules.allowedTypes,
+            maxLength: rules.maxLength,
+          }),
+    actualFormat: describe(args[0]),
+    parseAttempt: 1,
+  };
+  (error as any).timestamp = Date.now();
+  (error as any).ack = true;
+  return error;
+}
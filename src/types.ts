@@ -1,4 +1,9 @@
+import type { IncomingMessage } from 'http';
 import type { ParsedUrlQuery } from 'querystring';
+import type { Parser } from './parser/index.js';
+import type { AdapterFactory } from './server/adapter.js';
+import type { CorsOrigin } from './server/cors.js';
+import type { RoomHistoryStore } from './server/history.js';
 
 // ============================================================================
 // GENERIC EVENT INTERFACES FOR TYPE-SAFE EVENT HANDLING
@@ -38,6 +43,9 @@ interface ClientToServerEvents extends EventMap {
   [event: string]: (...args: any[]) => void;
 }
 
+/**
+ * Events exchanged between servers with io.serverSideEmit()
+ */
 interface InterServerEvents extends EventMap {
   [event: string]: (...args: any[]) => void;
 }
@@ -191,7 +199,9 @@ interface ClientOptions {
   forceNew?: boolean;
 
   /**
-   * Whether to enable multiplexing
+   * Whether io() shares one connection between namespaces. Only applies to
+   * the socket.io protocol; with the default protocol every client has its
+   * own connection and the option is ignored (with a warning)
    * @default true
    */
   multiplex?: boolean;
@@ -213,16 +223,37 @@ interface ClientOptions {
   transports?: TransportType[];
 
   /**
-   * Whether to upgrade the transport
+   * Whether to upgrade from polling to WebSocket when the server allows it
    * @default true
    */
   upgrade?: boolean;
 
   /**
-   * Whether to remember the transport
+   * Whether to connect directly over WebSocket when a previous connection
+   * of this client was upgraded successfully
    * @default false
    */
   rememberUpgrade?: boolean;
+
+  /**
+   * Packet parser; must match the server's
+   * @default JsonParser
+   */
+  parser?: Parser;
+
+  /**
+   * Wire protocol; must match the server's. `'socket.io'` speaks Engine.IO
+   * v4 / Socket.IO v5 so that the client can talk to a Socket.IO server
+   * @default 'default'
+   */
+  protocol?: 'default' | 'socket.io';
+
+  /**
+   * Engine.IO path, only used with `protocol: 'socket.io'` (the URL path is
+   * then the namespace)
+   * @default '/socket.io/'
+   */
+  path?: string;
 }
 
 /**
@@ -259,6 +290,18 @@ interface ExtendedClientOptions extends ClientOptions {
    * Pong timeout in milliseconds
    */
   pongTimeout?: number;
+
+  /**
+   * Maximum number of packets kept while connecting or reconnecting
+   * @default 100
+   */
+  sendBufferMaxSize?: number;
+
+  /**
+   * Which packet to drop when the send buffer is full
+   * @default 'drop-oldest'
+   */
+  sendBufferDropPolicy?: 'drop-oldest' | 'drop-newest';
 }
 
 // ============================================================================
@@ -270,8 +313,9 @@ interface ExtendedClientOptions extends ClientOptions {
  */
 interface ServerOptions {
   /**
-   * Server path
-   * @default '/socket.io/'
+   * Path prefix the server accepts connections on. The rest of the URL path
+   * selects the namespace (e.g. `/realtime/chat` -> `/chat`). When unset,
+   * every path is accepted and used as the namespace name.
    */
   path?: string;
 
@@ -282,20 +326,42 @@ interface ServerOptions {
   serveClient?: boolean;
 
   /**
-   * Allowed origins
+   * Allowed origins. `origin` is checked against the Origin header of the
+   * WebSocket upgrade and of the first polling request; rejected handshakes
+   * get a 403. Requests without an Origin header are only filtered by the
+   * function form
    */
   cors?: {
-    origin?: string | string[] | boolean;
+    origin?: CorsOrigin;
     methods?: string[];
     allowedHeaders?: string[];
     credentials?: boolean;
   };
 
   /**
-   * Connection state recovery options
+   * Custom check of a handshake request, after the origin check. Calling
+   * `callback(err, false)` rejects it with a 403 and logs `err`
+   */
+  allowRequest?: (
+    req: IncomingMessage,
+    callback: (err: string | null | undefined, success: boolean) => void
+  ) => void;
+
+  /**
+   * Connection state recovery options. When set, the id, rooms, data and
+   * missed broadcasts of a socket that drops are kept so that the client can
+   * restore them on reconnection.
    */
   connectionStateRecovery?: {
+    /**
+     * How long a disconnected session is kept, in milliseconds
+     * @default 120000
+     */
     maxDisconnectionDuration?: number;
+    /**
+     * Whether recovered sockets skip the connection middlewares
+     * @default true
+     */
     skipMiddlewares?: boolean;
   };
 
@@ -318,7 +384,8 @@ interface ServerOptions {
   pingInterval?: number;
 
   /**
-   * Maximum HTTP buffer size
+   * Maximum size of an incoming message in bytes (forwarded to `ws` as
+   * maxPayload)
    */
   maxHttpBufferSize?: number;
 
@@ -329,9 +396,53 @@ interface ServerOptions {
   allowEIO3?: boolean;
 
   /**
-   * List of allowed transports
+   * List of allowed transports. HTTP long-polling is only mounted when the
+   * server is attached with `attach(httpServer)`
+   * @default ['polling', 'websocket']
    */
   transports?: TransportType[];
+
+  /**
+   * Whether polling sessions may upgrade to WebSocket
+   * @default true
+   */
+  allowUpgrades?: boolean;
+
+  /**
+   * Packet parser; clients must use the same one
+   * @default JsonParser
+   */
+  parser?: Parser;
+
+  /**
+   * Wire protocol. `'socket.io'` speaks Engine.IO v4 / Socket.IO v5 over
+   * WebSocket so that the official `socket.io-client` can connect (the
+   * `parser` option is then ignored)
+   * @default 'default'
+   */
+  protocol?: 'default' | 'socket.io';
+
+  /**
+   * Proxies whose X-Forwarded-For and X-Forwarded-Proto headers are trusted
+   * for handshake.address and handshake.secure: `true` trusts every hop, an
+   * array lists the proxy addresses
+   * @default false
+   */
+  trustProxy?: boolean | string[];
+
+  /**
+   * Storage of the message history of rooms created with
+   * `config.messageHistory`
+   * @default in-memory ring buffer per room (single process)
+   */
+  roomHistoryStore?: RoomHistoryStore;
+
+  /**
+   * Creates the room/broadcast adapter. Use `createPubSubAdapter(bus)` to
+   * share broadcasts between several server processes
+   * @default in-memory adapter (single process)
+   */
+  adapter?: AdapterFactory;
 }
 
 /**
@@ -339,7 +450,7 @@ interface ServerOptions {
  */
 interface ExtendedServerOptions extends ServerOptions {
   /**
-   * WebSocket server port
+   * WebSocket server port, used by listen() when no port is given
    */
   port?: number;
 
@@ -349,7 +460,7 @@ interface ExtendedServerOptions extends ServerOptions {
   host?: string;
 
   /**
-   * Maximum connections
+   * Maximum concurrent connections; further upgrades get a 503
    */
   maxConnections?: number;
 
@@ -359,12 +470,12 @@ interface ExtendedServerOptions extends ServerOptions {
   connectionTimeout?: number;
 
   /**
-   * Whether to enable per-message deflate
+   * Whether to enable per-message deflate (falls back to `compression`)
    */
   perMessageDeflate?: boolean;
 
   /**
-   * Custom WebSocket server options
+   * Custom WebSocket server options, merged into the options given to `ws`
    */
   wsOptions?: any;
 }
@@ -631,6 +742,15 @@ interface BroadcastOperator<T extends EventMap> {
    */
   emit<K extends keyof T>(event: K, ...args: Parameters<T[K]>): boolean;
 
+  /**
+   * Emit to all sockets in the operator scope and wait for one
+   * acknowledgement per socket
+   */
+  emitWithAck<K extends keyof T>(
+    event: K,
+    ...args: Parameters<T[K]>
+  ): Promise<any[]>;
+
   /**
    * Target specific room(s)
    */
@@ -652,7 +772,7 @@ interface BroadcastOperator<T extends EventMap> {
   compress(compress: boolean): BroadcastOperator<T>;
 
   /**
-   * Set timeout
+   * Set the acknowledgement timeout for the broadcast
    */
   timeout(timeout: number): BroadcastOperator<T>;
 }
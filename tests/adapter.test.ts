@@ -0,0 +1,271 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+import { SocketIOLikeServer, SocketIOLikeSocket } from '../src/server/SocketIOLikeAdapter';
+import { SocketIOLikeClient } from '../src/client/ws-adapter';
+import { InMemoryAdapter } from '../src/server/adapter';
+import { InProcessBus, PubSubAdapter, createPubSubAdapter } from '../src/server/pubsub';
+
+// Mock nanoid to avoid ES module issues
+jest.mock('nanoid', () => ({
+  nanoid: () => 'mock-id-' + Math.random().toString(36).substring(2, 11)
+}));
+
+const waitFor = async (condition: () => boolean, timeout = 2000) => {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeout) throw new Error('waitFor timed out');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+};
+
+describe('InMemoryAdapter', () => {
+  test('should answer serverSideEmit acknowledgements with no responses', async () => {
+    const io = new SocketIOLikeServer({ pingInterval: 0 });
+    await expect(io.serverSideEmitWithAck('ping')).resolves.toEqual([]);
+    expect(() => io.serverSideEmit('connection')).toThrow('"connection" is a reserved event name');
+    await new Promise<void>(resolve => io.close(resolve));
+  });
+
+  test('should track rooms per socket and sockets per room', async () => {
+    const adapter = new InMemoryAdapter({ getUser: () => undefined } as any);
+
+    adapter.addAll('a', ['room1', 'room2']);
+    adapter.addAll('b', ['room1']);
+    adapter.addAll('c', []);
+    expect(Array.from(adapter.rooms.get('room1')!)).toEqual(['a', 'b']);
+    expect(Array.from(adapter.sids.get('a')!)).toEqual(['room1', 'room2']);
+    expect(adapter.sids.has('c')).toBe(true);
+
+    adapter.del('a', 'room2');
+    expect(adapter.rooms.has('room2')).toBe(false);
+
+    adapter.delAll('a');
+    adapter.delAll('b');
+    expect(adapter.rooms.size).toBe(0);
+    expect(adapter.sids.has('a')).toBe(false);
+  });
+});
+
+describe('PubSubAdapter', () => {
+  let bus: InProcessBus;
+  let nodes: Array<{ io: SocketIOLikeServer; httpServer: http.Server; port: number }>;
+  let clients: SocketIOLikeClient[];
+  let originalWebSocket: any;
+
+  const startNode = async (options: any = {}) => {
+    const io = new SocketIOLikeServer({ pingInterval: 0, adapter: createPubSubAdapter(bus, options) });
+    const httpServer = http.createServer();
+    io.attach(httpServer);
+    await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve));
+    const node = { io, httpServer, port: (httpServer.address() as AddressInfo).port };
+    nodes.push(node);
+    return node;
+  };
+
+  // Conectar un cliente a un nodo y esperar su socket en el servidor
+  const connect = async (node: { io: SocketIOLikeServer; port: number }, nsp = '/') => {
+    const connected = new Promise<SocketIOLikeSocket>(resolve => node.io.of(nsp).once('connection', resolve));
+    const client = new SocketIOLikeClient(`ws://127.0.0.1:${node.port}${nsp}`, { reconnection: false }, false);
+    clients.push(client);
+    const socket = await connected;
+    await new Promise(resolve => client.once('connect', resolve));
+    return { client, socket };
+  };
+
+  const adapterOf = (io: SocketIOLikeServer) => io.adapter as PubSubAdapter;
+
+  beforeEach(() => {
+    originalWebSocket = (global as any).WebSocket;
+    (global as any).WebSocket = WebSocket;
+    bus = new InProcessBus();
+    nodes = [];
+    clients = [];
+  });
+
+  afterEach(async () => {
+    clients.forEach(client => client.disconnect());
+    await new Promise(resolve => setTimeout(resolve, 20));
+    for (const node of nodes) {
+      await new Promise<void>(resolve => node.io.close(resolve));
+      await new Promise<void>(resolve => node.httpServer.close(() => resolve()));
+    }
+    (global as any).WebSocket = originalWebSocket;
+  });
+
+  test('should discover the other nodes through heartbeats', async () => {
+    const a = await startNode();
+    const b = await startNode();
+    await waitFor(() => adapterOf(a.io).nodeCount === 1 && adapterOf(b.io).nodeCount === 1);
+
+    await new Promise<void>(resolve => b.io.close(resolve));
+    await waitFor(() => adapterOf(a.io).nodeCount === 0);
+  });
+
+  test('should deliver room broadcasts to sockets on every node', async () => {
+    const a = await startNode();
+    const b = await startNode();
+    await waitFor(() => adapterOf(a.io).nodeCount === 1 && adapterOf(b.io).nodeCount === 1);
+
+    const first = await connect(a);
+    const second = await connect(b);
+    const outsider = await connect(b);
+    first.socket.join('news');
+    second.socket.join('news');
+
+    const received: string[] = [];
+    first.client.on('headline', (text: string) => received.push(`a:${text}`));
+    second.client.on('headline', (text: string) => received.push(`b:${text}`));
+    outsider.client.on('headline', (text: string) => received.push(`outsider:${text}`));
+
+    a.io.to('news').emit('headline', 'hello');
+    await waitFor(() => received.length === 2);
+    expect(received.sort()).toEqual(['a:hello', 'b:hello']);
+
+    // socket.to() excluye al emisor también en los otros nodos
+    second.socket.to('news').emit('headline', 'from b');
+    await waitFor(() => received.length === 3);
+    expect(received[2]).toBe('a:from b');
+
+    // .local no sale del nodo
+    b.io.local.emit('headline', 'local');
+    await waitFor(() => received.length === 5);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(received.slice(3).sort()).toEqual(['b:local', 'outsider:local']);
+  });
+
+  test('should broadcast namespace emits across nodes only to that namespace', async () => {
+    const a = await startNode();
+    const b = await startNode();
+    await waitFor(() => adapterOf(a.io).nodeCount === 1 && adapterOf(b.io).nodeCount === 1);
+
+    const chat = await connect(b, '/chat');
+    const main = await connect(b);
+    const received: string[] = [];
+    chat.client.on('ping-all', () => received.push('chat'));
+    main.client.on('ping-all', () => received.push('main'));
+
+    a.io.of('/chat').emit('ping-all');
+    await waitFor(() => received.length === 1);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(received).toEqual(['chat']);
+  });
+
+  test('should collect broadcast acknowledgements from sockets on every node', async () => {
+    const a = await startNode();
+    const b = await startNode();
+    await waitFor(() => adapterOf(a.io).nodeCount === 1 && adapterOf(b.io).nodeCount === 1);
+
+    const first = await connect(a);
+    const second = await connect(b);
+    const silent = await connect(b);
+    first.socket.join('devices');
+    second.socket.join('devices');
+    first.client.on('status', (ack: Function) => ack('a-ok'));
+    second.client.on('status', (ack: Function) => ack('b-ok'));
+    silent.client.on('status', () => undefined);
+
+    const responses = await a.io.to('devices').timeout(1000).emitWithAck('status');
+    expect(responses.sort()).toEqual(['a-ok', 'b-ok']);
+
+    // El socket remoto que no contesta aparece en el error con su id
+    const [err, partial]: [any, any[]] = await new Promise(resolve =>
+      a.io.except([]).timeout(200).emit('status', (...args: any[]) => resolve(args as [any, any[]]))
+    );
+    expect(err.code).toBe('BROADCAST_ACK_TIMEOUT');
+    expect(err.timedOutSockets).toEqual([silent.socket.id]);
+    expect(err.missingServers).toBe(0);
+    expect(partial.sort()).toEqual(['a-ok', 'b-ok']);
+
+    // Los operadores de namespace también pasan por el adapter
+    const fromNamespace = await b.io.of('/').to('devices').timeout(1000).emitWithAck('status');
+    expect(fromNamespace.sort()).toEqual(['a-ok', 'b-ok']);
+  });
+
+  test('should collect sockets() and fetchSockets() from every node', async () => {
+    const a = await startNode();
+    const b = await startNode();
+    await waitFor(() => adapterOf(a.io).nodeCount === 1 && adapterOf(b.io).nodeCount === 1);
+
+    const local = await connect(a);
+    const remote = await connect(b);
+    await connect(b);
+    local.socket.join('team');
+    remote.socket.join('team');
+    remote.socket.data = { user: 'bob' };
+
+    const ids = await a.io.adapter.sockets(['team']);
+    expect(Array.from(ids).sort()).toEqual([local.socket.id, remote.socket.id].sort());
+    expect((await a.io.adapter.sockets([])).size).toBe(3);
+    expect(await a.io.adapter.sockets(['team'], undefined, true)).toEqual(new Set([local.socket.id]));
+
+    const sockets = await a.io.adapter.fetchSockets({ rooms: ['team'], exceptRooms: [], exceptSockets: [] });
+    expect(sockets).toHaveLength(2);
+    expect(sockets).toContain(local.socket);
+    expect(sockets.find(socket => socket.id === remote.socket.id)).toEqual({
+      id: remote.socket.id,
+      namespace: '/',
+      rooms: ['team'],
+      data: { user: 'bob' },
+      handshake: { query: expect.any(Object), auth: undefined },
+    });
+
+    await expect(a.io.of('/').to('team').allSockets()).resolves.toEqual(ids);
+  });
+
+  test('should deliver serverSideEmit to the other servers and collect their acks', async () => {
+    const a = await startNode();
+    const b = await startNode();
+    const c = await startNode();
+    await waitFor(() => [a, b, c].every(node => adapterOf(node.io).nodeCount === 2));
+
+    const received: string[] = [];
+    a.io.on('invalidate', (key: string) => received.push(`a:${key}`));
+    b.io.on('invalidate', (key: string) => received.push(`b:${key}`));
+    c.io.on('invalidate', (key: string) => received.push(`c:${key}`));
+
+    a.io.serverSideEmit('invalidate', 'users');
+    await waitFor(() => received.length === 2);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(received.sort()).toEqual(['b:users', 'c:users']);
+
+    b.io.on('status', (ack: Function) => ack('b'));
+    c.io.on('status', (ack: Function) => {
+      ack('c');
+      ack('c again');
+    });
+    const responses = await a.io.serverSideEmitWithAck('status');
+    expect(responses.sort()).toEqual(['b', 'c']);
+  });
+
+  test('should report partial serverSideEmit responses on timeout', async () => {
+    const a = await startNode({ requestsTimeout: 100 });
+    const b = await startNode({ requestsTimeout: 100 });
+    bus.publish('socket.io-like', { uid: 'silent-node', type: 'heartbeat' });
+    await waitFor(() => adapterOf(a.io).nodeCount === 2);
+
+    b.io.on('shutdown', (reason: string, ack: Function) => ack(`b:${reason}`));
+    const result = await new Promise<any[]>(resolve => {
+      a.io.serverSideEmit('shutdown', 'deploy', (err: any, responses: any[]) => resolve([err, responses]));
+    });
+    expect(result[0]).toMatchObject({
+      code: 'ADAPTER_REQUEST_TIMEOUT',
+      message: 'Timeout reached: only 1 responses received out of 2',
+    });
+    expect(result[1]).toEqual(['b:deploy']);
+  });
+
+  test('should reject requests when a node does not answer in time', async () => {
+    const a = await startNode({ requestsTimeout: 50 });
+    // Nodo que envía heartbeats pero nunca responde
+    bus.publish('socket.io-like', { uid: 'silent-node', type: 'heartbeat' });
+    await waitFor(() => adapterOf(a.io).nodeCount === 1);
+
+    await expect(a.io.adapter.sockets([])).rejects.toMatchObject({
+      code: 'ADAPTER_REQUEST_TIMEOUT',
+      message: 'Timeout reached: only 0 responses received out of 1',
+    });
+    // Las consultas locales no preguntan a los otros nodos
+    await expect(a.io.adapter.sockets([], undefined, true)).resolves.toEqual(new Set());
+  });
+});
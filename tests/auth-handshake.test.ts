@@ -0,0 +1,135 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+import { SocketIOLikeServer, SocketIOLikeSocket } from '../src/server/SocketIOLikeAdapter';
+import { SocketIOLikeClient } from '../src/client/ws-adapter';
+
+// Mock nanoid to avoid ES module issues
+jest.mock('nanoid', () => ({
+  nanoid: () => 'mock-id-' + Math.random().toString(36).substring(2, 11)
+}));
+
+describe('Auth handshake', () => {
+  let io: SocketIOLikeServer;
+  let httpServer: http.Server;
+  let port: number;
+  let clients: SocketIOLikeClient[];
+  let originalWebSocket: any;
+
+  const start = async (options: any = {}) => {
+    io = new SocketIOLikeServer({ pingInterval: 0, ...options });
+    httpServer = http.createServer();
+    io.attach(httpServer);
+    await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve));
+    port = (httpServer.address() as AddressInfo).port;
+  };
+
+  const createClient = (options: any = {}) => {
+    const client = new SocketIOLikeClient(`ws://127.0.0.1:${port}/`, { reconnection: false, ...options }, false);
+    clients.push(client);
+    return client;
+  };
+
+  // Middleware que solo acepta el token 'secret'
+  const requireToken = (socket: SocketIOLikeSocket, next: (err?: Error) => void) => {
+    if (socket.handshake.auth.token === 'secret') {
+      next();
+      return;
+    }
+    const error = new Error('Not authorized');
+    (error as any).data = { reason: socket.handshake.auth.token ? 'expired_token' : 'unknown' };
+    next(error);
+  };
+
+  beforeEach(() => {
+    originalWebSocket = (global as any).WebSocket;
+    (global as any).WebSocket = WebSocket;
+    clients = [];
+  });
+
+  afterEach(async () => {
+    clients.forEach(client => client.disconnect());
+    await new Promise(resolve => setTimeout(resolve, 20));
+    await new Promise<void>(resolve => io.close(resolve));
+    await new Promise<void>(resolve => httpServer.close(() => resolve()));
+    (global as any).WebSocket = originalWebSocket;
+  });
+
+  test('should send auth in the connect packet and expose it to middlewares', async () => {
+    await start();
+    const seen: any[] = [];
+    io.use((socket, next) => {
+      seen.push(socket.handshake.auth);
+      next();
+    });
+    const connected = new Promise<SocketIOLikeSocket>(resolve => io.once('connection', resolve));
+    const client = createClient({ auth: { token: 'secret' } });
+
+    const socket = await connected;
+    await new Promise(resolve => client.once('connect', resolve));
+    expect(seen).toEqual([{ token: 'secret' }]);
+    expect(socket.handshake.auth).toEqual({ token: 'secret' });
+    // El token no viaja en la URL
+    expect(socket.handshake.query.auth).toBeUndefined();
+    expect(JSON.stringify(socket.handshake.query)).not.toContain('secret');
+  });
+
+  test('should resolve the auth callback on every connection', async () => {
+    await start();
+    io.use(requireToken);
+    let calls = 0;
+    const connected = new Promise<SocketIOLikeSocket>(resolve => io.once('connection', resolve));
+    const client = createClient({
+      auth: (cb: (data: any) => void) => {
+        calls++;
+        setTimeout(() => cb({ token: 'secret' }), 10);
+      },
+    });
+
+    const socket = await connected;
+    await new Promise(resolve => client.once('connect', resolve));
+    expect(calls).toBe(1);
+    expect(socket.handshake.auth).toEqual({ token: 'secret' });
+  });
+
+  test('should reject unauthenticated sockets with an AuthError', async () => {
+    await start();
+    io.use(requireToken);
+    const connections: SocketIOLikeSocket[] = [];
+    io.on('connection', (socket: SocketIOLikeSocket) => connections.push(socket));
+    const client = createClient({ auth: { token: 'old' } });
+    const connectListener = jest.fn();
+    client.on('connect', connectListener);
+
+    const error: any = await new Promise(resolve => client.once('connect_error', resolve));
+    expect(error.message).toBe('Not authorized');
+    expect(error.code).toBe('AUTH_ERROR');
+    expect(error.type).toBe('AuthenticationError');
+    expect(error.data).toEqual({ reason: 'expired_token' });
+    expect(error.context).toMatchObject({
+      namespace: '/',
+      auth: { token: 'old' },
+      reason: 'expired_token',
+    });
+
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(connectListener).not.toHaveBeenCalled();
+    expect(connections).toHaveLength(0);
+    expect(client.connected).toBe(false);
+  });
+
+  test('should send the auth callback result in CONNECT with the socket.io protocol', async () => {
+    await start({ protocol: 'socket.io' });
+    io.use(requireToken);
+    const connected = new Promise<SocketIOLikeSocket>(resolve => io.once('connection', resolve));
+    const client = createClient({ protocol: 'socket.io', auth: (cb: (data: any) => void) => cb({ token: 'secret' }) });
+    const socket = await connected;
+    await new Promise(resolve => client.once('connect', resolve));
+    expect(socket.handshake.auth).toEqual({ token: 'secret' });
+
+    const rejected = createClient({ protocol: 'socket.io' });
+    const error: any = await new Promise(resolve => rejected.once('connect_error', resolve));
+    expect(error.code).toBe('AUTH_ERROR');
+    expect(error.context.reason).toBe('invalid_credentials');
+  });
+});
@@ -0,0 +1,134 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+import { SocketIOLikeServer, SocketIOLikeSocket } from '../src/server/SocketIOLikeAdapter';
+import { SocketIOLikeClient } from '../src/client/ws-adapter';
+import {
+  BinaryReconstructor,
+  deconstructPacket,
+  hasBinary,
+  reconstructPacket,
+} from '../src/parser/binary';
+
+// Mock nanoid to avoid ES module issues
+jest.mock('nanoid', () => ({
+  nanoid: () => 'mock-id-' + Math.random().toString(36).substring(2, 11)
+}));
+
+describe('Binary packet encoding', () => {
+  test('should detect binary data at any depth', () => {
+    expect(hasBinary([1, { a: [new Uint8Array(2)] }])).toBe(true);
+    expect(hasBinary({ buffer: new ArrayBuffer(1) })).toBe(true);
+    expect(hasBinary([{ date: new Date() }, 'text', null])).toBe(false);
+  });
+
+  test('should replace binaries with placeholders and restore them', () => {
+    const file = Buffer.from('hello');
+    const thumb = new Uint8Array([1, 2, 3]);
+    const { packet, attachments } = deconstructPacket([file, { meta: { thumb }, name: 'a.txt' }]);
+
+    expect(packet).toEqual([
+      { _placeholder: true, num: 0 },
+      { meta: { thumb: { _placeholder: true, num: 1 } }, name: 'a.txt' },
+    ]);
+    expect(attachments).toEqual([file, thumb]);
+    expect(reconstructPacket(packet, attachments)).toEqual([file, { meta: { thumb }, name: 'a.txt' }]);
+  });
+
+  test('should wait for every attachment before returning the packet', () => {
+    const reconstructor = new BinaryReconstructor();
+    const header = { event: 'file', payload: [{ _placeholder: true, num: 0 }, { _placeholder: true, num: 1 }], attachments: 2 };
+
+    expect(reconstructor.start(header)).toBeNull();
+    expect(reconstructor.add('first')).toBeNull();
+    expect(reconstructor.add('second')).toEqual({ event: 'file', payload: ['first', 'second'] });
+    expect(reconstructor.pending).toBe(false);
+    expect(() => reconstructor.add('extra')).toThrow('Unexpected binary frame');
+  });
+});
+
+describe('Binary payloads over the wire', () => {
+  let io: SocketIOLikeServer;
+  let httpServer: http.Server;
+  let client: SocketIOLikeClient;
+  let serverSocket: SocketIOLikeSocket;
+  let originalWebSocket: any;
+
+  beforeEach(async () => {
+    originalWebSocket = (global as any).WebSocket;
+    (global as any).WebSocket = WebSocket;
+
+    io = new SocketIOLikeServer({ pingInterval: 0 });
+    httpServer = http.createServer();
+    io.attach(httpServer);
+    await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve));
+    const { port } = httpServer.address() as AddressInfo;
+
+    const connected = new Promise<SocketIOLikeSocket>(resolve => io.of('/').once('connection', resolve));
+    client = new SocketIOLikeClient(`ws://127.0.0.1:${port}`, { reconnection: false }, false);
+    serverSocket = await connected;
+  });
+
+  afterEach(async () => {
+    client.disconnect();
+    await new Promise(resolve => setTimeout(resolve, 20));
+    await new Promise<void>(resolve => io.close(resolve));
+    await new Promise<void>(resolve => httpServer.close(() => resolve()));
+    (global as any).WebSocket = originalWebSocket;
+  });
+
+  test('should deliver client binaries as Buffers on the server, nested included', async () => {
+    const received = new Promise<any[]>(resolve => {
+      serverSocket.on('file', (...args: any[]) => resolve(args));
+    });
+
+    client.emit('file', new Uint8Array([1, 2, 3]), { name: 'a.bin', chunks: [new Uint8Array([4]).buffer] });
+
+    const [file, meta] = await received;
+    expect(Buffer.isBuffer(file)).toBe(true);
+    expect([...file]).toEqual([1, 2, 3]);
+    expect(meta.name).toBe('a.bin');
+    expect(Buffer.isBuffer(meta.chunks[0])).toBe(true);
+    expect([...meta.chunks[0]]).toEqual([4]);
+  });
+
+  test('should deliver server binaries as ArrayBuffers on the client', async () => {
+    const received = new Promise<any[]>(resolve => {
+      client.on('image', (...args: any[]) => resolve(args));
+    });
+
+    serverSocket.emit('image', { data: Buffer.from([9, 8, 7]), type: 'png' });
+
+    const [image] = await received;
+    expect(image.type).toBe('png');
+    expect(image.data).toBeInstanceOf(ArrayBuffer);
+    expect([...new Uint8Array(image.data)]).toEqual([9, 8, 7]);
+  });
+
+  test('should support binaries in acknowledgements both ways', async () => {
+    serverSocket.on('download', (name: string, ack: Function) => {
+      ack({ name, content: Buffer.from('abc') });
+    });
+    client.on('upload-request', (ack: Function) => ack(new Uint8Array([5, 6])));
+
+    const download = await new Promise<any>(resolve => {
+      client.emit('download', 'a.txt', (response: any) => resolve(response));
+    });
+    expect(download.name).toBe('a.txt');
+    expect(new TextDecoder().decode(download.content)).toBe('abc');
+
+    const uploaded = await serverSocket.timeout(1000).emitWithAck('upload-request');
+    expect(Buffer.isBuffer(uploaded)).toBe(true);
+    expect([...uploaded]).toEqual([5, 6]);
+  });
+
+  test('should send Blobs from the client', async () => {
+    const received = new Promise<any>(resolve => serverSocket.on('blob', resolve));
+
+    client.emit('blob', new Blob(['blob-data']));
+
+    const blob = await received;
+    expect(Buffer.isBuffer(blob)).toBe(true);
+    expect(blob.toString()).toBe('blob-data');
+  });
+});
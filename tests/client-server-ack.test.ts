@@ -0,0 +1,128 @@
+import { SocketIOLikeClient } from '../src/client/ws-adapter';
+
+// Mock WebSocket
+class MockWebSocket {
+  static CONNECTING = 0;
+  static OPEN = 1;
+  static CLOSING = 2;
+  static CLOSED = 3;
+
+  readyState = MockWebSocket.OPEN;
+  onopen: ((event: Event) => void) | null = null;
+  onclose: ((event: CloseEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+
+  constructor(public url: string) {
+    // Simulate successful connection
+    setTimeout(() => {
+      if (this.onopen) {
+        this.onopen({} as Event);
+      }
+    }, 10);
+  }
+
+  close(code?: number, reason?: string) {
+    this.readyState = MockWebSocket.CLOSED;
+    if (this.onclose) {
+      this.onclose({ code: code || 1000, reason: reason || '', wasClean: true } as CloseEvent);
+    }
+  }
+
+  send(data: string) {
+    // Mock sending data - can be overridden in tests
+  }
+}
+
+describe('SocketIOLikeClient Server-initiated Acknowledgements', () => {
+  let client: SocketIOLikeClient;
+  let originalWebSocket: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    originalWebSocket = global.WebSocket;
+    (global as any).WebSocket = MockWebSocket;
+  });
+
+  afterEach(() => {
+    if (client) {
+      client.disconnect();
+    }
+    jest.useRealTimers();
+    global.WebSocket = originalWebSocket;
+  });
+
+  test('should reply to server callbackIds through the handler ack', (done) => {
+    client = new SocketIOLikeClient('ws://localhost:3000', {
+      autoConnect: false
+    });
+
+    const sent: any[] = [];
+    let socket: any;
+    (global as any).WebSocket = class extends MockWebSocket {
+      constructor(url: string) {
+        super(url);
+        socket = this;
+      }
+      send(data: string) {
+        sent.push(JSON.parse(data));
+      }
+    };
+
+    client.on('command', (payload: any, ack: Function) => {
+      expect(payload).toEqual({ action: 'reboot' });
+      ack('done', 1);
+
+      expect(sent).toEqual([
+        { event: 'callback-response', callbackId: 'srv_cb_1', payload: ['done', 1] }
+      ]);
+      done();
+    });
+
+    client.on('connect', () => {
+      socket.onmessage({
+        data: JSON.stringify({
+          event: 'command',
+          payload: [{ action: 'reboot' }],
+          callbackId: 'srv_cb_1'
+        })
+      } as MessageEvent);
+    });
+
+    client.connect();
+    jest.advanceTimersByTime(100);
+  });
+
+  test('should not echo incoming server events back to the server', (done) => {
+    client = new SocketIOLikeClient('ws://localhost:3000', {
+      autoConnect: false
+    });
+
+    const sendSpy = jest.fn();
+    let socket: any;
+    (global as any).WebSocket = class extends MockWebSocket {
+      constructor(url: string) {
+        super(url);
+        socket = this;
+      }
+      send(data: string) {
+        sendSpy(data);
+      }
+    };
+
+    client.on('news', () => {
+      expect(sendSpy).not.toHaveBeenCalled();
+      done();
+    });
+
+    client.on('connect', () => {
+      socket.onmessage({
+        data: JSON.stringify({ event: 'news', payload: ['hello'] })
+      } as MessageEvent);
+    });
+
+    client.connect();
+    jest.advanceTimersByTime(100);
+  });
+});
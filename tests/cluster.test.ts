@@ -0,0 +1,175 @@
+import cluster from 'cluster';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+import { SocketIOLikeServer, SocketIOLikeSocket } from '../src/server/SocketIOLikeAdapter';
+import { SocketIOLikeClient } from '../src/client/ws-adapter';
+import { PubSubAdapter } from '../src/server/pubsub';
+import { ClusterBus, createWorkerThreadsAdapter, setupPrimary } from '../src/server/cluster';
+
+// Mock nanoid to avoid ES module issues
+jest.mock('nanoid', () => ({
+  nanoid: () => 'mock-id-' + Math.random().toString(36).substring(2, 11)
+}));
+
+const waitFor = async (condition: () => boolean, timeout = 2000) => {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeout) throw new Error('waitFor timed out');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+};
+
+describe('ClusterBus', () => {
+  const originalSend = process.send;
+
+  afterEach(() => {
+    process.send = originalSend;
+  });
+
+  test('should publish through process.send and only deliver adapter messages', () => {
+    const sent: any[] = [];
+    process.send = ((message: any) => {
+      sent.push(message);
+      return true;
+    }) as any;
+
+    const bus = new ClusterBus();
+    const received: any[] = [];
+    const listener = (message: any) => received.push(message);
+    bus.subscribe('main', listener);
+
+    bus.publish('main', { type: 'heartbeat' });
+    expect(sent).toEqual([{ __socketIOLikeAdapter: true, channel: 'main', message: { type: 'heartbeat' } }]);
+
+    // Mensajes del primario: solo los del adapter y del canal suscrito
+    const deliver = (message: any) => (process as any).emit('message', message);
+    deliver(sent[0]);
+    deliver({ __socketIOLikeAdapter: true, channel: 'other', message: 1 });
+    deliver({ type: 'app-message' });
+    expect(received).toEqual([{ type: 'heartbeat' }]);
+
+    bus.unsubscribe('main', listener);
+    deliver(sent[0]);
+    expect(received).toHaveLength(1);
+  });
+
+  test('should fail to publish outside a cluster worker', () => {
+    process.send = undefined;
+    expect(() => new ClusterBus().publish('main', {})).toThrow('ClusterBus can only be used in a cluster worker');
+  });
+});
+
+describe('setupPrimary', () => {
+  const originalWorkers = cluster.workers;
+
+  afterEach(() => {
+    (cluster as any).workers = originalWorkers;
+  });
+
+  test('should relay adapter messages to the sibling workers', () => {
+    const fakeWorker = (id: number, connected = true) => ({
+      id,
+      sent: [] as any[],
+      isConnected: () => connected,
+      send(message: any) {
+        this.sent.push(message);
+        return true;
+      },
+    });
+    const sender = fakeWorker(1);
+    const sibling = fakeWorker(2);
+    const disconnected = fakeWorker(3, false);
+    (cluster as any).workers = { 1: sender, 2: sibling, 3: disconnected };
+
+    setupPrimary();
+    setupPrimary();
+
+    const message = { __socketIOLikeAdapter: true, channel: 'main', message: { type: 'broadcast' } };
+    cluster.emit('message', sender, message);
+    cluster.emit('message', sender, { type: 'app-message' });
+
+    expect(sibling.sent).toEqual([message]);
+    expect(sender.sent).toEqual([]);
+    expect(disconnected.sent).toEqual([]);
+  });
+});
+
+describe('Worker threads adapter', () => {
+  let nodes: Array<{ io: SocketIOLikeServer; httpServer: http.Server; port: number }>;
+  let clients: SocketIOLikeClient[];
+  let originalWebSocket: any;
+
+  const startNode = async () => {
+    const io = new SocketIOLikeServer({
+      pingInterval: 0,
+      adapter: createWorkerThreadsAdapter({ channel: 'cluster-test' }),
+    });
+    const httpServer = http.createServer();
+    io.attach(httpServer);
+    await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve));
+    const node = { io, httpServer, port: (httpServer.address() as AddressInfo).port };
+    nodes.push(node);
+    return node;
+  };
+
+  const connect = async (node: { io: SocketIOLikeServer; port: number }) => {
+    const connected = new Promise<SocketIOLikeSocket>(resolve => node.io.of('/').once('connection', resolve));
+    const client = new SocketIOLikeClient(`ws://127.0.0.1:${node.port}`, { reconnection: false }, false);
+    clients.push(client);
+    const socket = await connected;
+    await new Promise(resolve => client.once('connect', resolve));
+    return { client, socket };
+  };
+
+  const adapterOf = (io: SocketIOLikeServer) => io.adapter as PubSubAdapter;
+
+  beforeEach(() => {
+    originalWebSocket = (global as any).WebSocket;
+    (global as any).WebSocket = WebSocket;
+    nodes = [];
+    clients = [];
+  });
+
+  afterEach(async () => {
+    clients.forEach(client => client.disconnect());
+    await new Promise(resolve => setTimeout(resolve, 20));
+    for (const node of nodes) {
+      await new Promise<void>(resolve => node.io.close(resolve));
+      await new Promise<void>(resolve => node.httpServer.close(() => resolve()));
+    }
+    (global as any).WebSocket = originalWebSocket;
+  });
+
+  test('should broadcast to rooms across servers and aggregate getStats()', async () => {
+    const a = await startNode();
+    const b = await startNode();
+    await waitFor(() => adapterOf(a.io).nodeCount === 1 && adapterOf(b.io).nodeCount === 1);
+
+    const first = await connect(a);
+    const second = await connect(b);
+    await connect(b);
+    first.socket.join('news');
+    second.socket.join('news');
+    second.socket.join('sports');
+
+    const received: string[] = [];
+    first.client.on('headline', (text: string) => received.push(`a:${text}`));
+    second.client.on('headline', (text: string) => received.push(`b:${text}`));
+    a.io.to('news').emit('headline', 'hello');
+    await waitFor(() => received.length === 2);
+    expect(received.sort()).toEqual(['a:hello', 'b:hello']);
+
+    // Los cambios de salas se propagan sin esperar al siguiente heartbeat
+    await waitFor(() => a.io.getStats().totalUsers === 3);
+    const stats = a.io.getStats();
+    expect(stats.nodes).toBe(2);
+    expect(stats.rooms).toEqual({ news: 2, sports: 1 });
+    expect(stats.totalRooms).toBe(2);
+    expect(stats.users).toHaveLength(1);
+
+    second.socket.leave('sports');
+    await waitFor(() => a.io.getStats().totalRooms === 1);
+    expect(a.io.getStats().rooms).toEqual({ news: 2 });
+  });
+});
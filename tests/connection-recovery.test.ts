@@ -0,0 +1,195 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+import { SocketIOLikeServer, SocketIOLikeSocket } from '../src/server/SocketIOLikeAdapter';
+import { SessionStore } from '../src/server/recovery';
+import { SocketIOLikeClient } from '../src/client/ws-adapter';
+
+// Mock nanoid to avoid ES module issues
+jest.mock('nanoid', () => ({
+  nanoid: () => 'mock-id-' + Math.random().toString(36).substring(2, 11)
+}));
+
+const waitFor = (client: SocketIOLikeClient, event: string): Promise<any[]> =>
+  new Promise(resolve => client.once(event, (...args: any[]) => resolve(args)));
+
+describe('Connection state recovery', () => {
+  let io: SocketIOLikeServer;
+  let httpServer: http.Server;
+  let client: SocketIOLikeClient;
+  let port: number;
+  let originalWebSocket: any;
+
+  const start = async (options: ConstructorParameters<typeof SocketIOLikeServer>[0]) => {
+    io = new SocketIOLikeServer({ pingInterval: 0, ...options });
+    httpServer = http.createServer();
+    io.attach(httpServer);
+    await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve));
+    port = (httpServer.address() as AddressInfo).port;
+  };
+
+  const nextConnection = (): Promise<SocketIOLikeSocket> =>
+    new Promise(resolve => io.of('/').once('connection', resolve));
+
+  const connectClient = async () => {
+    const connection = nextConnection();
+    const registered = new Promise<any[]>(resolve => {
+      client = new SocketIOLikeClient(`ws://127.0.0.1:${port}`, {
+        reconnectionDelay: 100,
+        reconnectionDelayMax: 200,
+      }, false);
+      client.once('user-registered', (...args: any[]) => resolve(args));
+    });
+    const [info] = await registered;
+    return { socket: await connection, info };
+  };
+
+  // Cortar la conexión sin cierre ordenado (código 1006)
+  const dropConnection = (socket: SocketIOLikeSocket) => {
+    (socket as any).ws.terminate();
+  };
+
+  beforeEach(() => {
+    originalWebSocket = (global as any).WebSocket;
+    (global as any).WebSocket = WebSocket;
+  });
+
+  afterEach(async () => {
+    if (client) {
+      client.disconnect();
+      // Dejar que llegue el cierre del WebSocket
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+    if (io) {
+      await new Promise<void>(resolve => io.close(resolve));
+    }
+    if (httpServer && httpServer.listening) {
+      await new Promise<void>(resolve => httpServer.close(() => resolve()));
+    }
+    (global as any).WebSocket = originalWebSocket;
+  });
+
+  test('should restore id, rooms, data and missed packets after a brief disconnect', async () => {
+    await start({ connectionStateRecovery: { maxDisconnectionDuration: 5000 } });
+    const { socket, info } = await connectClient();
+    expect(info.pid).toEqual(expect.any(String));
+    expect(info.recovered).toBe(false);
+
+    socket.join('news');
+    socket.data.user = 'alice';
+
+    const news: any[] = [];
+    client.on('headline', (title: string) => news.push(title));
+
+    // Broadcasts sent while the client is offline
+    socket.on('disconnect', () => {
+      io.to('news').emit('headline', 'first');
+      io.of('/').emit('headline', 'second');
+      io.to('sports').emit('headline', 'ignored');
+    });
+
+    const reconnection = nextConnection();
+    const reregistered = waitFor(client, 'user-registered');
+    dropConnection(socket);
+
+    const restored = await reconnection;
+    const [reinfo] = await reregistered;
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(restored.id).toBe(socket.id);
+    expect(restored.recovered).toBe(true);
+    expect(restored.getRooms()).toEqual(['news']);
+    expect(restored.data).toEqual({ user: 'alice' });
+    expect(restored.stats.reconnections).toBe(1);
+    expect(restored.stats.messagesSent).toBeGreaterThan(socket.stats.messagesSent);
+    expect(io.getUsersInRoom('news').map(user => user.id)).toEqual([socket.id]);
+    expect(reinfo).toMatchObject({ id: socket.id, pid: info.pid, recovered: true });
+    expect(client.recovered).toBe(true);
+    expect(news).toEqual(['first', 'second']);
+  });
+
+  test('should start a new session once maxDisconnectionDuration has elapsed', async () => {
+    await start({ connectionStateRecovery: { maxDisconnectionDuration: 10 } });
+    const { socket } = await connectClient();
+    socket.join('news');
+
+    const reconnection = nextConnection();
+    dropConnection(socket);
+    const fresh = await reconnection;
+
+    expect(fresh.id).not.toBe(socket.id);
+    expect(fresh.recovered).toBe(false);
+    expect(fresh.getRooms()).toEqual([]);
+    expect(client.recovered).toBe(false);
+  });
+
+  test('should skip middlewares for recovered sessions', async () => {
+    await start({ connectionStateRecovery: { skipMiddlewares: true } });
+    const middleware = jest.fn((_socket: any, next: (err?: Error) => void) => next());
+    io.use(middleware);
+
+    const { socket } = await connectClient();
+    const reconnection = nextConnection();
+    dropConnection(socket);
+    await reconnection;
+
+    expect(middleware).toHaveBeenCalledTimes(1);
+  });
+
+  test('should not keep the session when the client disconnects on purpose', async () => {
+    await start({ connectionStateRecovery: {} });
+    const { socket } = await connectClient();
+    const closed = new Promise(resolve => socket.on('disconnect', resolve));
+
+    client.disconnect();
+    await closed;
+
+    expect((io as any).sessionStore.size).toBe(0);
+  });
+
+  test('should not send a pid when recovery is disabled', async () => {
+    await start({});
+    const { info } = await connectClient();
+
+    expect(info.pid).toBeUndefined();
+  });
+});
+
+describe('SessionStore', () => {
+  const session = (rooms: string[], namespace = '/') => ({
+    pid: 'pid-1',
+    sid: 'sid-1',
+    namespace,
+    rooms,
+    data: {},
+  });
+
+  test('should only record packets that would have reached the session', () => {
+    const store = new SessionStore(1000);
+    store.save(session(['a']));
+
+    store.recordPacket({ rooms: ['a'], exceptRooms: [], exceptSockets: [] }, 'in-room', []);
+    store.recordPacket({ rooms: ['b'], exceptRooms: [], exceptSockets: [] }, 'other-room', []);
+    store.recordPacket({ rooms: [], exceptRooms: ['a'], exceptSockets: [] }, 'excluded', []);
+    store.recordPacket({ rooms: [], exceptRooms: [], exceptSockets: ['sid-1'] }, 'except-self', []);
+    store.recordPacket({ namespace: '/chat', rooms: [], exceptRooms: [], exceptSockets: [] }, 'other-nsp', []);
+    store.recordPacket({ namespace: '/', rooms: [], exceptRooms: [], exceptSockets: [] }, 'all', [1]);
+
+    expect(store.take('pid-1')!.missedPackets.map(packet => packet.event)).toEqual(['in-room', 'all']);
+    expect(store.take('pid-1')).toBeUndefined();
+  });
+
+  test('should discard expired sessions', () => {
+    jest.useFakeTimers();
+    try {
+      const store = new SessionStore(1000);
+      store.save(session([]));
+
+      jest.advanceTimersByTime(1001);
+
+      expect(store.take('pid-1')).toBeUndefined();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,117 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+import { SocketIOLikeServer } from '../src/server/SocketIOLikeAdapter';
+
+// Mock nanoid to avoid ES module issues
+jest.mock('nanoid', () => ({
+  nanoid: () => 'mock-id-' + Math.random().toString(36).substring(2, 11)
+}));
+
+describe('Origin allow-listing', () => {
+  let io: SocketIOLikeServer;
+  let httpServer: http.Server;
+  let port: number;
+  const clients: WebSocket[] = [];
+
+  const start = async (options: ConstructorParameters<typeof SocketIOLikeServer>[0]) => {
+    io = new SocketIOLikeServer({ pingInterval: 0, ...options });
+    httpServer = http.createServer();
+    io.attach(httpServer);
+    await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve));
+    port = (httpServer.address() as AddressInfo).port;
+  };
+
+  // Resultado del upgrade: 'open' o el código HTTP del rechazo
+  const upgrade = (headers: Record<string, string> = {}): Promise<'open' | number> =>
+    new Promise(resolve => {
+      const ws = new WebSocket(`ws://127.0.0.1:${port}/`, { headers });
+      clients.push(ws);
+      ws.on('open', () => resolve('open'));
+      ws.on('unexpected-response', (_req, res) => resolve(res.statusCode || 0));
+      ws.on('error', () => undefined);
+    });
+
+  const origin = (value: string) => upgrade({ origin: value });
+
+  afterEach(async () => {
+    clients.splice(0).forEach(ws => ws.terminate());
+    await new Promise<void>(resolve => io.close(resolve));
+    await new Promise<void>(resolve => httpServer.close(() => resolve()));
+  });
+
+  test('should accept any origin without cors.origin', async () => {
+    await start({});
+    expect(await origin('https://evil.example')).toBe('open');
+  });
+
+  test('should match a string and reject other origins with a 403 and a logged reason', async () => {
+    await start({ cors: { origin: 'https://app.example.com' } });
+    const warn = jest.spyOn(io.logger, 'warn');
+
+    expect(await origin('https://app.example.com')).toBe('open');
+    expect(await origin('https://evil.example')).toBe(403);
+    // Sin Origin no es un navegador
+    expect(await upgrade()).toBe('open');
+    expect(warn).toHaveBeenCalledWith(
+      'connection_rejected',
+      { message: 'Origin https://evil.example is not allowed' },
+      {}
+    );
+  });
+
+  test('should match arrays of strings and regular expressions', async () => {
+    await start({ cors: { origin: ['https://app.example.com', /\.trusted\.dev$/] } });
+
+    expect(await origin('https://app.example.com')).toBe('open');
+    expect(await origin('https://staging.trusted.dev')).toBe('open');
+    expect(await origin('https://trusted.dev.evil.example')).toBe(403);
+  });
+
+  test('should ask the function form, also for requests without an Origin', async () => {
+    const seen: Array<string | undefined> = [];
+    await start({
+      cors: {
+        origin: (requestOrigin, callback) => {
+          seen.push(requestOrigin);
+          setTimeout(() => callback(null, requestOrigin === 'https://app.example.com'), 5);
+        },
+      },
+    });
+
+    expect(await origin('https://app.example.com')).toBe('open');
+    expect(await origin('https://evil.example')).toBe(403);
+    expect(await upgrade()).toBe(403);
+    expect(seen).toEqual(['https://app.example.com', 'https://evil.example', undefined]);
+  });
+
+  test('should run allowRequest after the origin check', async () => {
+    const allowRequest = jest.fn((req: http.IncomingMessage, callback: (err: string | null, success: boolean) => void) => {
+      const allowed = req.headers['x-api-key'] === 'key';
+      callback(allowed ? null : 'Missing API key', allowed);
+    });
+    await start({ cors: { origin: 'https://app.example.com' }, allowRequest });
+    const warn = jest.spyOn(io.logger, 'warn');
+
+    expect(await upgrade({ origin: 'https://app.example.com', 'x-api-key': 'key' })).toBe('open');
+    expect(await upgrade({ origin: 'https://app.example.com' })).toBe(403);
+    expect(await upgrade({ origin: 'https://evil.example', 'x-api-key': 'key' })).toBe(403);
+    expect(allowRequest).toHaveBeenCalledTimes(2);
+    expect(warn).toHaveBeenCalledWith('connection_rejected', { message: 'Missing API key' }, {});
+  });
+
+  test('should check the origin of the polling handshake', async () => {
+    await start({ cors: { origin: 'https://app.example.com' } });
+
+    const rejected = await fetch(`http://127.0.0.1:${port}/?EIO=4&transport=polling`, {
+      headers: { origin: 'https://evil.example' },
+    });
+    expect(rejected.status).toBe(403);
+
+    const accepted = await fetch(`http://127.0.0.1:${port}/?EIO=4&transport=polling`, {
+      headers: { origin: 'https://app.example.com' },
+    });
+    expect(accepted.status).toBe(200);
+    await accepted.text();
+  });
+});
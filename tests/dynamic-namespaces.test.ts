@@ -0,0 +1,120 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+import { SocketIOLikeServer, SocketIOLikeSocket } from '../src/server/SocketIOLikeAdapter';
+import { SocketIOLikeClient } from '../src/client/ws-adapter';
+import { ParentNamespace } from '../src/server/ParentNamespace';
+
+// Mock nanoid to avoid ES module issues
+jest.mock('nanoid', () => ({
+  nanoid: () => 'mock-id-' + Math.random().toString(36).substring(2, 11)
+}));
+
+describe('Dynamic namespaces', () => {
+  let io: SocketIOLikeServer;
+  let httpServer: http.Server;
+  let port: number;
+  let clients: SocketIOLikeClient[];
+  let originalWebSocket: any;
+
+  const start = async (options: Record<string, any> = {}) => {
+    io = new SocketIOLikeServer({ pingInterval: 0, ...options });
+    httpServer = http.createServer();
+    io.attach(httpServer);
+    await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve));
+    port = (httpServer.address() as AddressInfo).port;
+  };
+
+  const createClient = (nsp: string, options: Record<string, any> = {}) => {
+    const client = new SocketIOLikeClient(`ws://127.0.0.1:${port}${nsp}`, { reconnection: false, ...options }, false);
+    clients.push(client);
+    return client;
+  };
+
+  beforeEach(() => {
+    originalWebSocket = (global as any).WebSocket;
+    (global as any).WebSocket = WebSocket;
+    clients = [];
+  });
+
+  afterEach(async () => {
+    clients.forEach(client => client.disconnect());
+    await new Promise(resolve => setTimeout(resolve, 20));
+    await new Promise<void>(resolve => io.close(resolve));
+    await new Promise<void>(resolve => httpServer.close(() => resolve()));
+    (global as any).WebSocket = originalWebSocket;
+  });
+
+  test('should create child namespaces matching a regex and inherit middleware and handlers', async () => {
+    await start();
+    const parent = io.of(/^\/tenant-\d+$/);
+    expect(parent).toBeInstanceOf(ParentNamespace);
+
+    parent.use((socket, next) => {
+      socket.data = { tenant: socket.nsp.name };
+      next();
+    });
+    const connected = new Promise<SocketIOLikeSocket>(resolve => parent.once('connection', resolve));
+    const client = createClient('/tenant-42');
+
+    const socket = await connected;
+    expect(socket.nsp.name).toBe('/tenant-42');
+    expect(socket.data).toEqual({ tenant: '/tenant-42' });
+    expect(io.of('/tenant-42')).toBe(socket.nsp);
+    expect(parent.children.has(socket.nsp)).toBe(true);
+
+    await new Promise(resolve => client.once('connect', resolve));
+    const received = new Promise(resolve => client.once('notice', resolve));
+    parent.emit('notice', 'to every tenant');
+    await expect(received).resolves.toBe('to every tenant');
+    expect(() => parent.emit('notice', () => {})).toThrow('Acknowledgements are not supported on parent namespaces');
+  });
+
+  test('should ask predicates with the auth of the CONNECT packet', async () => {
+    await start({ protocol: 'socket.io' });
+    const checked: Array<[string, any]> = [];
+    const parent = io.of((name, auth, next) => {
+      checked.push([name, auth]);
+      next(null, auth.token === 'secret');
+    });
+    const connected = new Promise<SocketIOLikeSocket>(resolve => parent.once('connection', resolve));
+
+    createClient('/workspace', { protocol: 'socket.io', auth: { token: 'secret' } });
+    const socket = await connected;
+
+    expect(socket.nsp.name).toBe('/workspace');
+    expect(checked).toEqual([['/workspace', { token: 'secret' }]]);
+
+    const rejected = createClient('/other', { protocol: 'socket.io', auth: { token: 'wrong' } });
+    const error: any = await new Promise(resolve => rejected.once('connect_error', resolve));
+    expect(error.message).toBe('Invalid namespace');
+    expect(error.code).toBe('CONNECT_ERROR');
+  });
+
+  test('should reject unknown namespaces instead of creating them', async () => {
+    await start({ protocol: 'socket.io' });
+    io.of(/^\/tenant-\d+$/);
+
+    const client = createClient('/unknown', { protocol: 'socket.io' });
+    const error: any = await new Promise(resolve => client.once('connect_error', resolve));
+
+    expect(error.message).toBe('Invalid namespace');
+    expect(error.code).toBe('CONNECT_ERROR');
+    expect(io.getStats().namespaces['/unknown']).toBeUndefined();
+  });
+
+  test('should close the connection to unknown namespaces with the default protocol', async () => {
+    await start();
+    const client = createClient('/unknown');
+    const error = new Promise<any>(resolve => client.once('connect_error', resolve));
+
+    const [reason, details]: any[] = await new Promise(resolve =>
+      client.once('disconnect', (...args: any[]) => resolve(args))
+    );
+    expect((await error).message).toBe('Invalid namespace');
+    expect((await error).code).toBe('CONNECT_ERROR');
+    expect(reason).toBe('Invalid namespace');
+    expect(details.code).toBe(1008);
+    expect(io.getStats().totalNamespaces).toBe(1);
+  });
+});
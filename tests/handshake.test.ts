@@ -0,0 +1,94 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+import { SocketIOLikeServer, SocketIOLikeSocket } from '../src/server/SocketIOLikeAdapter';
+import { resolveAddress } from '../src/server/handshake';
+
+// Mock nanoid to avoid ES module issues
+jest.mock('nanoid', () => ({
+  nanoid: () => 'mock-id-' + Math.random().toString(36).substring(2, 11)
+}));
+
+describe('Handshake', () => {
+  let io: SocketIOLikeServer;
+  let httpServer: http.Server;
+  let port: number;
+  let sockets: WebSocket[];
+
+  const start = async (options: any = {}) => {
+    io = new SocketIOLikeServer({ pingInterval: 0, ...options });
+    httpServer = http.createServer();
+    io.attach(httpServer);
+    await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve));
+    port = (httpServer.address() as AddressInfo).port;
+  };
+
+  // Conectar con un WebSocket con cabeceras propias y enviar el paquete connect
+  // (anunciado con connectPacket en la URL)
+  const connect = async (path: string, headers: Record<string, string>, auth: any = {}) => {
+    const connected = new Promise<SocketIOLikeSocket>(resolve => io.once('connection', resolve));
+    const ws = new WebSocket(`ws://127.0.0.1:${port}${path}`, { headers });
+    sockets.push(ws);
+    ws.on('open', () => ws.send(JSON.stringify({ event: 'connect', payload: [auth] })));
+    return connected;
+  };
+
+  beforeEach(() => {
+    sockets = [];
+  });
+
+  afterEach(async () => {
+    sockets.forEach(ws => ws.close());
+    await new Promise(resolve => setTimeout(resolve, 20));
+    await new Promise<void>(resolve => io.close(resolve));
+    await new Promise<void>(resolve => httpServer.close(() => resolve()));
+  });
+
+  test('should expose headers, address, url, origin and issue time', async () => {
+    await start();
+    const before = Date.now();
+    const socket = await connect('/?room=lobby&connectPacket=1', {
+      cookie: 'session=abc',
+      'user-agent': 'handshake-test',
+      origin: 'https://app.example.com',
+      'x-forwarded-for': '203.0.113.7',
+    }, { token: 'secret' });
+
+    const { handshake } = socket;
+    expect(handshake.headers.cookie).toBe('session=abc');
+    expect(handshake.headers['user-agent']).toBe('handshake-test');
+    expect(handshake.query).toEqual({ room: 'lobby', connectPacket: '1' });
+    expect(handshake.auth).toEqual({ token: 'secret' });
+    expect(handshake.url).toBe('/?room=lobby&connectPacket=1');
+    // Sin trustProxy no se confía en X-Forwarded-For
+    expect(handshake.address).toMatch(/127\.0\.0\.1$/);
+    expect(handshake.xdomain).toBe(true);
+    expect(handshake.secure).toBe(false);
+    expect(handshake.issued).toBeGreaterThanOrEqual(before);
+    expect(new Date(handshake.time).getTime()).toBe(Math.floor(handshake.issued / 1000) * 1000);
+
+    // El usuario registrado comparte el mismo handshake
+    expect(io.getUser(socket.id)!.handshake).toEqual(handshake);
+  });
+
+  test('should use X-Forwarded-For and X-Forwarded-Proto behind a trusted proxy', async () => {
+    await start({ trustProxy: ['127.0.0.1'] });
+    const socket = await connect('/?connectPacket=1', {
+      'x-forwarded-for': '198.51.100.4, 203.0.113.7',
+      'x-forwarded-proto': 'https',
+    });
+
+    expect(socket.handshake.address).toBe('203.0.113.7');
+    expect(socket.handshake.secure).toBe(true);
+    expect(socket.handshake.xdomain).toBe(false);
+  });
+
+  test('should resolve the client address from the trusted hops', () => {
+    expect(resolveAddress('10.0.0.1', '198.51.100.4, 10.0.0.2', false)).toBe('10.0.0.1');
+    expect(resolveAddress('10.0.0.1', '198.51.100.4, 10.0.0.2', true)).toBe('198.51.100.4');
+    expect(resolveAddress('::ffff:10.0.0.1', '198.51.100.4, 10.0.0.2', ['10.0.0.1', '10.0.0.2'])).toBe('198.51.100.4');
+    expect(resolveAddress('10.0.0.1', '198.51.100.4, 10.0.0.2', ['10.0.0.1'])).toBe('10.0.0.2');
+    expect(resolveAddress('192.0.2.9', '198.51.100.4', ['10.0.0.1'])).toBe('192.0.2.9');
+    expect(resolveAddress('10.0.0.1', undefined, true)).toBe('10.0.0.1');
+  });
+});
@@ -0,0 +1,106 @@
+import { EventEmitter } from 'events';
+import { SocketIOLikeServer, SocketIOLikeSocket } from '../src/server/SocketIOLikeAdapter';
+
+// Mock nanoid to avoid ES module issues
+jest.mock('nanoid', () => ({
+  nanoid: () => 'mock-id-' + Math.random().toString(36).substring(2, 11)
+}));
+
+// ws mock whose pong answers are controlled by the test
+class MockWs extends EventEmitter {
+  readyState = 1;
+  ping = jest.fn();
+  send = jest.fn();
+
+  terminate = jest.fn(() => {
+    this.readyState = 3;
+    this.emit('close', 1006, Buffer.from(''));
+  });
+
+  close() {
+    this.readyState = 3;
+    this.emit('close', 1000, Buffer.from('Normal closure'));
+  }
+}
+
+describe('Server heartbeat', () => {
+  let server: SocketIOLikeServer;
+
+  const connect = () => {
+    const ws = new MockWs();
+    const socket = new SocketIOLikeSocket(ws as any, { url: '/' }, server, server.of('/'));
+    return { ws, socket };
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    server = new SocketIOLikeServer({ pingInterval: 1000, pingTimeout: 500 });
+  });
+
+  afterEach(() => {
+    server.close();
+    jest.useRealTimers();
+  });
+
+  test('should ping every socket on each interval once the server listens', () => {
+    server.listen(0);
+    const { ws } = connect();
+
+    jest.advanceTimersByTime(1000);
+    expect(ws.ping).toHaveBeenCalledTimes(1);
+
+    ws.emit('pong', Buffer.from(''));
+    jest.advanceTimersByTime(1000);
+    expect(ws.ping).toHaveBeenCalledTimes(2);
+  });
+
+  test('should not send a new ping while the previous one is unanswered', () => {
+    const { ws, socket } = connect();
+
+    socket.heartbeat(5000);
+    socket.heartbeat(5000);
+
+    expect(ws.ping).toHaveBeenCalledTimes(1);
+  });
+
+  test('should measure latency and track the last pong', () => {
+    const { ws, socket } = connect();
+    const latencyListener = jest.fn();
+    socket.on('latency', latencyListener);
+
+    socket.heartbeat(500);
+    jest.advanceTimersByTime(120);
+    ws.emit('pong', Buffer.from(''));
+
+    expect(latencyListener).toHaveBeenCalledWith(120);
+    expect(socket.getConnectionInfo().latency).toBe(120);
+    expect(server.getUser(socket.id)!.lastActivity).toBe(socket.getConnectionInfo().lastPong);
+  });
+
+  test('should evict the socket with reason "ping timeout" when no pong arrives', () => {
+    const { ws, socket } = connect();
+    const disconnectListener = jest.fn();
+    socket.on('disconnect', disconnectListener);
+
+    socket.heartbeat(500);
+    jest.advanceTimersByTime(499);
+    expect(ws.terminate).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1);
+
+    expect(ws.terminate).toHaveBeenCalled();
+    expect(disconnectListener).toHaveBeenCalledWith({ code: 1006, reasonString: 'ping timeout' });
+    expect(server.hasUser(socket.id)).toBe(false);
+  });
+
+  test('should not schedule pings when pingInterval is 0', () => {
+    server.close();
+    server = new SocketIOLikeServer({ pingInterval: 0 });
+    server.listen(0);
+    const { ws } = connect();
+
+    jest.advanceTimersByTime(60000);
+
+    expect(ws.ping).not.toHaveBeenCalled();
+  });
+});
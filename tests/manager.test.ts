@@ -0,0 +1,198 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+import { SocketIOLikeServer, SocketIOLikeSocket } from '../src/server/SocketIOLikeAdapter';
+import { SocketIOLikeClient, io as connectClient } from '../src/client/ws-adapter';
+import { Manager } from '../src/client/manager';
+
+// Mock nanoid to avoid ES module issues
+jest.mock('nanoid', () => ({
+  nanoid: () => 'mock-id-' + Math.random().toString(36).substring(2, 11)
+}));
+
+describe('Manager', () => {
+  let io: SocketIOLikeServer;
+  let httpServer: http.Server;
+  let url: string;
+  let sockets: SocketIOLikeClient[];
+  let originalWebSocket: any;
+
+  const connected = (nsp: string) =>
+    new Promise<SocketIOLikeSocket>(resolve => io.of(nsp).once('connection', resolve));
+
+  const track = (socket: SocketIOLikeClient) => {
+    sockets.push(socket);
+    return socket;
+  };
+
+  beforeEach(async () => {
+    originalWebSocket = (global as any).WebSocket;
+    (global as any).WebSocket = WebSocket;
+    sockets = [];
+    io = new SocketIOLikeServer({ pingInterval: 0, protocol: 'socket.io' });
+    httpServer = http.createServer();
+    io.attach(httpServer);
+    await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve));
+    url = `ws://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+    io.of('/chat');
+    io.of('/admin');
+  });
+
+  afterEach(async () => {
+    sockets.forEach(socket => socket.disconnect());
+    await new Promise(resolve => setTimeout(resolve, 20));
+    await new Promise<void>(resolve => io.close(resolve));
+    await new Promise<void>(resolve => httpServer.close(() => resolve()));
+    (global as any).WebSocket = originalWebSocket;
+  });
+
+  test('should multiplex namespaces with their own handlers and auth over one connection', async () => {
+    const manager = new Manager(url, { reconnection: false }, false);
+    const chatConnected = connected('/chat');
+    const adminConnected = connected('/admin');
+    const chat = track(manager.socket('/chat', { auth: { role: 'user' } }));
+    const admin = track(manager.socket('/admin', { auth: { role: 'admin' } }));
+    expect(manager.socket('/chat')).toBe(chat);
+    expect(chat.io).toBe(manager);
+
+    const [serverChat, serverAdmin] = await Promise.all([chatConnected, adminConnected]);
+    await Promise.all([chat, admin].map(socket => socket.connected || new Promise(resolve => socket.once('connect', resolve))));
+    expect((serverChat as any).ws).toBe((serverAdmin as any).ws);
+    expect(serverChat.handshake.auth).toEqual({ role: 'user' });
+    expect(serverAdmin.handshake.auth).toEqual({ role: 'admin' });
+    expect(chat.id).toBe(serverChat.id);
+    expect(admin.id).toBe(serverAdmin.id);
+
+    const received: string[] = [];
+    chat.on('news', (text: string) => received.push(`chat:${text}`));
+    admin.on('news', (text: string) => received.push(`admin:${text}`));
+    io.of('/admin').emit('news', 'only admins');
+    serverAdmin.on('ping-admin', (ack: Function) => ack('pong'));
+    await expect(new Promise(resolve => admin.emit('ping-admin', resolve))).resolves.toBe('pong');
+    expect(received).toEqual(['admin:only admins']);
+
+    // Cerrar un namespace no cierra la conexión de los demás
+    const chatClosed = new Promise(resolve => serverChat.once('disconnect', resolve));
+    chat.disconnect();
+    await chatClosed;
+    expect(serverAdmin.isAlive()).toBe(true);
+    expect(manager.connected).toBe(true);
+    await expect(new Promise(resolve => admin.emit('ping-admin', resolve))).resolves.toBe('pong');
+
+    // Con el último namespace se cierra la conexión
+    const closed = new Promise(resolve => manager.once('close', resolve));
+    admin.disconnect();
+    await closed;
+    expect(manager.connected).toBe(false);
+  });
+
+  test('should close the shared connection only when disconnectSockets gets close', async () => {
+    const manager = new Manager(url, { reconnection: false }, false);
+    const chatConnected = connected('/chat');
+    const adminConnected = connected('/admin');
+    const chat = track(manager.socket('/chat'));
+    const admin = track(manager.socket('/admin'));
+    const [serverChat, serverAdmin] = await Promise.all([chatConnected, adminConnected]);
+    await Promise.all([chat, admin].map(socket => socket.connected || new Promise(resolve => socket.once('connect', resolve))));
+
+    // Sin close solo sale el namespace
+    const chatClosed = Promise.all([
+      new Promise(resolve => serverChat.once('disconnect', resolve)),
+      new Promise(resolve => chat.once('disconnect', resolve)),
+    ]);
+    io.of('/chat').disconnectSockets();
+    await chatClosed;
+    expect(serverAdmin.isAlive()).toBe(true);
+    expect(manager.connected).toBe(true);
+
+    const chatReconnected = connected('/chat');
+    chat.connect();
+    await chatReconnected;
+    await (chat.connected || new Promise(resolve => chat.once('connect', resolve)));
+
+    // Con close se cierra la conexión y con ella el resto de namespaces
+    const adminClosed = new Promise(resolve => serverAdmin.once('disconnect', resolve));
+    const closed = new Promise(resolve => manager.once('close', resolve));
+    io.of('/chat').disconnectSockets(true);
+    await Promise.all([adminClosed, closed]);
+    expect(manager.connected).toBe(false);
+  });
+
+  test('should reuse the Manager of a URL in io() unless forceNew is set', async () => {
+    const options = { protocol: 'socket.io' as const, reconnection: false, autoConnect: false };
+    const chat = track(connectClient(`${url}/chat`, { ...options, forceNew: false }));
+    const admin = track(connectClient(`${url}/admin`, { ...options, forceNew: false }));
+    const forced = track(connectClient(`${url}/admin`, { ...options, forceNew: true }));
+
+    expect(admin.io).toBe(chat.io);
+    expect(forced.io).toBeInstanceOf(Manager);
+    expect(forced.io).not.toBe(chat.io);
+    // forceNew no sustituye al Manager guardado para la URL
+    const later = track(connectClient(`${url}/news`, options));
+    expect(later.io).toBe(chat.io);
+  });
+
+  test('should keep the other namespaces open when one is rejected', async () => {
+    const manager = new Manager(url, { reconnection: false }, false);
+    const chatConnected = connected('/chat');
+    const chat = track(manager.socket('/chat'));
+    await chatConnected;
+    await new Promise(resolve => chat.once('connect', resolve));
+
+    const unknown = track(manager.socket('/unknown'));
+    const error: any = await new Promise(resolve => unknown.once('connect_error', resolve));
+    expect(error.message).toBe('Invalid namespace');
+    expect(unknown.connected).toBe(false);
+    expect(chat.connected).toBe(true);
+    expect(manager.connected).toBe(true);
+  });
+
+  test('should reconnect once for every namespace of the connection', async () => {
+    const manager = new Manager(url, { reconnectionDelay: 10, reconnectionDelayMax: 20 }, false);
+    const chatConnected = connected('/chat');
+    const adminConnected = connected('/admin');
+    const chat = track(manager.socket('/chat'));
+    const admin = track(manager.socket('/admin'));
+    const [serverChat] = await Promise.all([chatConnected, adminConnected]);
+    await Promise.all([chat, admin].map(socket => socket.connected || new Promise(resolve => socket.once('connect', resolve))));
+
+    const events: string[] = [];
+    manager.on('reconnect_attempt', () => events.push('reconnect_attempt'));
+    manager.on('reconnect', () => events.push('reconnect'));
+    chat.on('disconnect', () => events.push('chat:disconnect'));
+    admin.on('disconnect', () => events.push('admin:disconnect'));
+    const reconnected = Promise.all([
+      new Promise(resolve => chat.once('connect', resolve)),
+      new Promise(resolve => admin.once('connect', resolve)),
+      connected('/chat'),
+      connected('/admin'),
+    ]);
+
+    (serverChat as any).ws.terminate();
+    const [, , newChat, newAdmin] = await reconnected;
+    expect(events).toEqual(['chat:disconnect', 'admin:disconnect', 'reconnect_attempt', 'reconnect']);
+    expect((newChat as any).ws).toBe((newAdmin as any).ws);
+  });
+
+  test('should reuse managers in io() unless forceNew is set', () => {
+    const options = { protocol: 'socket.io' as const, autoConnect: false };
+    const chat = track(connectClient(`${url}/chat`, options));
+    const admin = track(connectClient(`${url}/admin`, options));
+    const forced = track(connectClient(`${url}/admin`, { ...options, forceNew: true }));
+    const again = track(connectClient(`${url}/chat`, options));
+
+    expect(chat.io).toBeInstanceOf(Manager);
+    expect(admin.io).toBe(chat.io);
+    expect(forced.io).not.toBe(chat.io);
+    // El mismo namespace otra vez necesita su propia conexión
+    expect(again.io).not.toBe(chat.io);
+    expect(again).not.toBe(chat);
+
+    // El protocolo por defecto no multiplexa
+    const plain = track(connectClient(`${url}/chat`, { autoConnect: false }));
+    expect(plain.io).toBeUndefined();
+    const multiplexed = track(connectClient(`${url}/chat`, { autoConnect: false, multiplex: true }));
+    expect(multiplexed.io).toBeUndefined();
+    expect(multiplexed).not.toBe(plain);
+  });
+});
@@ -1,60 +1,88 @@
+import { SocketIOLikeServer } from '../src/server/SocketIOLikeAdapter';
+import { Namespace } from '../src/server/Namespace';
+
+// Mock nanoid to avoid ES module issues
+jest.mock('nanoid', () => ({
+  nanoid: () => 'mock-id-' + Math.random().toString(36).substring(2, 11)
+}));
+
+// Socket mínimo para Namespace.addSocket
+const fakeSocket = (id: string): any => ({ id, acceptConnection: jest.fn() });
+
+// Middleware de eventos (4 parámetros) que deja pasar todo
+const passEvents = (_socket: any, _event: string, _data: any[], next: (err?: Error) => void): void => next();
+
 // Simple unit test for middleware functionality
 describe('Middleware Unit Tests', () => {
+  let io: SocketIOLikeServer;
+
+  beforeEach(() => {
+    io = new SocketIOLikeServer({ pingInterval: 0 });
+  });
+
+  afterEach(async () => {
+    await new Promise<void>(resolve => io.close(resolve));
+  });
+
   test('should pass basic middleware test', () => {
     // Test that middleware functionality is implemented
     expect(true).toBe(true);
   });
 
-  test('should verify middleware functionality exists in built files', () => {
-    const fs = require('fs');
-    const path = require('path');
-    
-    // Check if the built files contain middleware-related code
-    const namespacePath = path.join(__dirname, '../dist/server/Namespace.js');
-    const adapterPath = path.join(__dirname, '../dist/server/SocketIOLikeAdapter.js');
-    
-    expect(fs.existsSync(namespacePath)).toBe(true);
-    expect(fs.existsSync(adapterPath)).toBe(true);
-    
-    const namespaceContent = fs.readFileSync(namespacePath, 'utf8');
-    const adapterContent = fs.readFileSync(adapterPath, 'utf8');
-    
+  test('should verify middleware functionality exists', async () => {
+    const calls: string[] = [];
+    const namespace = new Namespace('/chat');
+
     // Check for middleware-related code in Namespace
-    expect(namespaceContent).toContain('middleware');
-    expect(namespaceContent).toContain('eventMiddleware');
-    expect(namespaceContent).toContain('executeMiddleware');
-    
+    namespace.use((socket, next) => {
+      calls.push(`namespace:${socket.id}`);
+      next();
+    });
+    namespace.use(passEvents);
+    await namespace.addSocket(fakeSocket('a'));
+    expect(calls).toEqual(['namespace:a']);
+    expect(namespace.getStats()).toMatchObject({ middlewareCount: 1, eventMiddlewareCount: 1 });
+
     // Check for middleware-related code in Server
-    expect(adapterContent).toContain('use(middleware');
-    expect(adapterContent).toContain('executeServerMiddleware');
-    expect(adapterContent).toContain('executeEventMiddleware');
-    expect(adapterContent).toContain('serverMiddlewareCount');
-    expect(adapterContent).toContain('serverEventMiddlewareCount');
+    io.use((socket, next) => {
+      calls.push(`server:${socket.id}`);
+      next();
+    });
+    io.use(passEvents);
+    await (io as any).executeServerMiddleware(fakeSocket('b'));
+    expect(calls).toEqual(['namespace:a', 'server:b']);
+    expect(io.getStats()).toMatchObject({ serverMiddlewareCount: 1, serverEventMiddlewareCount: 1 });
   });
 
   test('should verify middleware method overloading', () => {
-    const fs = require('fs');
-    const path = require('path');
-    
-    const adapterPath = path.join(__dirname, '../dist/server/SocketIOLikeAdapter.js');
-    const adapterContent = fs.readFileSync(adapterPath, 'utf8');
-    
     // Check for middleware method overloading logic
-    expect(adapterContent).toContain('middleware.length === 4');
-    expect(adapterContent).toContain('eventMiddleware.push');
-    expect(adapterContent).toContain('middleware.push');
+    io.use((_socket, next) => next());
+    expect((io as any).useMiddleware).toBe(true);
+    expect(io.useEventMiddleware).toBe(false);
+
+    io.use(passEvents);
+    expect(io.useEventMiddleware).toBe(true);
+    expect(io.getStats()).toMatchObject({ serverMiddlewareCount: 1, serverEventMiddlewareCount: 1 });
   });
 
-  test('should verify error handling in middleware', () => {
-    const fs = require('fs');
-    const path = require('path');
-    
-    const adapterPath = path.join(__dirname, '../dist/server/SocketIOLikeAdapter.js');
-    const adapterContent = fs.readFileSync(adapterPath, 'utf8');
-    
+  test('should verify error handling in middleware', async () => {
+    const namespace = new Namespace('/chat');
+    const errors: any[] = [];
+    namespace.on('connect_error', (error: Error) => errors.push(error.message));
+    namespace.use((socket, next) => {
+      if (socket.id === 'throws') {
+        throw new Error('thrown');
+      }
+      next(new Error('rejected'));
+    });
+
     // Check for error handling in middleware execution
-    expect(adapterContent).toContain('connect_error');
-    expect(adapterContent).toContain('catch(error');
-    expect(adapterContent).toContain('reject(error');
+    await expect(namespace.addSocket(fakeSocket('a'))).rejects.toThrow('rejected');
+    await expect(namespace.addSocket(fakeSocket('throws'))).rejects.toThrow('thrown');
+    expect(errors).toEqual(['rejected', 'thrown']);
+    expect(namespace.getStats().socketCount).toBe(0);
+
+    io.use((_socket, next) => next(new Error('server rejected')));
+    await expect((io as any).executeServerMiddleware(fakeSocket('b'))).rejects.toThrow('server rejected');
   });
-});
\ No newline at end of file
+});
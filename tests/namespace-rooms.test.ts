@@ -0,0 +1,109 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+import { SocketIOLikeServer, SocketIOLikeSocket } from '../src/server/SocketIOLikeAdapter';
+import { SocketIOLikeClient } from '../src/client/ws-adapter';
+
+// Mock nanoid to avoid ES module issues
+jest.mock('nanoid', () => ({
+  nanoid: () => 'mock-id-' + Math.random().toString(36).substring(2, 11)
+}));
+
+describe('Namespace-scoped rooms', () => {
+  let io: SocketIOLikeServer;
+  let httpServer: http.Server;
+  let port: number;
+  let clients: SocketIOLikeClient[];
+  let originalWebSocket: any;
+
+  const connect = async (nsp = '/') => {
+    const connected = new Promise<SocketIOLikeSocket>(resolve => io.of(nsp).once('connection', resolve));
+    const client = new SocketIOLikeClient(`ws://127.0.0.1:${port}${nsp}`, { reconnection: false }, false);
+    clients.push(client);
+    const socket = await connected;
+    await new Promise(resolve => client.once('connect', resolve));
+    return { client, socket };
+  };
+
+  // Registra los mensajes recibidos por cada cliente
+  const record = (received: string[], name: string, client: SocketIOLikeClient) =>
+    client.on('news', (text: string) => received.push(`${name}:${text}`));
+
+  const settle = () => new Promise(resolve => setTimeout(resolve, 50));
+
+  beforeEach(async () => {
+    originalWebSocket = (global as any).WebSocket;
+    (global as any).WebSocket = WebSocket;
+    clients = [];
+    io = new SocketIOLikeServer({ pingInterval: 0 });
+    httpServer = http.createServer();
+    io.attach(httpServer);
+    await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve));
+    port = (httpServer.address() as AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    clients.forEach(client => client.disconnect());
+    await new Promise(resolve => setTimeout(resolve, 20));
+    await new Promise<void>(resolve => io.close(resolve));
+    await new Promise<void>(resolve => httpServer.close(() => resolve()));
+    (global as any).WebSocket = originalWebSocket;
+  });
+
+  test('should not leak room broadcasts between namespaces', async () => {
+    const chat = await connect('/chat');
+    const chatPeer = await connect('/chat');
+    const admin = await connect('/admin');
+    chat.socket.join('lobby');
+    chatPeer.socket.join('lobby');
+    admin.socket.join('lobby');
+
+    const received: string[] = [];
+    record(received, 'chat', chat.client);
+    record(received, 'chatPeer', chatPeer.client);
+    record(received, 'admin', admin.client);
+
+    io.of('/chat').to('lobby').emit('news', 'nsp');
+    chat.socket.to('lobby').emit('news', 'socket');
+    chat.socket.broadcast.emit('news', 'broadcast');
+    await settle();
+
+    expect(received.sort()).toEqual(['chat:nsp', 'chatPeer:broadcast', 'chatPeer:nsp', 'chatPeer:socket']);
+  });
+
+  test('should keep room metadata per namespace', async () => {
+    const chat = await connect('/chat');
+    const admin = await connect('/admin');
+    chat.socket.join('lobby');
+    admin.socket.join('lobby');
+    admin.socket.join('ops');
+
+    expect(io.of('/chat').getRoomUserCount('lobby')).toBe(1);
+    expect(io.of('/chat').getRoomSocketIds('lobby')).toEqual([chat.socket.id]);
+    expect(io.of('/admin').getAllRooms().map(room => room.name).sort()).toEqual(['lobby', 'ops']);
+    expect(io.of('/chat').hasRoom('ops')).toBe(false);
+
+    admin.socket.leave('ops');
+    expect(io.of('/admin').hasRoom('ops')).toBe(false);
+    expect(io.of('/admin').getRoomMetadata('ops')).toBeUndefined();
+  });
+
+  test('should address the default namespace from the server-level API', async () => {
+    const main = await connect();
+    const chat = await connect('/chat');
+    main.socket.join('lobby');
+    chat.socket.join('lobby');
+
+    const received: string[] = [];
+    record(received, 'main', main.client);
+    record(received, 'chat', chat.client);
+
+    io.to('lobby').emit('news', 'server');
+    await settle();
+
+    expect(received).toEqual(['main:server']);
+    expect(io.getRoomUserCount('lobby')).toBe(1);
+    expect(io.getUsersInRoom('lobby').map(user => user.id)).toEqual([main.socket.id]);
+    expect(io.getStats().rooms).toEqual({ lobby: 1 });
+  });
+});
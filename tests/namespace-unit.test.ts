@@ -1,3 +1,12 @@
+import * as wsio from '../src/index';
+import { SocketIOLikeServer } from '../src/server/SocketIOLikeAdapter';
+import { Namespace } from '../src/server/Namespace';
+
+// Mock nanoid to avoid ES module issues
+jest.mock('nanoid', () => ({
+  nanoid: () => 'mock-id-' + Math.random().toString(36).substring(2, 11)
+}));
+
 // Simple unit test for Namespace class functionality
 describe('Namespace Unit Tests', () => {
   test('should pass basic namespace test', () => {
@@ -5,40 +14,28 @@ describe('Namespace Unit Tests', () => {
     expect(true).toBe(true);
   });
 
-  test('should verify namespace class exists in built files', () => {
-    // This test verifies that the namespace functionality compiles correctly
-    const fs = require('fs');
-    const path = require('path');
-    
-    // Check if the built Namespace.js file exists
-    const namespacePath = path.join(__dirname, '../dist/server/Namespace.js');
-    const adapterPath = path.join(__dirname, '../dist/server/SocketIOLikeAdapter.js');
-    
-    expect(fs.existsSync(namespacePath)).toBe(true);
-    expect(fs.existsSync(adapterPath)).toBe(true);
-    
-    // Check if the built files contain namespace-related code
-    const namespaceContent = fs.readFileSync(namespacePath, 'utf8');
-    const adapterContent = fs.readFileSync(adapterPath, 'utf8');
-    
-    expect(namespaceContent).toContain('class Namespace');
-    expect(namespaceContent).toContain('addSocket');
-    expect(namespaceContent).toContain('removeSocket');
-    expect(namespaceContent).toContain('addToRoom');
-    expect(namespaceContent).toContain('removeFromRoom');
-    
-    expect(adapterContent).toContain('of(namespaceName');
-    expect(adapterContent).toContain('namespaces');
+  test('should verify namespace class behaviour', async () => {
+    const namespace = new Namespace('/chat');
+    const socket: any = { id: 'a', acceptConnection: jest.fn() };
+
+    await namespace.addSocket(socket);
+    expect(socket.nsp).toBe(namespace);
+    expect(namespace.addToRoom('lobby', 'a').joined).toBe(true);
+    expect(namespace.getRoomSocketIds('lobby')).toEqual(['a']);
+    namespace.removeFromRoom('lobby', 'a');
+    expect(namespace.hasRoom('lobby')).toBe(false);
+    namespace.removeSocket('a');
+    expect(namespace.getStats().socketCount).toBe(0);
+
+    // El servidor crea cada namespace una sola vez
+    const io = new SocketIOLikeServer({ pingInterval: 0 });
+    expect(io.of('/chat')).toBeInstanceOf(Namespace);
+    expect(io.of('/chat')).toBe(io.of('/chat'));
+    expect(Object.keys(io.getStats().namespaces).sort()).toEqual(['/', '/chat']);
+    await new Promise<void>(resolve => io.close(resolve));
   });
 
   test('should verify namespace exports in index', () => {
-    const fs = require('fs');
-    const path = require('path');
-    
-    const indexPath = path.join(__dirname, '../dist/index.js');
-    expect(fs.existsSync(indexPath)).toBe(true);
-    
-    const indexContent = fs.readFileSync(indexPath, 'utf8');
-    expect(indexContent).toContain('Namespace');
+    expect(wsio.Namespace).toBe(Namespace);
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,136 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+import { SocketIOLikeServer, SocketIOLikeSocket } from '../src/server/SocketIOLikeAdapter';
+import { SocketIOLikeClient } from '../src/client/ws-adapter';
+import {
+  JsonParser,
+  MessagePackParser,
+  decodeMessagePack,
+  encodeMessagePack,
+  type Parser,
+} from '../src/parser';
+
+// Mock nanoid to avoid ES module issues
+jest.mock('nanoid', () => ({
+  nanoid: () => 'mock-id-' + Math.random().toString(36).substring(2, 11)
+}));
+
+describe('MessagePack codec', () => {
+  test.each([
+    ['nil', null],
+    ['booleans', [true, false]],
+    ['positive integers', [0, 127, 128, 255, 256, 65535, 65536, 4294967295]],
+    ['negative integers', [-1, -32, -33, -128, -129, -32768, -32769, -2147483648]],
+    ['floats and large numbers', [1.5, -0.25, 2 ** 40, -(2 ** 40)]],
+    ['strings', ['', 'hi', 'ñandú 🚀', 'x'.repeat(40), 'y'.repeat(300), 'z'.repeat(70000)]],
+    ['nested structures', { a: [1, { b: 'c' }], d: {}, e: [], f: new Array(20).fill(1) }],
+  ])('should round-trip %s', (_name, value) => {
+    expect(decodeMessagePack(encodeMessagePack(value))).toEqual(value);
+  });
+
+  test('should encode binaries with the bin type', () => {
+    const encoded = encodeMessagePack({ data: new Uint8Array([1, 2, 3]) });
+    const decoded = decodeMessagePack(encoded);
+
+    expect(encoded).toEqual(new Uint8Array([0x81, 0xa4, 0x64, 0x61, 0x74, 0x61, 0xc4, 0x03, 1, 2, 3]));
+    expect(Buffer.isBuffer(decoded.data)).toBe(true);
+    expect([...decoded.data]).toEqual([1, 2, 3]);
+  });
+
+  test('should drop undefined keys and use toJSON like JSON', () => {
+    const date = new Date('2024-01-01T00:00:00.000Z');
+    expect(decodeMessagePack(encodeMessagePack({ a: undefined, date }))).toEqual({
+      date: '2024-01-01T00:00:00.000Z',
+    });
+  });
+
+  test('should reject truncated data', () => {
+    const encoded = encodeMessagePack('hello');
+    expect(() => decodeMessagePack(encoded.subarray(0, 3))).toThrow('Unexpected end');
+  });
+});
+
+describe('Parsers', () => {
+  test('JsonParser should emit a text frame plus attachments', () => {
+    const parser = new JsonParser();
+    const frames = parser.encode({ event: 'file', payload: [Buffer.from('x')] });
+
+    expect(frames).toHaveLength(2);
+    expect(JSON.parse(frames[0] as string)).toEqual({
+      event: 'file',
+      payload: [{ _placeholder: true, num: 0 }],
+      attachments: 1,
+    });
+
+    const decoder = parser.createDecoder();
+    expect(decoder.add(frames[0])).toBeNull();
+    expect(decoder.add(frames[1])).toEqual({ event: 'file', payload: [Buffer.from('x')] });
+  });
+
+  test('MessagePackParser should emit one binary frame per packet', () => {
+    const parser = new MessagePackParser();
+    const packet = { event: 'telemetry', payload: [{ lat: 40.4168, lng: -3.7038, speed: 42 }], callbackId: 'cb_1' };
+    const frames = parser.encode(packet);
+
+    expect(frames).toHaveLength(1);
+    expect(frames[0]).toBeInstanceOf(Uint8Array);
+    expect((frames[0] as Uint8Array).length).toBeLessThan(JSON.stringify(packet).length);
+    expect(parser.createDecoder().add(frames[0])).toEqual(packet);
+  });
+
+  test('MessagePackParser should reject text frames', () => {
+    expect(() => new MessagePackParser().createDecoder().add('{}')).toThrow('binary frames');
+  });
+});
+
+describe('Configurable parser over the wire', () => {
+  let io: SocketIOLikeServer;
+  let httpServer: http.Server;
+  let client: SocketIOLikeClient;
+  let originalWebSocket: any;
+
+  const start = async (parser: Parser) => {
+    io = new SocketIOLikeServer({ pingInterval: 0, parser });
+    httpServer = http.createServer();
+    io.attach(httpServer);
+    await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve));
+    const { port } = httpServer.address() as AddressInfo;
+
+    const connected = new Promise<SocketIOLikeSocket>(resolve => io.of('/').once('connection', resolve));
+    client = new SocketIOLikeClient(`ws://127.0.0.1:${port}`, { reconnection: false, parser }, false);
+    return connected;
+  };
+
+  beforeEach(() => {
+    originalWebSocket = (global as any).WebSocket;
+    (global as any).WebSocket = WebSocket;
+  });
+
+  afterEach(async () => {
+    client.disconnect();
+    await new Promise(resolve => setTimeout(resolve, 20));
+    await new Promise<void>(resolve => io.close(resolve));
+    await new Promise<void>(resolve => httpServer.close(() => resolve()));
+    (global as any).WebSocket = originalWebSocket;
+  });
+
+  test('should exchange events and acknowledgements with MessagePack', async () => {
+    const socket = await start(new MessagePackParser());
+    const frames: any[] = [];
+    (socket as any).ws.on('message', (data: any, isBinary: boolean) => frames.push(isBinary));
+
+    socket.on('telemetry', (sample: any, ack: Function) => ack({ ok: true, received: sample }));
+    const registered = new Promise<any>(resolve => client.on('user-registered', resolve));
+
+    const response = await new Promise<any>(resolve => {
+      client.emit('telemetry', { speed: 42, raw: new Uint8Array([1, 2]) }, resolve);
+    });
+
+    expect(response.ok).toBe(true);
+    expect(response.received.speed).toBe(42);
+    expect([...response.received.raw]).toEqual([1, 2]);
+    expect((await registered).id).toBe(socket.id);
+    expect(frames).toEqual([true]);
+  });
+});
@@ -0,0 +1,174 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+import { SocketIOLikeServer, SocketIOLikeSocket } from '../src/server/SocketIOLikeAdapter';
+import { SocketIOLikeClient } from '../src/client/ws-adapter';
+import { decodePayload, encodePayload } from '../src/parser/payload';
+
+// Mock nanoid to avoid ES module issues
+jest.mock('nanoid', () => ({
+  nanoid: () => 'mock-id-' + Math.random().toString(36).substring(2, 11)
+}));
+
+describe('Polling payload encoding', () => {
+  test('should join frames with the record separator and base64 binaries', () => {
+    const payload = encodePayload(['42["a"]', new Uint8Array([1, 2, 3]), 'hello']);
+    expect(payload).toBe('42["a"]\x1ebAQID\x1ehello');
+
+    const frames = decodePayload(payload);
+    expect(frames[0]).toBe('42["a"]');
+    expect(Array.from(frames[1] as Uint8Array)).toEqual([1, 2, 3]);
+    expect(frames[2]).toBe('hello');
+    expect(decodePayload('')).toEqual([]);
+  });
+});
+
+describe('HTTP long-polling transport', () => {
+  let io: SocketIOLikeServer;
+  let httpServer: http.Server;
+  let port: number;
+  let originalWebSocket: any;
+  const clients: SocketIOLikeClient[] = [];
+
+  const start = async (options: any = {}, listener?: http.RequestListener) => {
+    io = new SocketIOLikeServer({ pingInterval: 0, ...options });
+    httpServer = http.createServer(listener);
+    io.attach(httpServer);
+    await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve));
+    port = (httpServer.address() as AddressInfo).port;
+  };
+
+  const createClient = (options: any = {}, path = '/') => {
+    const client = new SocketIOLikeClient(`http://127.0.0.1:${port}${path}`, {
+      transports: ['polling'],
+      reconnection: false,
+      ...options,
+    }, false);
+    clients.push(client);
+    return client;
+  };
+
+  beforeEach(() => {
+    originalWebSocket = (global as any).WebSocket;
+    (global as any).WebSocket = WebSocket;
+  });
+
+  afterEach(async () => {
+    clients.splice(0).forEach(client => client.disconnect());
+    await new Promise(resolve => setTimeout(resolve, 20));
+    await new Promise<void>(resolve => io.close(resolve));
+    // fetch mantiene conexiones keep-alive abiertas
+    httpServer.closeAllConnections();
+    await new Promise<void>(resolve => httpServer.close(() => resolve()));
+    (global as any).WebSocket = originalWebSocket;
+  });
+
+  test('should exchange events and acknowledgements over polling only', async () => {
+    await start();
+    const connected = new Promise<SocketIOLikeSocket>(resolve => io.of('/').once('connection', resolve));
+    const client = createClient();
+
+    const socket = await connected;
+    await new Promise(resolve => client.once('connect', resolve));
+    expect(socket.conn.transport.name).toBe('polling');
+    expect(client.transport).toBe('polling');
+    expect(io.getUser(socket.id)?.transport).toBe('polling');
+
+    socket.on('sum', (a: number, b: number, ack: Function) => ack(a + b));
+    await expect(new Promise(resolve => client.emit('sum', 2, 3, resolve))).resolves.toBe(5);
+
+    client.on('notify', (message: string, ack: Function) => ack(message.toUpperCase()));
+    await expect(socket.timeout(1000).emitWithAck('notify', 'ok')).resolves.toBe('OK');
+  });
+
+  test('should carry binary payloads over polling', async () => {
+    await start();
+    const connected = new Promise<SocketIOLikeSocket>(resolve => io.of('/').once('connection', resolve));
+    const client = createClient();
+    const socket = await connected;
+    await new Promise(resolve => client.once('connect', resolve));
+
+    const upload = new Promise<any>(resolve => socket.on('upload', resolve));
+    client.emit('upload', { name: 'a.bin', data: new Uint8Array([1, 2, 3]) });
+    const received = await upload;
+    expect(received.name).toBe('a.bin');
+    expect(Array.from(received.data)).toEqual([1, 2, 3]);
+
+    const download = new Promise<any>(resolve => client.on('download', resolve));
+    socket.emit('download', Buffer.from([4, 5]));
+    expect(Array.from(new Uint8Array(await download))).toEqual([4, 5]);
+  });
+
+  test('should upgrade a polling session to websocket keeping the same socket', async () => {
+    await start();
+    const connected = new Promise<SocketIOLikeSocket>(resolve => io.of('/').once('connection', resolve));
+    const client = createClient({ transports: ['polling', 'websocket'] });
+    const socket = await connected;
+
+    const serverUpgrade = new Promise(resolve => socket.once('upgrade', resolve));
+    await new Promise(resolve => client.once('upgrade', resolve));
+    await expect(serverUpgrade).resolves.toBe('websocket');
+    expect(socket.conn.transport.name).toBe('websocket');
+    expect(client.transport).toBe('websocket');
+    expect(io.getUser(socket.id)?.transport).toBe('websocket');
+
+    socket.on('echo', (value: string, ack: Function) => ack(value));
+    await expect(new Promise(resolve => client.emit('echo', 'after upgrade', resolve))).resolves.toBe('after upgrade');
+  });
+
+  test('should stay on polling when upgrade is disabled', async () => {
+    await start({ allowUpgrades: false });
+    const connected = new Promise<SocketIOLikeSocket>(resolve => io.of('/').once('connection', resolve));
+    const client = createClient({ transports: ['polling', 'websocket'] });
+    const socket = await connected;
+    await new Promise(resolve => client.once('connect', resolve));
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(socket.conn.transport.name).toBe('polling');
+    expect(client.transport).toBe('polling');
+  });
+
+  test('should connect the socket.io protocol over polling', async () => {
+    await start({ protocol: 'socket.io', path: '/socket.io' });
+    const connected = new Promise<SocketIOLikeSocket>(resolve => io.of('/chat').once('connection', resolve));
+    const client = createClient({ protocol: 'socket.io', auth: { user: 'ana' } }, '/chat');
+
+    const socket = await connected;
+    await new Promise(resolve => client.once('connect', resolve));
+    expect(socket.handshake.auth).toEqual({ user: 'ana' });
+    expect(socket.conn.transport.name).toBe('polling');
+
+    socket.on('greet', (name: string, ack: Function) => ack(`hola ${name}`));
+    await expect(new Promise(resolve => client.emit('greet', 'ana', resolve))).resolves.toBe('hola ana');
+  });
+
+  test('should reject polling when the transport is disabled and unknown sessions', async () => {
+    await start({ transports: ['websocket'] }, (_req, res) => {
+      res.writeHead(404);
+      res.end();
+    });
+
+    const disabled = await fetch(`http://127.0.0.1:${port}/?transport=polling`);
+    expect(disabled.status).toBe(404);
+
+    await new Promise<void>(resolve => io.close(resolve));
+    // fetch mantiene conexiones keep-alive abiertas
+    httpServer.closeAllConnections();
+    await new Promise<void>(resolve => httpServer.close(() => resolve()));
+    await start();
+
+    const unknown = await fetch(`http://127.0.0.1:${port}/?transport=polling&sid=nope`);
+    expect(unknown.status).toBe(400);
+    await expect(unknown.json()).resolves.toEqual({ code: 400, message: 'Session ID unknown' });
+  });
+
+  test('should pass other requests to the existing http listeners', async () => {
+    await start({}, (_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/plain' });
+      res.end('app');
+    });
+
+    const response = await fetch(`http://127.0.0.1:${port}/health`);
+    await expect(response.text()).resolves.toBe('app');
+  });
+});
@@ -0,0 +1,214 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+import { SocketIOLikeServer, SocketIOLikeSocket } from '../src/server/SocketIOLikeAdapter';
+import { SocketIOLikeClient } from '../src/client/ws-adapter';
+import { createRateLimiter, RateLimitOptions } from '../src/server/rate-limit';
+
+// Mock nanoid to avoid ES module issues
+jest.mock('nanoid', () => ({
+  nanoid: () => 'mock-id-' + Math.random().toString(36).substring(2, 11)
+}));
+
+describe('Rate limiting middleware', () => {
+  describe('strategies and keys', () => {
+    let now: number;
+
+    const fakeSocket = (id: string, address = '10.0.0.1', auth: any = {}): any => ({
+      id,
+      handshake: { address, auth },
+      once: jest.fn(),
+      closeConnection: jest.fn(),
+    });
+
+    // Eventos aceptados (next sin error) de una serie de llamadas
+    const run = (options: RateLimitOptions) => {
+      const limiter = createRateLimiter(options);
+      return (socket: any, event = 'message'): boolean => {
+        let accepted = false;
+        limiter(socket, event, [], err => {
+          accepted = !err;
+        });
+        return accepted;
+      };
+    };
+
+    beforeEach(() => {
+      now = 1_000_000;
+      jest.spyOn(Date, 'now').mockImplementation(() => now);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    test('should allow maxRequests per sliding window', () => {
+      const hit = run({ maxRequests: 3, windowMs: 1000 });
+      const socket = fakeSocket('a');
+
+      expect([hit(socket), hit(socket), hit(socket), hit(socket)]).toEqual([true, true, true, false]);
+      now += 500;
+      expect(hit(socket)).toBe(false);
+      // El primer evento sale de la ventana
+      now += 501;
+      expect(hit(socket)).toBe(true);
+      expect(hit(socket)).toBe(true);
+      expect(hit(socket)).toBe(true);
+      expect(hit(socket)).toBe(false);
+    });
+
+    test('should refill the token bucket gradually', () => {
+      const hit = run({ strategy: 'token-bucket', maxRequests: 4, windowMs: 1000 });
+      const socket = fakeSocket('a');
+
+      expect([hit(socket), hit(socket), hit(socket), hit(socket), hit(socket)]).toEqual([
+        true, true, true, true, false,
+      ]);
+      // Un token cada 250ms
+      now += 250;
+      expect(hit(socket)).toBe(true);
+      expect(hit(socket)).toBe(false);
+      now += 1000;
+      expect([hit(socket), hit(socket), hit(socket), hit(socket), hit(socket)]).toEqual([
+        true, true, true, true, false,
+      ]);
+    });
+
+    test('should share the limit by ip or auth identity', () => {
+      const byIp = run({ maxRequests: 1, windowMs: 1000, key: 'ip' });
+      expect(byIp(fakeSocket('a', '10.0.0.1'))).toBe(true);
+      expect(byIp(fakeSocket('b', '10.0.0.1'))).toBe(false);
+      expect(byIp(fakeSocket('c', '10.0.0.2'))).toBe(true);
+
+      const byAuth = run({ maxRequests: 1, windowMs: 1000, key: 'auth' });
+      expect(byAuth(fakeSocket('a', '10.0.0.1', { user: 'ana' }))).toBe(true);
+      expect(byAuth(fakeSocket('b', '10.0.0.2', { user: 'ana' }))).toBe(false);
+      // Sin auth cada socket tiene su propio límite
+      expect(byAuth(fakeSocket('c'))).toBe(true);
+      expect(byAuth(fakeSocket('d'))).toBe(true);
+    });
+
+    test('should count per-event overrides separately', () => {
+      const hit = run({
+        maxRequests: 2,
+        windowMs: 1000,
+        events: { typing: { maxRequests: 5 }, ping: false },
+      });
+      const socket = fakeSocket('a');
+
+      expect([hit(socket), hit(socket), hit(socket)]).toEqual([true, true, false]);
+      for (let i = 0; i < 5; i++) {
+        expect(hit(socket, 'typing')).toBe(true);
+      }
+      expect(hit(socket, 'typing')).toBe(false);
+      for (let i = 0; i < 20; i++) {
+        expect(hit(socket, 'ping')).toBe(true);
+      }
+    });
+  });
+
+  describe('over-limit policies', () => {
+    let io: SocketIOLikeServer;
+    let httpServer: http.Server;
+    let port: number;
+    let clients: SocketIOLikeClient[];
+    let originalWebSocket: any;
+
+    const start = async () => {
+      io = new SocketIOLikeServer({ pingInterval: 0 });
+      httpServer = http.createServer();
+      io.attach(httpServer);
+      await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve));
+      port = (httpServer.address() as AddressInfo).port;
+    };
+
+    const connect = async () => {
+      const connected = new Promise<SocketIOLikeSocket>(resolve => io.once('connection', resolve));
+      const client = new SocketIOLikeClient(`ws://127.0.0.1:${port}/`, { reconnection: false }, false);
+      clients.push(client);
+      const socket = await connected;
+      await new Promise(resolve => client.once('connect', resolve));
+      return { client, socket };
+    };
+
+    beforeEach(() => {
+      originalWebSocket = (global as any).WebSocket;
+      (global as any).WebSocket = WebSocket;
+      clients = [];
+    });
+
+    afterEach(async () => {
+      clients.forEach(client => client.disconnect());
+      await new Promise(resolve => setTimeout(resolve, 20));
+      await new Promise<void>(resolve => io.close(resolve));
+      await new Promise<void>(resolve => httpServer.close(() => resolve()));
+      (global as any).WebSocket = originalWebSocket;
+    });
+
+    test('should drop events over the limit by default', async () => {
+      await start();
+      io.use(createRateLimiter({ maxRequests: 2, windowMs: 60000 }));
+      const { client, socket } = await connect();
+      const received: number[] = [];
+      socket.on('message', (n: number) => received.push(n));
+
+      [1, 2, 3, 4].forEach(n => client.emit('message', n));
+      await new Promise(resolve => setTimeout(resolve, 100));
+      expect(received).toEqual([1, 2]);
+      expect(socket.isConnected).toBe(true);
+    });
+
+    test('should answer the acknowledgement with a RATE_LIMITED error', async () => {
+      await start();
+      io.use(createRateLimiter({ maxRequests: 1, windowMs: 60000, onLimit: 'error' }));
+      const { client, socket } = await connect();
+      socket.on('save', (_data: any, ack: Function) => ack('saved'));
+
+      const first = await new Promise<any[]>(resolve => client.emit('save', {}, (...args: any[]) => resolve(args)));
+      expect(first).toEqual(['saved']);
+
+      const [error] = await new Promise<any[]>(resolve =>
+        client.emit('save', {}, (...args: any[]) => resolve(args))
+      );
+      expect(error).toBeInstanceOf(Error);
+      expect(error.message).toBe('Rate limit exceeded');
+      expect(error.code).toBe('RATE_LIMITED');
+      expect(error.originalError.data.event).toBe('save');
+      expect(error.originalError.data.retryAfter).toBeGreaterThan(0);
+      expect(socket.isConnected).toBe(true);
+    });
+
+    test('should limit the events of a namespace when registered with namespace.use()', async () => {
+      await start();
+      io.of('/').use(createRateLimiter({ maxRequests: 1, windowMs: 60000, onLimit: 'error' }));
+      const { client, socket } = await connect();
+      const received: number[] = [];
+      socket.on('save', (n: number, ack: Function) => {
+        received.push(n);
+        ack('saved');
+      });
+
+      const results = await Promise.all(
+        [1, 2, 3].map(n => new Promise<any[]>(resolve => client.emit('save', n, (...args: any[]) => resolve(args))))
+      );
+      expect(received).toEqual([1]);
+      expect(results[0]).toEqual(['saved']);
+      expect(results.slice(1).map(([error]) => error.code)).toEqual(['RATE_LIMITED', 'RATE_LIMITED']);
+    });
+
+    test('should close the connection with a policy violation', async () => {
+      await start();
+      io.use(createRateLimiter({ maxRequests: 1, windowMs: 60000, onLimit: 'disconnect' }));
+      const { client, socket } = await connect();
+      const closed = new Promise<any>(resolve => socket.once('disconnect', resolve));
+      const reconnects: number[] = [];
+      client.on('reconnect_attempt', (attempt: number) => reconnects.push(attempt));
+
+      client.emit('message', 1);
+      client.emit('message', 2);
+      expect(await closed).toEqual({ code: 1008, reasonString: 'Policy violation' });
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(reconnects).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,177 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+import { SocketIOLikeServer, SocketIOLikeSocket } from '../src/server/SocketIOLikeAdapter';
+import { SocketIOLikeClient } from '../src/client/ws-adapter';
+import { InProcessBus, PubSubAdapter, createPubSubAdapter } from '../src/server/pubsub';
+import { RemoteSocket } from '../src/server/remote-socket';
+
+// Mock nanoid to avoid ES module issues
+jest.mock('nanoid', () => ({
+  nanoid: () => 'mock-id-' + Math.random().toString(36).substring(2, 11)
+}));
+
+const waitFor = async (condition: () => boolean, timeout = 2000) => {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeout) throw new Error('waitFor timed out');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+};
+
+describe('Remote socket operations', () => {
+  let bus: InProcessBus;
+  let nodes: Array<{ io: SocketIOLikeServer; httpServer: http.Server; port: number }>;
+  let clients: SocketIOLikeClient[];
+  let originalWebSocket: any;
+
+  const startNode = async (clustered = false) => {
+    const io = new SocketIOLikeServer({
+      pingInterval: 0,
+      ...(clustered ? { adapter: createPubSubAdapter(bus) } : {}),
+    });
+    const httpServer = http.createServer();
+    io.attach(httpServer);
+    await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve));
+    const node = { io, httpServer, port: (httpServer.address() as AddressInfo).port };
+    nodes.push(node);
+    return node;
+  };
+
+  const connect = async (node: { io: SocketIOLikeServer; port: number }, nsp = '/') => {
+    const connected = new Promise<SocketIOLikeSocket>(resolve => node.io.of(nsp).once('connection', resolve));
+    const client = new SocketIOLikeClient(`ws://127.0.0.1:${node.port}${nsp}`, { reconnection: false }, false);
+    clients.push(client);
+    const socket = await connected;
+    await new Promise(resolve => client.once('connect', resolve));
+    return { client, socket };
+  };
+
+  const ids = (sockets: RemoteSocket[]) => sockets.map(socket => socket.id).sort();
+
+  beforeEach(() => {
+    originalWebSocket = (global as any).WebSocket;
+    (global as any).WebSocket = WebSocket;
+    bus = new InProcessBus();
+    nodes = [];
+    clients = [];
+  });
+
+  afterEach(async () => {
+    clients.forEach(client => client.disconnect());
+    await new Promise(resolve => setTimeout(resolve, 20));
+    for (const node of nodes) {
+      await new Promise<void>(resolve => node.io.close(resolve));
+      await new Promise<void>(resolve => node.httpServer.close(() => resolve()));
+    }
+    (global as any).WebSocket = originalWebSocket;
+  });
+
+  test('should filter fetchSockets() and allSockets() by to() and except()', async () => {
+    const node = await startNode();
+    const a = await connect(node);
+    const b = await connect(node);
+    const c = await connect(node);
+    a.socket.join('red');
+    b.socket.join('red');
+    b.socket.join('blue');
+    c.socket.join('blue');
+    a.socket.data = { user: 'ana' };
+
+    expect(ids(await node.io.fetchSockets())).toEqual([a, b, c].map(s => s.socket.id).sort());
+    expect(ids(await node.io.to('red').fetchSockets())).toEqual([a.socket.id, b.socket.id].sort());
+    expect(ids(await node.io.to('red').except('blue').fetchSockets())).toEqual([a.socket.id]);
+    await expect(node.io.except('red').allSockets()).resolves.toEqual(new Set([c.socket.id]));
+
+    const [remote] = await node.io.to('red').except('blue').fetchSockets();
+    expect(remote).toBeInstanceOf(RemoteSocket);
+    expect(remote.rooms).toEqual(new Set(['red']));
+    expect(remote.data).toEqual({ user: 'ana' });
+    expect(remote.namespace).toBe('/');
+    expect(remote.handshake.query).toBeDefined();
+  });
+
+  test('should join, leave and disconnect only the targeted sockets', async () => {
+    const node = await startNode();
+    const a = await connect(node);
+    const b = await connect(node);
+    const c = await connect(node);
+    a.socket.join('red');
+    b.socket.join('red');
+    b.socket.join('blue');
+
+    node.io.in('red').except('blue').socketsJoin(['green', 'yellow']);
+    expect(a.socket.getRooms().sort()).toEqual(['green', 'red', 'yellow']);
+    expect(b.socket.getRooms().sort()).toEqual(['blue', 'red']);
+    expect(node.io.getRoomUserCount('green')).toBe(1);
+
+    node.io.socketsLeave('red');
+    expect(a.socket.getRooms().sort()).toEqual(['green', 'yellow']);
+    expect(b.socket.getRooms()).toEqual(['blue']);
+
+    const closed = new Promise(resolve => b.client.once('disconnect', resolve));
+    node.io.to('blue').disconnectSockets(true);
+    await closed;
+    expect(c.socket.isAlive()).toBe(true);
+    expect(a.socket.isAlive()).toBe(true);
+  });
+
+  test('should scope namespace operations to the namespace', async () => {
+    const node = await startNode();
+    const main = await connect(node);
+    const chat = await connect(node, '/chat');
+    main.socket.join('lobby');
+    chat.socket.join('lobby');
+
+    expect(ids(await node.io.of('/chat').in('lobby').fetchSockets())).toEqual([chat.socket.id]);
+    expect(ids(await node.io.of('/chat').fetchSockets())).toEqual([chat.socket.id]);
+
+    node.io.of('/chat').in('lobby').socketsJoin('vip');
+    expect(chat.socket.inRoom('vip')).toBe(true);
+    expect(main.socket.inRoom('vip')).toBe(false);
+
+    node.io.of('/chat').socketsLeave('lobby');
+    expect(chat.socket.inRoom('lobby')).toBe(false);
+    expect(main.socket.inRoom('lobby')).toBe(true);
+
+    const closed = new Promise(resolve => chat.client.once('disconnect', resolve));
+    node.io.of('/chat').disconnectSockets();
+    await closed;
+    expect(main.socket.isAlive()).toBe(true);
+  });
+
+  test('should operate on sockets connected to other nodes', async () => {
+    const a = await startNode(true);
+    const b = await startNode(true);
+    const adapterOf = (io: SocketIOLikeServer) => io.adapter as PubSubAdapter;
+    await waitFor(() => adapterOf(a.io).nodeCount === 1 && adapterOf(b.io).nodeCount === 1);
+
+    const local = await connect(a);
+    const remote = await connect(b);
+    remote.socket.join('team');
+    remote.socket.data = { user: 'bob' };
+
+    const [fetched] = await a.io.in('team').fetchSockets();
+    expect(fetched.id).toBe(remote.socket.id);
+    expect(fetched.data).toEqual({ user: 'bob' });
+
+    const received: string[] = [];
+    remote.client.on('direct', (text: string) => received.push(`remote:${text}`));
+    local.client.on('direct', (text: string) => received.push(`local:${text}`));
+    fetched.emit('direct', 'hi');
+    await waitFor(() => received.length === 1);
+    expect(received).toEqual(['remote:hi']);
+    expect(() => fetched.emit('direct', () => {})).toThrow('Acknowledgements are not supported on remote sockets');
+
+    fetched.join('vip');
+    await waitFor(() => remote.socket.inRoom('vip'));
+    a.io.socketsLeave('team');
+    await waitFor(() => !remote.socket.inRoom('team'));
+    expect(local.socket.inRoom('vip')).toBe(false);
+
+    const closed = new Promise(resolve => remote.client.once('disconnect', resolve));
+    a.io.in('vip').disconnectSockets();
+    await closed;
+    expect(local.socket.isAlive()).toBe(true);
+  });
+});
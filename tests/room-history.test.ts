@@ -0,0 +1,210 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+import { SocketIOLikeServer, SocketIOLikeSocket } from '../src/server/SocketIOLikeAdapter';
+import { SocketIOLikeClient } from '../src/client/ws-adapter';
+import {
+  HistoryEntry,
+  HistoryQuery,
+  InMemoryHistoryStore,
+  RoomHistoryStore,
+  filterHistory,
+} from '../src/server/history';
+
+// Mock nanoid to avoid ES module issues
+jest.mock('nanoid', () => ({
+  nanoid: () => 'mock-id-' + Math.random().toString(36).substring(2, 11)
+}));
+
+describe('Room message history', () => {
+  describe('InMemoryHistoryStore', () => {
+    const entry = (n: number): HistoryEntry => ({ event: 'msg', args: [n], timestamp: n * 10 });
+
+    test('should keep the last maxSize entries of each room in order', () => {
+      const store = new InMemoryHistoryStore();
+      for (let n = 1; n <= 7; n++) {
+        store.append('/', 'a', entry(n), 3);
+      }
+      store.append('/', 'b', entry(1), 3);
+
+      expect(store.get('/', 'a').map(e => e.args[0])).toEqual([5, 6, 7]);
+      expect(store.get('/', 'b')).toHaveLength(1);
+      expect(store.get('/chat', 'a')).toEqual([]);
+
+      // Al crecer se conservan las entradas
+      store.append('/', 'a', entry(8), 5);
+      store.append('/', 'a', entry(9), 5);
+      expect(store.get('/', 'a').map(e => e.args[0])).toEqual([5, 6, 7, 8, 9]);
+
+      store.clear('/', 'a');
+      expect(store.get('/', 'a')).toEqual([]);
+      store.clear('/');
+      expect(store.get('/', 'b')).toEqual([]);
+    });
+
+    test('should filter by limit and since', () => {
+      const entries = [1, 2, 3, 4].map(entry);
+      expect(filterHistory(entries, { limit: 2 }).map(e => e.args[0])).toEqual([3, 4]);
+      expect(filterHistory(entries, { since: 20 }).map(e => e.args[0])).toEqual([3, 4]);
+      expect(filterHistory(entries, { since: 10, limit: 1 }).map(e => e.args[0])).toEqual([4]);
+      expect(filterHistory(entries, { limit: 0 })).toEqual([]);
+    });
+  });
+
+  describe('on a server', () => {
+    let io: SocketIOLikeServer;
+    let httpServer: http.Server;
+    let port: number;
+    let clients: SocketIOLikeClient[];
+    let originalWebSocket: any;
+
+    const start = async (options: any = {}) => {
+      io = new SocketIOLikeServer({ pingInterval: 0, ...options });
+      httpServer = http.createServer();
+      io.attach(httpServer);
+      await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve));
+      port = (httpServer.address() as AddressInfo).port;
+    };
+
+    const connect = async () => {
+      const connected = new Promise<SocketIOLikeSocket>(resolve => io.once('connection', resolve));
+      const client = new SocketIOLikeClient(`ws://127.0.0.1:${port}/`, { reconnection: false }, false);
+      clients.push(client);
+      const socket = await connected;
+      await new Promise(resolve => client.once('connect', resolve));
+      return { client, socket };
+    };
+
+    const collect = (client: SocketIOLikeClient, event: string): any[] => {
+      const received: any[] = [];
+      client.on(event, (...args: any[]) => received.push(args));
+      return received;
+    };
+
+    const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+    beforeEach(() => {
+      originalWebSocket = (global as any).WebSocket;
+      (global as any).WebSocket = WebSocket;
+      clients = [];
+    });
+
+    afterEach(async () => {
+      clients.forEach(client => client.disconnect());
+      await wait(20);
+      await new Promise<void>(resolve => io.close(resolve));
+      await new Promise<void>(resolve => httpServer.close(() => resolve()));
+      (global as any).WebSocket = originalWebSocket;
+    });
+
+    test('should record broadcasts with their sender and replay them to late joiners', async () => {
+      await start();
+      io.createRoom('chat', { config: { messageHistory: true, maxMessageHistory: 3 } });
+      io.createRoom('plain');
+      const author = await connect();
+      author.socket.join('chat');
+      author.socket.join('plain');
+
+      io.to('chat').emit('msg', 'welcome');
+      author.socket.to('chat').emit('msg', 'one', { n: 1 });
+      author.socket.to('chat').emit('msg', 'two');
+      author.socket.to('chat').emit('msg', 'three');
+      io.to('plain').emit('msg', 'not recorded');
+
+      const history = await io.getRoomHistory('chat');
+      expect(history.map(entry => entry.args)).toEqual([['one', { n: 1 }], ['two'], ['three']]);
+      expect(history[0]).toMatchObject({ event: 'msg', sender: author.socket.id });
+      expect(typeof history[0].timestamp).toBe('number');
+      expect(await io.getRoomHistory('plain')).toEqual([]);
+
+      const late = await connect();
+      const received = collect(late.client, 'msg');
+      expect(late.socket.tryJoin('chat', { replay: 2 }).joined).toBe(true);
+      io.to('chat').emit('msg', 'live');
+      await wait(100);
+      expect(received).toEqual([['two'], ['three'], ['live']]);
+    });
+
+    test('should replay entries since a timestamp and skip the socket own broadcasts', async () => {
+      await start();
+      io.createRoom('chat', { config: { messageHistory: true } });
+      const author = await connect();
+      author.socket.join('chat');
+
+      author.socket.to('chat').emit('msg', 'old');
+      await wait(5);
+      const since = Date.now();
+      await wait(5);
+      author.socket.to('chat').emit('msg', 'mine');
+      io.to('chat').emit('msg', 'server');
+      // Esperar la entrega en directo antes de escuchar el replay
+      await wait(50);
+
+      const received = collect(author.client, 'msg');
+      author.socket.leave('chat');
+      author.socket.join('chat', { replay: { since } });
+      await wait(100);
+      expect(received).toEqual([['server']]);
+    });
+
+    test('should answer getHistory only for the rooms of the socket', async () => {
+      await start();
+      io.createRoom('chat', { config: { messageHistory: true } });
+      const member = await connect();
+      member.socket.join('chat');
+      io.to('chat').emit('msg', 1);
+      io.to('chat').emit('msg', 2);
+
+      const entries = await member.client.getHistory('chat', { limit: 1 });
+      expect(entries).toEqual([{ event: 'msg', args: [2], timestamp: expect.any(Number) }]);
+
+      await expect(member.client.getHistory('elsewhere')).rejects.toMatchObject({
+        code: 'NOT_IN_ROOM',
+        type: 'ClientError',
+      });
+    });
+
+    test('should store the history through a custom store', async () => {
+      const appended: any[] = [];
+      const store: RoomHistoryStore = {
+        append: async (namespace, room, entry, maxSize) => {
+          appended.push({ namespace, room, entry, maxSize });
+        },
+        get: async (_namespace: string, _room: string, query?: HistoryQuery) =>
+          filterHistory(appended.map(item => item.entry), query),
+        clear: async () => {
+          appended.length = 0;
+        },
+      };
+      await start({ roomHistoryStore: store });
+      io.of('/news').createRoom('sports', { config: { messageHistory: true, maxMessageHistory: 10 } });
+      const connected = new Promise<SocketIOLikeSocket>(resolve => io.of('/news').once('connection', resolve));
+      const client = new SocketIOLikeClient(`ws://127.0.0.1:${port}/news`, { reconnection: false }, false);
+      clients.push(client);
+      const socket = await connected;
+      await new Promise(resolve => client.once('connect', resolve));
+      socket.join('sports');
+
+      io.of('/news').to('sports').emit('score', 1, 0);
+      await wait(10);
+      expect(appended).toEqual([
+        {
+          namespace: '/news',
+          room: 'sports',
+          entry: { event: 'score', args: [1, 0], sender: undefined, timestamp: expect.any(Number) },
+          maxSize: 10,
+        },
+      ]);
+
+      const received = collect(client, 'score');
+      socket.leave('sports');
+      socket.join('sports', { replay: true });
+      await wait(100);
+      expect(received).toEqual([[1, 0]]);
+
+      io.of('/news').deleteRoom('sports');
+      await wait(10);
+      expect(appended).toEqual([]);
+    });
+  });
+});
@@ -1,98 +1,104 @@
+import { SocketIOLikeServer, SocketIOLikeSocket } from '../src/server/SocketIOLikeAdapter';
+import { Namespace } from '../src/server/Namespace';
+
+// Mock nanoid to avoid ES module issues
+jest.mock('nanoid', () => ({
+  nanoid: () => 'mock-id-' + Math.random().toString(36).substring(2, 11)
+}));
+
 // Simple unit test for enhanced room management functionality
 describe('Room Management Unit Tests', () => {
+  let io: SocketIOLikeServer;
+
+  beforeEach(() => {
+    io = new SocketIOLikeServer({ pingInterval: 0 });
+  });
+
+  afterEach(async () => {
+    await new Promise<void>(resolve => io.close(resolve));
+  });
+
   test('should pass basic room management test', () => {
     // Test that room management functionality is implemented
     expect(true).toBe(true);
   });
 
-  test('should verify enhanced room management exists in built files', () => {
-    const fs = require('fs');
-    const path = require('path');
-    
-    // Check if the built files contain room management code
-    const adapterPath = path.join(__dirname, '../dist/server/SocketIOLikeAdapter.js');
-    
-    expect(fs.existsSync(adapterPath)).toBe(true);
-    
-    const adapterContent = fs.readFileSync(adapterPath, 'utf8');
-    
+  test('should verify enhanced room management exists', () => {
     // Check for enhanced room operations
-    expect(adapterContent).toContain('BroadcastOperator');
-    expect(adapterContent).toContain('createBroadcastOperator');
-    expect(adapterContent).toContain('RoomMetadata');
-    expect(adapterContent).toContain('roomMetadata');
-    
+    expect(typeof io.createBroadcastOperator).toBe('function');
+    expect(io.to('lobby')).toEqual(expect.objectContaining({ emit: expect.any(Function) }));
+
     // Check for advanced room methods
-    expect(adapterContent).toContain('getRoomMetadata');
-    expect(adapterContent).toContain('setRoomMetadata');
-    expect(adapterContent).toContain('getAllRooms');
-    expect(adapterContent).toContain('hasRoom');
-    expect(adapterContent).toContain('getRoomUserCount');
-    
+    ['getRoomMetadata', 'setRoomMetadata', 'getAllRooms', 'hasRoom', 'getRoomUserCount'].forEach(method => {
+      expect(typeof (io as any)[method]).toBe('function');
+      expect(typeof (io.of('/chat') as any)[method]).toBe('function');
+    });
+
     // Check for socket room methods
-    expect(adapterContent).toContain('joinWithMetadata');
-    expect(adapterContent).toContain('inRoom');
-    expect(adapterContent).toContain('except');
+    ['joinWithMetadata', 'inRoom', 'except'].forEach(method => {
+      expect(typeof (SocketIOLikeSocket.prototype as any)[method]).toBe('function');
+    });
   });
 
   test('should verify broadcast operators functionality', () => {
-    const fs = require('fs');
-    const path = require('path');
-    
-    const adapterPath = path.join(__dirname, '../dist/server/SocketIOLikeAdapter.js');
-    const adapterContent = fs.readFileSync(adapterPath, 'utf8');
-    
-    // Check for broadcast operator methods
-    expect(adapterContent).toContain('to(room');
-    expect(adapterContent).toContain('in(room');
-    expect(adapterContent).toContain('except(room');
-    
+    const broadcast = jest.spyOn(io.adapter, 'broadcast');
+
     // Check for chaining support
-    expect(adapterContent).toContain('includeRooms');
-    expect(adapterContent).toContain('excludeRooms');
+    io.to('a').in(['b', 'c']).except('d').emit('news', 1);
+    io.of('/chat').except('e').emit('news', 2);
+
+    expect(broadcast).toHaveBeenNthCalledWith(
+      1,
+      { event: 'news', args: [1] },
+      expect.objectContaining({ namespace: '/', rooms: ['a', 'b', 'c'], exceptRooms: ['d'] })
+    );
+    expect(broadcast).toHaveBeenNthCalledWith(
+      2,
+      { event: 'news', args: [2] },
+      expect.objectContaining({ namespace: '/chat', rooms: [], exceptRooms: ['e'] })
+    );
   });
 
   test('should verify room metadata tracking', () => {
-    const fs = require('fs');
-    const path = require('path');
-    
-    const adapterPath = path.join(__dirname, '../dist/server/SocketIOLikeAdapter.js');
-    const adapterContent = fs.readFileSync(adapterPath, 'utf8');
-    
+    const namespace = new Namespace('/rooms');
+    namespace.addToRoom('lobby', 'a');
+    namespace.addToRoom('lobby', 'b');
+
     // Check for room metadata properties
-    expect(adapterContent).toContain('createdAt');
-    expect(adapterContent).toContain('userCount');
-    expect(adapterContent).toContain('users: new Set');
-    expect(adapterContent).toContain('metadata: {}');
-    
+    const metadata = namespace.getRoomMetadata('lobby')!;
+    expect(metadata.createdAt).toEqual(expect.any(Number));
+    expect(metadata.userCount).toBe(2);
+    expect(Array.from(metadata.users)).toEqual(['a', 'b']);
+    expect(metadata.metadata).toEqual({});
+
     // Check for metadata updates
-    expect(adapterContent).toContain('metadata.users.add');
-    expect(adapterContent).toContain('metadata.users.delete');
-    expect(adapterContent).toContain('metadata.userCount = metadata.users.size');
+    namespace.setRoomMetadata('lobby', { topic: 'news' });
+    namespace.removeFromRoom('lobby', 'a');
+    expect(metadata.metadata).toEqual({ topic: 'news' });
+    expect(Array.from(metadata.users)).toEqual(['b']);
+    expect(metadata.userCount).toBe(1);
   });
 
   test('should verify room cleanup functionality', () => {
-    const fs = require('fs');
-    const path = require('path');
-    
-    const adapterPath = path.join(__dirname, '../dist/server/SocketIOLikeAdapter.js');
-    const adapterContent = fs.readFileSync(adapterPath, 'utf8');
-    
+    const namespace = new Namespace('/rooms');
+    namespace.addToRoom('lobby', 'a');
+
     // Check for room cleanup when empty
-    expect(adapterContent).toContain('roomUsers.size === 0');
-    expect(adapterContent).toContain('this.roomMetadata.delete(room)');
-    expect(adapterContent).toContain('Room ${room} deleted (empty)');
+    namespace.removeFromRoom('lobby', 'a');
+    expect(namespace.hasRoom('lobby')).toBe(false);
+    expect(namespace.getRoomMetadata('lobby')).toBeUndefined();
+    expect(namespace.getAllRooms()).toEqual([]);
   });
 
   test('should verify statistics include room metadata', () => {
-    const fs = require('fs');
-    const path = require('path');
-    
-    const adapterPath = path.join(__dirname, '../dist/server/SocketIOLikeAdapter.js');
-    const adapterContent = fs.readFileSync(adapterPath, 'utf8');
-    
-    // Check for room metadata in statistics
-    expect(adapterContent).toContain('roomsWithMetadata');
-    expect(adapterContent).toContain('this.roomMetadata.forEach');
+    io.of('/').addToRoom('lobby', 'a');
+    io.setRoomMetadata('lobby', { topic: 'news' });
+    // Las salas de otros namespaces no cuentan en las del servidor
+    io.of('/chat').addToRoom('ops', 'b');
+
+    // Check for room metadata in statistics (salas del namespace principal)
+    const { roomsWithMetadata } = io.getStats();
+    expect(Object.keys(roomsWithMetadata)).toEqual(['lobby']);
+    expect(roomsWithMetadata.lobby).toMatchObject({ userCount: 1, metadata: { topic: 'news' } });
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,135 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+import { SocketIOLikeServer, SocketIOLikeSocket } from '../src/server/SocketIOLikeAdapter';
+import { SocketIOLikeClient } from '../src/client/ws-adapter';
+
+// Mock nanoid to avoid ES module issues
+jest.mock('nanoid', () => ({
+  nanoid: () => 'mock-id-' + Math.random().toString(36).substring(2, 11)
+}));
+
+describe('Room capacity, privacy and ownership', () => {
+  let io: SocketIOLikeServer;
+  let httpServer: http.Server;
+  let port: number;
+  let clients: SocketIOLikeClient[];
+  let originalWebSocket: any;
+
+  const connect = async (auth?: Record<string, any>) => {
+    const connected = new Promise<SocketIOLikeSocket>(resolve => io.once('connection', resolve));
+    const client = new SocketIOLikeClient(`ws://127.0.0.1:${port}/`, { reconnection: false, auth }, false);
+    clients.push(client);
+    const socket = await connected;
+    await new Promise(resolve => client.once('connect', resolve));
+    return { client, socket };
+  };
+
+  beforeEach(async () => {
+    originalWebSocket = (global as any).WebSocket;
+    (global as any).WebSocket = WebSocket;
+    clients = [];
+    io = new SocketIOLikeServer({ pingInterval: 0 });
+    httpServer = http.createServer();
+    io.attach(httpServer);
+    await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve));
+    port = (httpServer.address() as AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    clients.forEach(client => client.disconnect());
+    await new Promise(resolve => setTimeout(resolve, 20));
+    await new Promise<void>(resolve => io.close(resolve));
+    await new Promise<void>(resolve => httpServer.close(() => resolve()));
+    (global as any).WebSocket = originalWebSocket;
+  });
+
+  test('should reject joins once the room is full', async () => {
+    io.createRoom('duo', { maxUsers: 2, description: 'Two seats' });
+    const [a, b, c] = [await connect(), await connect(), await connect()];
+
+    expect(a.socket.tryJoin('duo')).toEqual({ joined: true, room: 'duo' });
+    expect(b.socket.tryJoin('duo').joined).toBe(true);
+    const result = c.socket.tryJoin('duo');
+    expect(result.joined).toBe(false);
+    if (!result.joined) {
+      expect(result.reason).toBe('room_full');
+      expect((result.error as any).code).toBe('ROOM_FULL');
+      expect((result.error as any).data).toEqual({ room: 'duo', reason: 'room_full' });
+    }
+    expect(c.socket.inRoom('duo')).toBe(false);
+    expect(io.getRoomUserCount('duo')).toBe(2);
+    // Volver a entrar en la sala no cuenta como una plaza más
+    expect(a.socket.tryJoin('duo').joined).toBe(true);
+
+    b.socket.leave('duo');
+    expect(c.socket.tryJoin('duo').joined).toBe(true);
+  });
+
+  test('should only let invited sockets and the owner into private rooms', async () => {
+    const [owner, guest, stranger] = [await connect(), await connect(), await connect()];
+    io.createRoom('vip', { isPrivate: true, owner: owner.socket.id });
+
+    expect(owner.socket.tryJoin('vip').joined).toBe(true);
+    expect(guest.socket.tryJoin('vip')).toMatchObject({ joined: false, reason: 'not_invited' });
+
+    expect(io.inviteToRoom('vip', guest.socket.id)).toBe(true);
+    expect(guest.socket.tryJoin('vip').joined).toBe(true);
+    expect(io.addToRoom('vip', stranger.socket.id)).toMatchObject({ joined: false, reason: 'not_invited' });
+    expect(stranger.socket.inRoom('vip')).toBe(false);
+  });
+
+  test('should require auth when the room asks for it', async () => {
+    io.createRoom('members', { config: { requireAuth: true } });
+    io.createRoom('no-anonymous', { config: { allowAnonymous: false } });
+    const anonymous = await connect();
+    const member = await connect({ token: 'abc' });
+
+    expect(anonymous.socket.tryJoin('members')).toMatchObject({ joined: false, reason: 'auth_required' });
+    expect(anonymous.socket.tryJoin('no-anonymous')).toMatchObject({ joined: false, reason: 'auth_required' });
+    expect(member.socket.tryJoin('members').joined).toBe(true);
+  });
+
+  test('should keep join() chainable when the join is rejected', async () => {
+    io.createRoom('solo', { maxUsers: 1 });
+    const [a, b] = [await connect(), await connect()];
+
+    expect(a.socket.join('solo').join('open')).toBe(a.socket);
+    expect(b.socket.join('solo').join('open')).toBe(b.socket);
+    expect(b.socket.inRoom('solo')).toBe(false);
+    expect(b.socket.inRoom('open')).toBe(true);
+  });
+
+  test('should transfer ownership when the owner leaves or disconnects', async () => {
+    const room = io.createRoom('team');
+    const [first, second, third] = [await connect(), await connect(), await connect()];
+    const changes: any[] = [];
+    io.of('/').on('owner-changed', (...args: any[]) => changes.push(args));
+
+    [first, second, third].forEach(({ socket }) => socket.join('team'));
+    expect(room.owner).toBe(first.socket.id);
+
+    first.socket.leave('team');
+    expect(room.owner).toBe(second.socket.id);
+
+    const closed = new Promise(resolve => second.socket.once('disconnect', resolve));
+    second.client.disconnect();
+    await closed;
+    expect(room.owner).toBe(third.socket.id);
+
+    expect(io.transferRoomOwnership('team', first.socket.id)).toBe(false);
+    third.socket.leave('team');
+    expect(room.owner).toBeUndefined();
+    // Las salas creadas se conservan vacías
+    expect(io.hasRoom('team')).toBe(true);
+    expect(changes).toEqual([
+      ['team', first.socket.id, undefined],
+      ['team', second.socket.id, first.socket.id],
+      ['team', third.socket.id, second.socket.id],
+      ['team', undefined, third.socket.id],
+    ]);
+
+    expect(io.deleteRoom('team')).toBe(true);
+    expect(io.hasRoom('team')).toBe(false);
+  });
+});
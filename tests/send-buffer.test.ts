@@ -0,0 +1,181 @@
+import { SocketIOLikeClient } from '../src/client/ws-adapter';
+
+// Mock WebSocket whose lifecycle is driven by the test
+class MockWebSocket {
+  static CONNECTING = 0;
+  static OPEN = 1;
+  static CLOSING = 2;
+  static CLOSED = 3;
+  static instances: MockWebSocket[] = [];
+
+  readyState = MockWebSocket.CONNECTING;
+  sent: any[] = [];
+  onopen: ((event: Event) => void) | null = null;
+  onclose: ((event: CloseEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+
+  constructor(public url: string) {
+    MockWebSocket.instances.push(this);
+  }
+
+  open() {
+    this.readyState = MockWebSocket.OPEN;
+    this.onopen?.({} as Event);
+  }
+
+  drop() {
+    this.readyState = MockWebSocket.CLOSED;
+    this.onclose?.({ code: 1006, reason: '', wasClean: false } as CloseEvent);
+  }
+
+  receive(message: any) {
+    this.onmessage?.({ data: JSON.stringify(message) } as MessageEvent);
+  }
+
+  close(code?: number, reason?: string) {
+    this.readyState = MockWebSocket.CLOSED;
+    this.onclose?.({ code: code || 1000, reason: reason || '', wasClean: true } as CloseEvent);
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+}
+
+const lastSocket = () => MockWebSocket.instances[MockWebSocket.instances.length - 1];
+
+describe('SocketIOLikeClient send buffer', () => {
+  let client: SocketIOLikeClient;
+  let originalWebSocket: any;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    MockWebSocket.instances = [];
+    originalWebSocket = global.WebSocket;
+    (global as any).WebSocket = MockWebSocket;
+  });
+
+  afterEach(() => {
+    if (client) {
+      client.disconnect();
+    }
+    jest.useRealTimers();
+    global.WebSocket = originalWebSocket;
+  });
+
+  test('should buffer emits while connecting and flush them in order after connect', () => {
+    client = new SocketIOLikeClient('ws://localhost:3000', {}, false);
+    const connectOrder: string[] = [];
+    client.on('connect', () => connectOrder.push('connect'));
+
+    client.emit('first', 1);
+    client.emit('second', 2);
+
+    expect(client.sendBuffer.map(packet => packet.event)).toEqual(['first', 'second']);
+    expect(lastSocket().sent).toEqual([]);
+
+    lastSocket().open();
+
+    expect(connectOrder).toEqual(['connect']);
+    expect(lastSocket().sent).toEqual([
+      { event: 'first', payload: [1] },
+      { event: 'second', payload: [2] },
+    ]);
+    expect(client.sendBuffer).toEqual([]);
+  });
+
+  test('should keep acknowledgement callbacks of buffered emits', () => {
+    client = new SocketIOLikeClient('ws://localhost:3000', {}, false);
+    const callback = jest.fn();
+
+    client.emit('save', { id: 1 }, callback);
+    expect(client.sendBuffer[0].callbackId).toBeDefined();
+
+    lastSocket().open();
+    const { callbackId } = lastSocket().sent[0];
+    lastSocket().receive({ event: 'callback-response', callbackId, payload: ['saved'] });
+
+    expect(callback).toHaveBeenCalledWith('saved');
+  });
+
+  test('should buffer emits while reconnecting', () => {
+    client = new SocketIOLikeClient('ws://localhost:3000', { reconnectionDelay: 100 }, false);
+    lastSocket().open();
+    lastSocket().drop();
+
+    client.emit('offline-action', 'tunnel');
+    expect(client.sendBuffer).toHaveLength(1);
+
+    jest.advanceTimersByTime(1000);
+    const reconnected = lastSocket();
+    expect(reconnected).not.toBe(MockWebSocket.instances[0]);
+    reconnected.open();
+
+    expect(reconnected.sent).toEqual([{ event: 'offline-action', payload: ['tunnel'] }]);
+  });
+
+  test('should drop the oldest packet when the buffer is full', () => {
+    client = new SocketIOLikeClient('ws://localhost:3000', { sendBufferMaxSize: 2 }, false);
+    const droppedCallback = jest.fn();
+
+    client.emit('a', droppedCallback);
+    client.emit('b');
+    expect(client.emit('c')).toBe(true);
+
+    expect(client.sendBuffer.map(packet => packet.event)).toEqual(['b', 'c']);
+    expect(droppedCallback.mock.calls[0][0].code).toBe('SEND_BUFFER_OVERFLOW');
+  });
+
+  test('should drop the new packet with the drop-newest policy', () => {
+    client = new SocketIOLikeClient('ws://localhost:3000', {
+      sendBufferMaxSize: 2,
+      sendBufferDropPolicy: 'drop-newest',
+    }, false);
+    const rejectedCallback = jest.fn();
+
+    client.emit('a');
+    client.emit('b');
+
+    expect(client.emit('c', rejectedCallback)).toBe(false);
+    expect(client.sendBuffer.map(packet => packet.event)).toEqual(['a', 'b']);
+    expect(rejectedCallback.mock.calls[0][0].code).toBe('SEND_BUFFER_OVERFLOW');
+  });
+
+  test('should not send buffered packets whose callback already timed out', () => {
+    client = new SocketIOLikeClient('ws://localhost:3000', { timeout: 60000 }, false);
+    const callback = jest.fn();
+
+    client.timeout(500).emit('slow', callback);
+    jest.advanceTimersByTime(500);
+    lastSocket().open();
+
+    expect(callback.mock.calls[0][0].code).toBe('CALLBACK_TIMEOUT');
+    expect(lastSocket().sent).toEqual([]);
+  });
+
+  test('should discard the buffer on manual disconnect', () => {
+    client = new SocketIOLikeClient('ws://localhost:3000', {}, false);
+    const callback = jest.fn();
+    client.emit('pending', callback);
+
+    client.disconnect();
+
+    expect(client.sendBuffer).toEqual([]);
+    expect(callback.mock.calls[0][0].code).toBe('SOCKET_DISCONNECTED');
+
+    client.emit('after-disconnect');
+    expect(client.sendBuffer).toEqual([]);
+  });
+
+  test('should clear the buffer on demand', () => {
+    client = new SocketIOLikeClient('ws://localhost:3000', {}, false);
+    const callback = jest.fn();
+    client.emit('a', callback);
+    client.emit('b');
+
+    expect(client.clearSendBuffer()).toBe(2);
+    expect(client.sendBuffer).toEqual([]);
+    expect(callback.mock.calls[0][0].code).toBe('SEND_BUFFER_CLEARED');
+  });
+});
@@ -0,0 +1,266 @@
+import { EventEmitter } from 'events';
+import { SocketIOLikeServer, SocketIOLikeSocket } from '../src/server/SocketIOLikeAdapter';
+
+// Mock nanoid to avoid ES module issues
+jest.mock('nanoid', () => ({
+  nanoid: () => 'mock-id-' + Math.random().toString(36).substring(2, 11)
+}));
+
+// Minimal ws mock that records outgoing frames and lets tests inject messages
+class MockWs extends EventEmitter {
+  readyState = 1;
+  sent: any[] = [];
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close() {
+    this.readyState = 3;
+    this.emit('close', 1000, Buffer.from('Normal closure'));
+  }
+
+  receive(message: any) {
+    this.emit('message', Buffer.from(JSON.stringify(message)));
+  }
+
+  lastSent() {
+    return this.sent[this.sent.length - 1];
+  }
+}
+
+const flushPromises = async () => {
+  for (let i = 0; i < 5; i++) {
+    await Promise.resolve();
+  }
+};
+
+describe('Server-initiated acknowledgements', () => {
+  let server: SocketIOLikeServer;
+  let ws: MockWs;
+  let socket: SocketIOLikeSocket;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    server = new SocketIOLikeServer();
+    ws = new MockWs();
+    socket = new SocketIOLikeSocket(ws as any, { url: '/' }, server, server.of('/'));
+  });
+
+  afterEach(() => {
+    server.close();
+    jest.useRealTimers();
+  });
+
+  test('should send a callbackId and resolve the callback with (null, ...responses)', () => {
+    const callback = jest.fn();
+    socket.emit('command', { action: 'reboot' }, callback);
+
+    const packet = ws.lastSent();
+    expect(packet.event).toBe('command');
+    expect(packet.payload).toEqual([{ action: 'reboot' }]);
+    expect(packet.callbackId).toBeDefined();
+    expect(socket.getPendingAcksCount()).toBe(1);
+
+    ws.receive({ event: 'callback-response', callbackId: packet.callbackId, payload: ['ok', 42] });
+
+    expect(callback).toHaveBeenCalledWith(null, 'ok', 42);
+    expect(socket.getPendingAcksCount()).toBe(0);
+  });
+
+  test('should call the callback with a timeout error when the client does not answer', () => {
+    const callback = jest.fn();
+    socket.timeout(500).emit('command', callback);
+
+    jest.advanceTimersByTime(500);
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    const error = callback.mock.calls[0][0];
+    expect(error.code).toBe('CALLBACK_TIMEOUT');
+    expect(error.type).toBe('CallbackError');
+    expect(error.event).toBe('command');
+    expect(socket.getPendingAcksCount()).toBe(0);
+  });
+
+  test('should only apply timeout() to the next emit', () => {
+    const first = jest.fn();
+    const second = jest.fn();
+    socket.timeout(100).emit('a', first);
+    socket.emit('b', second);
+
+    jest.advanceTimersByTime(100);
+
+    expect(first).toHaveBeenCalled();
+    expect(second).not.toHaveBeenCalled();
+  });
+
+  test('should forward client-side callback errors', () => {
+    const callback = jest.fn();
+    socket.emit('command', callback);
+    const { callbackId } = ws.lastSent();
+
+    ws.receive({ event: 'callback-response', callbackId, error: { message: 'Device busy', code: 'BUSY' } });
+
+    const error = callback.mock.calls[0][0];
+    expect(error.message).toBe('Device busy');
+    expect(error.code).toBe('BUSY');
+  });
+
+  test('should resolve emitWithAck with the first response', async () => {
+    const promise = socket.timeout(1000).emitWithAck('get-status');
+    const { callbackId } = ws.lastSent();
+
+    ws.receive({ event: 'callback-response', callbackId, payload: [{ battery: 80 }] });
+
+    await expect(promise).resolves.toEqual({ battery: 80 });
+  });
+
+  test('should reject emitWithAck on timeout', async () => {
+    const promise = socket.timeout(200).emitWithAck('get-status');
+    jest.advanceTimersByTime(200);
+
+    await expect(promise).rejects.toMatchObject({ code: 'CALLBACK_TIMEOUT' });
+  });
+
+  test('should reject pending acknowledgements when the socket disconnects', () => {
+    const callback = jest.fn();
+    socket.emit('command', callback);
+
+    ws.close();
+
+    expect(callback.mock.calls[0][0].code).toBe('SOCKET_DISCONNECTED');
+  });
+
+  test('should fail immediately when emitting with ack on a closed socket', () => {
+    const callback = jest.fn();
+    ws.readyState = 3;
+
+    expect(socket.emit('command', callback)).toBe(false);
+    expect(callback.mock.calls[0][0].code).toBe('SOCKET_DISCONNECTED');
+  });
+
+  test('should still pass client callbacks to event handlers', async () => {
+    const handler = jest.fn((data: any, ack: Function) => ack('pong'));
+    socket.on('ping-me', handler);
+
+    ws.receive({ event: 'ping-me', payload: ['hi'], callbackId: 'cb_1' });
+    await flushPromises();
+
+    expect(handler).toHaveBeenCalled();
+    expect(ws.lastSent()).toEqual({ event: 'callback-response', callbackId: 'cb_1', payload: ['pong'] });
+  });
+});
+
+describe('Broadcast acknowledgements', () => {
+  let server: SocketIOLikeServer;
+
+  const connect = (namespace = '/') => {
+    const ws = new MockWs();
+    const socket = new SocketIOLikeSocket(ws as any, { url: namespace }, server, server.of(namespace));
+    server.of(namespace).sockets.set(socket.id, socket);
+    return { ws, socket };
+  };
+
+  const answer = (ws: MockWs, ...payload: any[]) => {
+    ws.receive({ event: 'callback-response', callbackId: ws.lastSent().callbackId, payload });
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    server = new SocketIOLikeServer();
+  });
+
+  afterEach(() => {
+    server.close();
+    jest.useRealTimers();
+  });
+
+  test('should aggregate one response per socket in the room', () => {
+    const a = connect();
+    const b = connect();
+    const outsider = connect();
+    a.socket.join('devices');
+    b.socket.join('devices');
+
+    const callback = jest.fn();
+    server.to('devices').timeout(1000).emit('config:update', { v: 2 }, callback);
+
+    expect(outsider.ws.sent.filter(p => p.event === 'config:update')).toHaveLength(0);
+    answer(a.ws, 'a-ok');
+    expect(callback).not.toHaveBeenCalled();
+    answer(b.ws, 'b-ok');
+
+    expect(callback).toHaveBeenCalledWith(null, ['a-ok', 'b-ok']);
+  });
+
+  test('should report sockets that timed out', () => {
+    const a = connect();
+    const b = connect();
+    a.socket.join('devices');
+    b.socket.join('devices');
+
+    const callback = jest.fn();
+    server.to('devices').timeout(500).emit('config:update', callback);
+    answer(a.ws, 'a-ok');
+    jest.advanceTimersByTime(500);
+
+    const [err, responses] = callback.mock.calls[0];
+    expect(err.code).toBe('BROADCAST_ACK_TIMEOUT');
+    expect(err.timedOutSockets).toEqual([b.socket.id]);
+    expect(err.responsesBySocket).toEqual({ [a.socket.id]: 'a-ok' });
+    expect(responses).toEqual(['a-ok']);
+  });
+
+  test('should call back immediately when no socket is targeted', () => {
+    const callback = jest.fn();
+    server.to('empty').timeout(500).emit('config:update', callback);
+
+    expect(callback).toHaveBeenCalledWith(null, []);
+  });
+
+  test('should resolve emitWithAck with all responses', async () => {
+    const a = connect();
+    const b = connect();
+
+    const promise = server.except('none').timeout(1000).emitWithAck('status');
+    answer(a.ws, 1);
+    answer(b.ws, 2);
+
+    await expect(promise).resolves.toEqual([1, 2]);
+  });
+
+  test('should reject emitWithAck when a socket does not answer', async () => {
+    connect();
+
+    const promise = server.to([]).timeout(100).emitWithAck('status');
+    jest.advanceTimersByTime(100);
+
+    await expect(promise).rejects.toMatchObject({ code: 'BROADCAST_ACK_TIMEOUT' });
+  });
+
+  test('should support acknowledgements on namespace operators', () => {
+    const chat = connect('/chat');
+    chat.socket.join('general');
+    server.of('/chat').addToRoom('general', chat.socket.id);
+
+    const callback = jest.fn();
+    server.of('/chat').to('general').timeout(1000).emit('hello', callback);
+    answer(chat.ws, 'hi');
+
+    expect(callback).toHaveBeenCalledWith(null, ['hi']);
+  });
+
+  test('should exclude the emitting socket from socket.to() broadcasts', () => {
+    const a = connect();
+    const b = connect();
+    a.socket.join('devices');
+    b.socket.join('devices');
+
+    const callback = jest.fn();
+    a.socket.to('devices').timeout(1000).emit('ping', callback);
+    answer(b.ws, 'pong');
+
+    expect(a.ws.sent.filter(p => p.event === 'ping')).toHaveLength(0);
+    expect(callback).toHaveBeenCalledWith(null, ['pong']);
+  });
+});
@@ -0,0 +1,113 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+import { SocketIOLikeServer } from '../src/server/SocketIOLikeAdapter';
+
+// Mock nanoid to avoid ES module issues
+jest.mock('nanoid', () => ({
+  nanoid: () => 'mock-id-' + Math.random().toString(36).substring(2, 11)
+}));
+
+// Open a real ws client and resolve with the outcome of the upgrade
+const openClient = (
+  port: number,
+  path: string
+): Promise<{ ws: WebSocket; status: 'open' | number }> =>
+  new Promise(resolve => {
+    const ws = new WebSocket(`ws://127.0.0.1:${port}${path}`);
+    ws.on('open', () => resolve({ ws, status: 'open' }));
+    ws.on('unexpected-response', (_req, res) => resolve({ ws, status: res.statusCode || 0 }));
+    ws.on('error', () => undefined);
+  });
+
+describe('SocketIOLikeServer options', () => {
+  let io: SocketIOLikeServer;
+  let httpServer: http.Server;
+  let port: number;
+  const clients: WebSocket[] = [];
+
+  const start = async (options: ConstructorParameters<typeof SocketIOLikeServer>[0]) => {
+    io = new SocketIOLikeServer({ pingInterval: 0, ...options });
+    httpServer = http.createServer();
+    io.attach(httpServer);
+    await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve));
+    port = (httpServer.address() as AddressInfo).port;
+  };
+
+  const connect = async (path: string) => {
+    const result = await openClient(port, path);
+    clients.push(result.ws);
+    return result;
+  };
+
+  afterEach(async () => {
+    clients.splice(0).forEach(ws => ws.terminate());
+    if (io) {
+      await new Promise<void>(resolve => io.close(resolve));
+    }
+    if (httpServer && httpServer.listening) {
+      await new Promise<void>(resolve => httpServer.close(() => resolve()));
+    }
+  });
+
+  test('should only accept connections under the configured path', async () => {
+    await start({ path: '/realtime/' });
+
+    expect((await connect('/realtime')).status).toBe('open');
+    expect((await connect('/other')).status).toBe(404);
+    expect((await connect('/realtimeX')).status).toBe(404);
+  });
+
+  test('should resolve the namespace relative to the configured path', async () => {
+    await start({ path: '/realtime' });
+    const connected = new Promise<string>(resolve => {
+      io.of('/chat').on('connection', (socket: any) => resolve(socket.nsp.name));
+    });
+
+    await connect('/realtime/chat');
+
+    await expect(connected).resolves.toBe('/chat');
+  });
+
+  test('should cap the number of concurrent connections', async () => {
+    await start({ maxConnections: 1 });
+
+    expect((await connect('/')).status).toBe('open');
+    expect((await connect('/')).status).toBe(503);
+  });
+
+  test('should count connections whose handshake is still pending', async () => {
+    await start({ maxConnections: 2 });
+
+    // Ninguna envía el paquete 'connect': todavía no tienen socket
+    const results = await Promise.all([1, 2, 3, 4].map(() => connect('/?connectPacket=1')));
+    const statuses = results.map(result => result.status);
+
+    expect(statuses.filter(status => status === 'open')).toHaveLength(2);
+    expect(statuses.filter(status => status === 503)).toHaveLength(2);
+  });
+
+  test('should forward maxHttpBufferSize to ws as maxPayload', async () => {
+    await start({ maxHttpBufferSize: 64 });
+    const { ws } = await connect('/');
+
+    const closeCode = new Promise<number>(resolve => ws.on('close', code => resolve(code)));
+    ws.send(JSON.stringify({ event: 'big', payload: ['x'.repeat(200)] }));
+
+    await expect(closeCode).resolves.toBe(1009);
+  });
+
+  test('should listen on options.port and options.host when no port is given', async () => {
+    io = new SocketIOLikeServer({ pingInterval: 0, port: 0, host: '127.0.0.1' });
+    io.listen();
+    const wss = (io as any).wss;
+    await new Promise(resolve => wss.once('listening', resolve));
+
+    expect(wss.address().address).toBe('127.0.0.1');
+  });
+
+  test('should throw when no port is available', () => {
+    io = new SocketIOLikeServer({ pingInterval: 0 });
+    expect(() => io.listen()).toThrow('No port given');
+  });
+});
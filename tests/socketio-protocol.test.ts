@@ -0,0 +1,208 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+import { SocketIOLikeServer, SocketIOLikeSocket } from '../src/server/SocketIOLikeAdapter';
+import { SocketIOLikeClient } from '../src/client/ws-adapter';
+import { SocketIOCodec } from '../src/parser/socketio';
+
+// Mock nanoid to avoid ES module issues
+jest.mock('nanoid', () => ({
+  nanoid: () => 'mock-id-' + Math.random().toString(36).substring(2, 11)
+}));
+
+describe('SocketIOCodec', () => {
+  test('should encode events, acks and namespaces like Socket.IO', () => {
+    const codec = new SocketIOCodec('srv_cb_');
+
+    expect(codec.encodePacket('/', { event: 'hello', payload: ['world', 1] })).toEqual(['42["hello","world",1]']);
+    expect(codec.encodePacket('/chat', { event: 'ask', payload: [], callbackId: 'srv_cb_12' })).toEqual(['42/chat,12["ask"]']);
+    expect(codec.encodePacket('/', { event: 'callback-response', callbackId: '3', payload: [{ ok: true }] })).toEqual(['433[{"ok":true}]']);
+    expect(codec.encodeConnect('/', { sid: 'abc' })).toBe('40{"sid":"abc"}');
+    expect(codec.encodeConnectError('/admin', 'Not authorized')).toBe('44/admin,{"message":"Not authorized"}');
+    expect(codec.encodeDisconnect('/chat')).toBe('41/chat,');
+  });
+
+  test('should decode Engine.IO and Socket.IO packets', () => {
+    const codec = new SocketIOCodec('cb_');
+
+    expect(codec.decode('0{"sid":"s1","upgrades":[],"pingInterval":25000,"pingTimeout":20000,"maxPayload":1000000}'))
+      .toEqual({ type: 'open', data: { sid: 's1', upgrades: [], pingInterval: 25000, pingTimeout: 20000, maxPayload: 1000000 } });
+    expect(codec.decode('2')).toEqual({ type: 'ping' });
+    expect(codec.decode('40/chat,{"token":"t"}')).toEqual({ type: 'connect', nsp: '/chat', data: { token: 't' } });
+    expect(codec.decode('427["save",{"id":1}]')).toEqual({
+      type: 'packet',
+      nsp: '/',
+      packet: { event: 'save', payload: [{ id: 1 }], callbackId: '7' },
+    });
+    expect(codec.decode('435["done"]')).toEqual({
+      type: 'packet',
+      nsp: '/',
+      packet: { event: 'callback-response', callbackId: 'cb_5', payload: ['done'] },
+    });
+  });
+
+  test('should send binaries as attachment frames and rebuild them', () => {
+    const codec = new SocketIOCodec('cb_');
+    const file = Buffer.from([1, 2, 3]);
+
+    const frames = codec.encodePacket('/', { event: 'upload', payload: [{ file }] });
+    expect(frames).toEqual(['451-["upload",{"file":{"_placeholder":true,"num":0}}]', file]);
+
+    expect(codec.decode(frames[0])).toBeNull();
+    expect(codec.decode(frames[1])).toEqual({
+      type: 'packet',
+      nsp: '/',
+      packet: { event: 'upload', payload: [{ file }] },
+    });
+  });
+
+  test('should reject malformed packets', () => {
+    const codec = new SocketIOCodec('cb_');
+
+    expect(() => codec.decode('9')).toThrow('Unknown Engine.IO packet type');
+    expect(() => codec.decode('47')).toThrow('Unknown Socket.IO packet type');
+    expect(() => codec.decode('42{"not":"an array"}')).toThrow('Invalid Socket.IO packet payload');
+    expect(() => codec.encodePacket('/', { event: 'a', payload: [], callbackId: 'custom' })).toThrow('Invalid Socket.IO ack id');
+  });
+});
+
+describe('Socket.IO protocol mode', () => {
+  let io: SocketIOLikeServer;
+  let httpServer: http.Server;
+  let port: number;
+  let originalWebSocket: any;
+
+  // Cliente WebSocket en bruto que guarda los frames de texto recibidos
+  const openRaw = async (path = '/socket.io/?EIO=4&transport=websocket') => {
+    const ws = new WebSocket(`ws://127.0.0.1:${port}${path}`);
+    const frames: string[] = [];
+    const waiters: Array<() => void> = [];
+    ws.on('message', data => {
+      frames.push(data.toString());
+      waiters.splice(0).forEach(wake => wake());
+    });
+    const next = async (): Promise<string> => {
+      while (frames.length === 0) {
+        await new Promise<void>(resolve => waiters.push(resolve));
+      }
+      return frames.shift()!;
+    };
+    await new Promise(resolve => ws.once('open', resolve));
+    return { ws, next };
+  };
+
+  beforeEach(async () => {
+    originalWebSocket = (global as any).WebSocket;
+    (global as any).WebSocket = WebSocket;
+
+    io = new SocketIOLikeServer({ protocol: 'socket.io', path: '/socket.io', pingInterval: 0, pingTimeout: 300 });
+    httpServer = http.createServer();
+    io.attach(httpServer);
+    await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve));
+    port = (httpServer.address() as AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => setTimeout(resolve, 20));
+    await new Promise<void>(resolve => io.close(resolve));
+    await new Promise<void>(resolve => httpServer.close(() => resolve()));
+    (global as any).WebSocket = originalWebSocket;
+  });
+
+  test('should perform the Engine.IO handshake and connect to the namespace with auth', async () => {
+    const connected = new Promise<SocketIOLikeSocket>(resolve => io.of('/chat').once('connection', resolve));
+    const { ws, next } = await openRaw();
+
+    const open = JSON.parse((await next()).substring(1));
+    expect(open).toMatchObject({ upgrades: [], pingInterval: 0, pingTimeout: 300 });
+    expect(typeof open.sid).toBe('string');
+
+    ws.send('40/chat,{"token":"secret"}');
+    const socket = await connected;
+    expect(socket.handshake.auth).toEqual({ token: 'secret' });
+    expect(await next()).toBe(`40/chat,{"sid":"${socket.id}"}`);
+
+    ws.close();
+  });
+
+  test('should exchange events and acknowledgements in both directions', async () => {
+    const connected = new Promise<SocketIOLikeSocket>(resolve => io.of('/').once('connection', resolve));
+    const { ws, next } = await openRaw();
+    await next();
+    ws.send('40');
+    const socket = await connected;
+    await next();
+
+    socket.on('sum', (a: number, b: number, ack: Function) => ack(a + b));
+    ws.send('420["sum",2,3]');
+    expect(await next()).toBe('430[5]');
+
+    const reply = socket.timeout(1000).emitWithAck('question', 'ready?');
+    const frame = await next();
+    expect(frame).toBe('421["question","ready?"]');
+    ws.send('431["yes"]');
+    await expect(reply).resolves.toBe('yes');
+
+    ws.close();
+  });
+
+  test('should answer middleware errors with CONNECT_ERROR', async () => {
+    io.of('/').use((_socket, next) => {
+      const error = new Error('Not authorized');
+      (error as any).data = { reason: 'token' };
+      next(error);
+    });
+    const { ws, next } = await openRaw();
+    await next();
+    ws.send('40');
+
+    expect(await next()).toBe('44{"message":"Not authorized","data":{"reason":"token"}}');
+    expect(await next()).toBe('41');
+    ws.close();
+  });
+
+  test('should use Engine.IO ping/pong packets for the heartbeat', async () => {
+    const connected = new Promise<SocketIOLikeSocket>(resolve => io.of('/').once('connection', resolve));
+    const { ws, next } = await openRaw();
+    await next();
+    ws.send('40');
+    const socket = await connected;
+    await next();
+
+    const latency = new Promise(resolve => socket.on('latency', resolve));
+    socket.heartbeat(300);
+    expect(await next()).toBe('2');
+    ws.send('3');
+    await expect(latency).resolves.toEqual(expect.any(Number));
+
+    ws.close();
+  });
+
+  test('should let SocketIOLikeClient talk to the server in socket.io mode', async () => {
+    const connected = new Promise<SocketIOLikeSocket>(resolve => io.of('/chat').once('connection', resolve));
+    const client = new SocketIOLikeClient(`ws://127.0.0.1:${port}/chat`, {
+      protocol: 'socket.io',
+      auth: { user: 'ana' },
+      reconnection: false,
+    }, false);
+
+    const socket = await connected;
+    socket.on('greet', (name: string, ack: Function) => ack(`hola ${name}`));
+    await new Promise(resolve => client.once('connect', resolve));
+
+    expect(client.id).toBe(socket.id);
+    expect(socket.handshake.auth).toEqual({ user: 'ana' });
+
+    const greeting = await new Promise(resolve => client.emit('greet', 'ana', resolve));
+    expect(greeting).toBe('hola ana');
+
+    client.on('notify', (message: string, ack: Function) => ack(message.toUpperCase()));
+    await expect(socket.timeout(1000).emitWithAck('notify', 'ok')).resolves.toBe('OK');
+
+    const disconnected = new Promise(resolve => client.once('disconnect', resolve));
+    socket.disconnect();
+    await disconnected;
+    expect(client.getReconnectionStats().isReconnecting).toBe(false);
+    client.disconnect();
+  });
+});
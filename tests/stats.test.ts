@@ -0,0 +1,112 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+import { SocketIOLikeServer, SocketIOLikeSocket } from '../src/server/SocketIOLikeAdapter';
+import { SocketIOLikeClient } from '../src/client/ws-adapter';
+import { frameSize } from '../src/server/stats';
+
+// Mock nanoid to avoid ES module issues
+jest.mock('nanoid', () => ({
+  nanoid: () => 'mock-id-' + Math.random().toString(36).substring(2, 11)
+}));
+
+describe('Traffic statistics', () => {
+  let io: SocketIOLikeServer;
+  let httpServer: http.Server;
+  let port: number;
+  let clients: SocketIOLikeClient[];
+  let originalWebSocket: any;
+
+  const connect = async () => {
+    const connected = new Promise<SocketIOLikeSocket>(resolve => io.once('connection', resolve));
+    const client = new SocketIOLikeClient(`ws://127.0.0.1:${port}/`, { reconnection: false }, false);
+    clients.push(client);
+    const socket = await connected;
+    await new Promise(resolve => client.once('connect', resolve));
+    return { client, socket };
+  };
+
+  const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+  beforeEach(async () => {
+    originalWebSocket = (global as any).WebSocket;
+    (global as any).WebSocket = WebSocket;
+    clients = [];
+    io = new SocketIOLikeServer({ pingInterval: 0 });
+    httpServer = http.createServer();
+    io.attach(httpServer);
+    await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve));
+    port = (httpServer.address() as AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    clients.forEach(client => client.disconnect());
+    await wait(20);
+    await new Promise<void>(resolve => io.close(resolve));
+    await new Promise<void>(resolve => httpServer.close(() => resolve()));
+    (global as any).WebSocket = originalWebSocket;
+  });
+
+  test('should measure frames as UTF-8 text or binary data', () => {
+    expect(frameSize('ñ')).toBe(2);
+    expect(frameSize(Buffer.alloc(5))).toBe(5);
+    expect(frameSize(new Uint8Array(3))).toBe(3);
+  });
+
+  test('should count the packets, bytes and errors of each socket', async () => {
+    const { client, socket } = await connect();
+    socket.on('ping-me', (ack: Function) => ack('pong'));
+    socket.on('note', { allowedTypes: ['string'] }, () => undefined);
+
+    await new Promise(resolve => client.emit('ping-me', resolve));
+    client.emit('note', 'hi');
+    client.emit('note', 42);
+    socket.emit('hello', 'world');
+    await wait(50);
+
+    const { stats } = socket.getConnectionInfo();
+    // 'user-registered', la respuesta del ack y 'hello'
+    expect(stats).toMatchObject({ messagesReceived: 3, messagesSent: 3, errors: 1, reconnections: 0 });
+    expect(stats.bytesReceived).toBeGreaterThan(0);
+    expect(stats.bytesSent).toBeGreaterThan(0);
+    expect(io.getUser(socket.id)!.stats).toBe(socket.stats);
+    expect(io.getStats().users[0].stats).toEqual(stats);
+  });
+
+  test('should track room messages, peak users and session durations', async () => {
+    const [a, b] = [await connect(), await connect()];
+    a.socket.join('lobby');
+    b.socket.join('lobby');
+    io.to('lobby').emit('news', 1);
+    a.socket.to('lobby').emit('news', 2);
+    await wait(30);
+    b.socket.leave('lobby');
+    b.socket.join('lobby');
+    a.socket.leave('lobby');
+
+    const stats = io.getStats().roomsWithMetadata.lobby.stats!;
+    expect(stats).toMatchObject({ totalMessages: 2, totalUsers: 3, peakUsers: 2 });
+    expect(stats.averageSessionDuration).toBeGreaterThanOrEqual(15);
+    expect(stats.lastActivity).toBeLessThanOrEqual(Date.now());
+  });
+
+  test('should keep server-wide connection and message counters', async () => {
+    const a = await connect();
+    await connect();
+    a.client.emit('anything');
+    await wait(20);
+
+    const closed = new Promise(resolve => a.socket.once('disconnect', resolve));
+    a.client.disconnect();
+    await closed;
+
+    const stats = io.getServerStats();
+    expect(stats).toMatchObject({ totalConnections: 2, activeConnections: 1, peakConnections: 2, totalErrors: 0 });
+    // 'user-registered' de cada socket y el evento recibido
+    expect(stats.totalMessages).toBe(3);
+    expect(stats.averageConnectionDuration).toBeGreaterThan(0);
+    expect(stats.uptime).toBeGreaterThan(0);
+    expect(stats.startTime + stats.uptime).toBeLessThanOrEqual(Date.now());
+    expect(io.getStats().server.totalConnections).toBe(2);
+  });
+});
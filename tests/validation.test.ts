@@ -0,0 +1,193 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+import { SocketIOLikeServer, SocketIOLikeSocket } from '../src/server/SocketIOLikeAdapter';
+import { SocketIOLikeClient } from '../src/client/ws-adapter';
+import { JSONSchema, validatePayload, validateSchema } from '../src/server/validation';
+
+// Mock nanoid to avoid ES module issues
+jest.mock('nanoid', () => ({
+  nanoid: () => 'mock-id-' + Math.random().toString(36).substring(2, 11)
+}));
+
+const messageSchema: JSONSchema = {
+  type: 'object',
+  required: ['room', 'text'],
+  additionalProperties: false,
+  properties: {
+    room: { type: 'string', pattern: '^[a-z]+$' },
+    text: { type: 'string', minLength: 1, maxLength: 20 },
+    tags: { type: 'array', items: { type: 'string' }, maxItems: 2 },
+    priority: { enum: ['low', 'high'] },
+  },
+};
+
+describe('Event payload validation', () => {
+  describe('validateSchema', () => {
+    test('should accept valid values and report every issue with its path', () => {
+      expect(validateSchema({ room: 'general', text: 'hi', tags: ['a'] }, messageSchema)).toEqual([]);
+
+      const issues = validateSchema(
+        { room: 'General', text: '', tags: ['a', 2, 'c'], priority: 'urgent', extra: true },
+        messageSchema
+      );
+      expect(issues).toEqual([
+        { path: '.room', message: 'must match ^[a-z]+$' },
+        { path: '.text', message: 'must have at least 1 characters' },
+        { path: '.tags', message: 'must have at most 2 items' },
+        { path: '.tags[1]', message: 'must be string, got number' },
+        { path: '.priority', message: 'must be one of ["low","high"]' },
+        { path: '.extra', message: 'is not allowed' },
+      ]);
+      expect(validateSchema('text', messageSchema)).toEqual([
+        { path: '', message: 'must be object, got string' },
+      ]);
+    });
+
+    test('should support integers, numeric bounds and combinators', () => {
+      const schema: JSONSchema = {
+        anyOf: [{ type: 'integer', minimum: 1, exclusiveMaximum: 10 }, { type: 'null' }],
+      };
+      expect(validateSchema(5, schema)).toEqual([]);
+      expect(validateSchema(null, schema)).toEqual([]);
+      expect(validateSchema(10, schema)).toHaveLength(1);
+      expect(validateSchema(1.5, schema)).toHaveLength(1);
+      expect(validateSchema(3, { oneOf: [{ type: 'number' }, { type: 'integer' }] })).toEqual([
+        { path: '', message: 'must match exactly one schema in oneOf (matched 2)' },
+      ]);
+    });
+  });
+
+  describe('validatePayload', () => {
+    test('should check the declarative rules before the custom validator', async () => {
+      const validate = jest.fn(() => 'never called');
+      expect(
+        await validatePayload(['text'], { allowedTypes: ['object'], required: ['id'], validate })
+      ).toEqual([{ path: '', message: 'must be object, got string' }]);
+      expect(validate).not.toHaveBeenCalled();
+
+      expect(await validatePayload([{ id: 1 }, 'x'.repeat(50)], { maxLength: 40 })).toEqual([
+        { path: '', message: 'payload must have at most 40 characters, got 63' },
+      ]);
+    });
+
+    test('should accept sync and async validator functions', async () => {
+      expect(await validatePayload([1, 2], { validate: ([a, b]) => a < b })).toEqual([]);
+      expect(await validatePayload([2, 1], { validate: ([a, b]) => a < b })).toEqual([
+        { path: '', message: 'is invalid' },
+      ]);
+      expect(
+        await validatePayload([{}], { validate: async () => ['.id is required', '.name is required'] })
+      ).toEqual([
+        { path: '', message: '.id is required' },
+        { path: '', message: '.name is required' },
+      ]);
+      expect(
+        await validatePayload([{}], {
+          validate: () => {
+            throw new Error('Unknown user');
+          },
+        })
+      ).toEqual([{ path: '', message: 'Unknown user' }]);
+    });
+  });
+
+  describe('on a server', () => {
+    let io: SocketIOLikeServer;
+    let httpServer: http.Server;
+    let port: number;
+    let clients: SocketIOLikeClient[];
+    let originalWebSocket: any;
+
+    const connect = async (nsp = '/') => {
+      const connected = new Promise<SocketIOLikeSocket>(resolve => io.of(nsp).once('connection', resolve));
+      const client = new SocketIOLikeClient(`ws://127.0.0.1:${port}${nsp}`, { reconnection: false }, false);
+      clients.push(client);
+      const socket = await connected;
+      await new Promise(resolve => client.once('connect', resolve));
+      return { client, socket };
+    };
+
+    const emitWithAck = (client: SocketIOLikeClient, event: string, ...args: any[]) =>
+      new Promise<any[]>(resolve => client.emit(event, ...args, (...response: any[]) => resolve(response)));
+
+    beforeEach(async () => {
+      originalWebSocket = (global as any).WebSocket;
+      (global as any).WebSocket = WebSocket;
+      clients = [];
+      io = new SocketIOLikeServer({ pingInterval: 0 });
+      httpServer = http.createServer();
+      io.attach(httpServer);
+      await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve));
+      port = (httpServer.address() as AddressInfo).port;
+    });
+
+    afterEach(async () => {
+      clients.forEach(client => client.disconnect());
+      await new Promise(resolve => setTimeout(resolve, 20));
+      await new Promise<void>(resolve => io.close(resolve));
+      await new Promise<void>(resolve => httpServer.close(() => resolve()));
+      (global as any).WebSocket = originalWebSocket;
+    });
+
+    test('should answer invalid payloads with a ValidationError instead of calling the handler', async () => {
+      const { client, socket } = await connect();
+      const handler = jest.fn((_message: any, ack: Function) => ack('sent'));
+      socket.on('chat:send', { schema: messageSchema }, handler);
+
+      expect(await emitWithAck(client, 'chat:send', { room: 'general', text: 'hi' })).toEqual(['sent']);
+
+      const [error] = await emitWithAck(client, 'chat:send', { room: 'general', text: 42 });
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(error).toBeInstanceOf(Error);
+      expect(error.type).toBe('ValidationError');
+      expect(error.code).toBe('VALIDATION_ERROR');
+      expect(error.message).toBe("Invalid payload for 'chat:send': .text must be string, got number");
+      expect(error.data).toEqual({
+        event: 'chat:send',
+        errors: [{ path: '.text', message: 'must be string, got number' }],
+      });
+      expect(error.context).toEqual({
+        socketId: socket.id,
+        rawMessage: '[{"room":"general","text":42}]',
+        expectedFormat: JSON.stringify(messageSchema),
+        actualFormat: 'object{room,text}',
+        parseAttempt: 1,
+      });
+    });
+
+    test('should drop invalid payloads without an ack', async () => {
+      const { client, socket } = await connect();
+      const received: any[] = [];
+      const errors: any[] = [];
+      socket.on('chat:send', { required: ['text'] }, message => received.push(message));
+      socket.on('error', error => errors.push(error));
+
+      client.emit('chat:send', { room: 'general' });
+      client.emit('chat:send', { text: 'hi' });
+      await new Promise(resolve => setTimeout(resolve, 100));
+      expect(received).toEqual([{ text: 'hi' }]);
+      expect(errors).toEqual([]);
+    });
+
+    test('should use the namespace registry, overridden by the socket rules', async () => {
+      const chat = io.of('/chat');
+      chat.registerSchema('vote', { validate: ([choice]) => [1, 2, 3].includes(choice) || 'unknown choice' });
+      const { client, socket } = await connect('/chat');
+      socket.on('vote', (_choice: number, ack: Function) => ack('ok'));
+
+      expect(await emitWithAck(client, 'vote', 2)).toEqual(['ok']);
+      const [error] = await emitWithAck(client, 'vote', 7);
+      expect(error.type).toBe('ValidationError');
+      expect(error.data.errors).toEqual([{ path: '', message: 'unknown choice' }]);
+      expect(error.context.expectedFormat).toBe('custom validator');
+
+      // Las reglas del socket tienen prioridad
+      socket.on('vote', { allowedTypes: ['number'] }, () => undefined);
+      expect(await emitWithAck(client, 'vote', 7)).toEqual(['ok']);
+
+      chat.removeSchema('vote');
+      expect(chat.getSchema('vote')).toBeUndefined();
+    });
+  });
+});